@@ -9,6 +9,9 @@ import {
 import { Router, NavigationEnd, NavigationError } from "@angular/router";
 import { Subscription, filter } from "rxjs";
 import { environment } from "../environments/environment";
+import { SettingsService } from "./services/settings.service";
+import { UserSettings } from "./models/chat.interface";
+import { FONT_SIZES } from "./utils/user-settings";
 
 @Injectable()
 export class GlobalErrorHandler implements ErrorHandler {
@@ -76,14 +79,18 @@ export class AppComponent implements OnInit, OnDestroy {
   errorMessage = "";
   private subscriptions: Subscription[] = [];
 
-  constructor(private router: Router, private errorHandler: ErrorHandler) {}
+  constructor(
+    private router: Router,
+    private errorHandler: ErrorHandler,
+    private settingsService: SettingsService
+  ) {}
 
   ngOnInit(): void {
     this.initializeApp();
 
     this.monitorRouteChanges();
 
-    this.checkDarkModePreference();
+    this.applyAppearanceSettings();
 
     if (!environment.production) {
       console.log(`${this.title} initialized in development mode`);
@@ -162,28 +169,25 @@ export class AppComponent implements OnInit, OnDestroy {
     }
   }
 
-  private checkDarkModePreference(): void {
-    const savedPreference = localStorage.getItem("darkMode");
+  private applyAppearanceSettings(): void {
+    const apply = (settings: UserSettings) => {
+      document.documentElement.classList.toggle(
+        "dark",
+        this.settingsService.isDarkTheme(settings)
+      );
+      // Tailwind sizes are in rem, so the root size scales the whole UI.
+      document.documentElement.style.fontSize = `${
+        FONT_SIZES.find((f) => f.value === settings.fontSize)?.px || 16
+      }px`;
+    };
 
-    if (savedPreference === "true") {
-      document.documentElement.classList.add("dark");
-    } else if (savedPreference === "false") {
-      document.documentElement.classList.remove("dark");
-    } else {
-      if (window.matchMedia("(prefers-color-scheme: dark)").matches) {
-        document.documentElement.classList.add("dark");
-      }
-    }
+    this.subscriptions.push(this.settingsService.settings$.subscribe(apply));
 
     window
       .matchMedia("(prefers-color-scheme: dark)")
-      .addEventListener("change", (e) => {
-        if (localStorage.getItem("darkMode") === null) {
-          if (e.matches) {
-            document.documentElement.classList.add("dark");
-          } else {
-            document.documentElement.classList.remove("dark");
-          }
+      .addEventListener("change", () => {
+        if (this.settingsService.get().theme === "system") {
+          apply(this.settingsService.get());
         }
       });
   }
@@ -8,17 +8,46 @@ import { BrowserAnimationsModule } from "@angular/platform-browser/animations";
 
 import { AppComponent } from "./app.component";
 import { ChatInterfaceComponent } from "./components/chat-interface.component";
+import { MarkdownMessageComponent } from "./components/markdown-message.component";
+import { UsageDashboardComponent } from "./components/usage-dashboard.component";
+import { SearchPanelComponent } from "./components/search-panel.component";
+import { ConversationListComponent } from "./components/conversation-list.component";
+import { SettingsComponent } from "./components/settings.component";
+import { ConnectionsComponent } from "./components/connections.component";
 
 import { AiService } from "./services/ai.service";
 import { ChatStorageService } from "./services/chat-storage.service";
+import { ProviderRegistryService } from "./services/provider-registry.service";
+import { MarkdownService } from "./services/markdown.service";
+import { ContextBuilderService } from "./services/context-builder.service";
+import { PricingService } from "./services/pricing.service";
+import { UsageLedgerService } from "./services/usage-ledger.service";
+import { SearchIndexService } from "./services/search-index.service";
+import { ExportService } from "./services/export.service";
+import { ImportService } from "./services/import.service";
+import { SettingsService } from "./services/settings.service";
+import { ConnectionService } from "./services/connection.service";
+import { MockBackendService } from "./services/mock-backend.service";
 
 const routes: Routes = [
   { path: "", component: ChatInterfaceComponent },
+  { path: "usage", component: UsageDashboardComponent },
+  { path: "settings", component: SettingsComponent },
+  { path: "connections", component: ConnectionsComponent },
   { path: "**", redirectTo: "" },
 ];
 
 @NgModule({
-  declarations: [AppComponent, ChatInterfaceComponent],
+  declarations: [
+    AppComponent,
+    ChatInterfaceComponent,
+    MarkdownMessageComponent,
+    UsageDashboardComponent,
+    SearchPanelComponent,
+    ConversationListComponent,
+    SettingsComponent,
+    ConnectionsComponent,
+  ],
   imports: [
     BrowserModule,
     BrowserAnimationsModule,
@@ -35,6 +64,17 @@ const routes: Routes = [
   providers: [
     AiService,
     ChatStorageService,
+    ProviderRegistryService,
+    MarkdownService,
+    ContextBuilderService,
+    PricingService,
+    UsageLedgerService,
+    SearchIndexService,
+    ExportService,
+    ImportService,
+    SettingsService,
+    ConnectionService,
+    MockBackendService,
     {
       provide: "ENVIRONMENT",
       useValue: {
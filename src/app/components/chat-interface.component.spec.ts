@@ -0,0 +1,134 @@
+import { ChangeDetectorRef } from "@angular/core";
+import { FormBuilder } from "@angular/forms";
+import { of } from "rxjs";
+import { ChatMessage, MessageSender } from "../models/chat.interface";
+import { AiService } from "../services/ai.service";
+import { ChatStorageService } from "../services/chat-storage.service";
+import { ConnectionService } from "../services/connection.service";
+import { ExportService } from "../services/export.service";
+import { ImportService } from "../services/import.service";
+import { SearchIndexService } from "../services/search-index.service";
+import { SettingsService } from "../services/settings.service";
+import { UsageLedgerService } from "../services/usage-ledger.service";
+import { ChatInterfaceComponent } from "./chat-interface.component";
+
+let replyCount = 0;
+
+function createReply(content: string): ChatMessage {
+  return {
+    id: `reply-${++replyCount}`,
+    sender: MessageSender.AI,
+    content,
+    timestamp: Date.now(),
+  };
+}
+
+describe("ChatInterfaceComponent", () => {
+  let chatStorage: ChatStorageService;
+  let aiService: jasmine.SpyObj<AiService>;
+  let component: ChatInterfaceComponent;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+
+    const settingsService = new SettingsService();
+    chatStorage = new ChatStorageService(
+      new SearchIndexService(),
+      settingsService
+    );
+    await chatStorage.ready;
+
+    aiService = jasmine.createSpyObj<AiService>("AiService", [
+      "getDefaultParams",
+      "getTitleSettings",
+      "cancelGeneration",
+      "reset",
+      "sendMessage",
+      "generateTitle",
+    ]);
+    aiService.getDefaultParams.and.returnValue({});
+    aiService.getTitleSettings.and.returnValue({
+      enabled: true,
+      autoTag: false,
+      model: "",
+    });
+    aiService.generateTitle.and.returnValue(
+      of({ title: "Greeting the assistant", tags: [] })
+    );
+
+    component = new ChatInterfaceComponent(
+      aiService,
+      chatStorage,
+      {} as UsageLedgerService,
+      jasmine.createSpyObj<ExportService>("ExportService", {
+        getFormat: "json",
+        getOptions: {
+          includeSystemMessages: false,
+          includeErrors: false,
+          includeMetadata: true,
+        },
+      }),
+      {} as ImportService,
+      settingsService,
+      jasmine.createSpyObj<ConnectionService>("ConnectionService", {
+        getStatus: "none",
+      }),
+      new FormBuilder(),
+      jasmine.createSpyObj<ChangeDetectorRef>("ChangeDetectorRef", [
+        "detectChanges",
+      ])
+    );
+  });
+
+  afterEach(() => {
+    const id = chatStorage.getCurrentConversation()?.metadata.id;
+    if (id) {
+      chatStorage.deleteConversations([id]);
+    }
+    chatStorage.ngOnDestroy();
+    jasmine.clock().uninstall();
+  });
+
+  describe("automatic titles", () => {
+    it("should name a new conversation after its first reply", () => {
+      const reply = createReply("Hello! How can I help?");
+      aiService.sendMessage.and.returnValue(of(reply));
+      spyOn(chatStorage, "updateConversationTitle").and.callThrough();
+
+      component.newConversation();
+      const [welcome] = chatStorage.getCurrentConversation()?.messages || [];
+      expect(welcome.sender).toBe(MessageSender.AI);
+
+      component.messageForm.setValue({ message: "Hi there" });
+      component.sendMessage();
+
+      const conversation = chatStorage.getCurrentConversation();
+      const [exchange] = aiService.generateTitle.calls.mostRecent().args;
+      expect(exchange.map((m) => m.sender)).toEqual([
+        MessageSender.USER,
+        MessageSender.AI,
+      ]);
+      expect(exchange[1]).toBe(reply);
+      expect(chatStorage.updateConversationTitle).toHaveBeenCalledWith(
+        conversation?.metadata.id || "",
+        "Greeting the assistant",
+        "generated"
+      );
+    });
+
+    it("should only name the conversation once", () => {
+      aiService.sendMessage.and.returnValues(
+        of(createReply("First answer")),
+        of(createReply("Second answer"))
+      );
+
+      component.newConversation();
+      component.messageForm.setValue({ message: "First question" });
+      component.sendMessage();
+      component.messageForm.setValue({ message: "Second question" });
+      component.sendMessage();
+
+      expect(aiService.generateTitle).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -6,21 +6,73 @@ import {
   ViewChild,
   ElementRef,
   ChangeDetectorRef,
+  HostListener,
 } from "@angular/core";
 import { FormBuilder, FormGroup, Validators } from "@angular/forms";
 import { Subscription } from "rxjs";
-import { filter } from "rxjs/operators";
+import { distinctUntilChanged, filter } from "rxjs/operators";
 import { AiService } from "../services/ai.service";
 import { ChatStorageService } from "../services/chat-storage.service";
+import { UsageLedgerService } from "../services/usage-ledger.service";
+import { EXPORT_FORMATS, ExportService } from "../services/export.service";
+import { ImportService } from "../services/import.service";
+import { SettingsService } from "../services/settings.service";
+import {
+  ConnectionService,
+  ConnectionStatus,
+} from "../services/connection.service";
+import { ExportFormat, ExportOptions } from "../models/export.interface";
+import { ImportReport } from "../models/import.interface";
+import { BudgetStatus } from "../models/usage.interface";
+import { SearchResult } from "../models/search.interface";
 import {
   ChatMessage,
   MessageSender,
   LoadingState,
   ErrorState,
   ChatHistory,
+  ContextStrategy,
+  ContextSummary,
+  ContextWindow,
+  DocumentAttachment,
+  ImageAttachment,
+  MessageAttachment,
+  ParameterPreset,
+  Persona,
+  TitleSettings,
+  UserSettings,
 } from "../models/chat.interface";
+import {
+  ChatProvider,
+  ChatProviderType,
+  GenerationParams,
+  ModelInfo,
+} from "../models/provider.interface";
+import { PROMPT_VARIABLES } from "../utils/prompt-template";
+import { getSiblingGroups } from "../utils/message-tree";
+import {
+  createImageAttachment,
+  formatFileSize,
+  getImageAttachments,
+  isImageFile,
+} from "../utils/image-attachments";
+import {
+  DOCUMENT_ACCEPT,
+  createDocumentAttachment,
+  getDocumentAttachments,
+  isDocumentFile,
+} from "../utils/document-attachments";
+import { environment } from "../../environments/environment";
+import {
+  GENERATION_PARAM_FIELDS,
+  NumericGenerationParam,
+  describeGenerationParams,
+  normalizeGenerationParams,
+} from "../utils/generation-params";
 import { v4 as uuidv4 } from "uuid";
 
+const MAX_MESSAGE_LENGTH = 4000;
+
 @Component({
   selector: "app-chat-interface",
   templateUrl: "./chat-interface.component.html",
@@ -31,10 +83,12 @@ export class ChatInterfaceComponent
 {
   @ViewChild("messageContainer") messageContainer!: ElementRef;
   @ViewChild("messageInput") messageInput!: ElementRef;
+  @ViewChild("fileInput") fileInput!: ElementRef<HTMLInputElement>;
 
   messageForm!: FormGroup;
   messages: ChatMessage[] = [];
   isLoading = false;
+  isCancelable = false;
   loadingMessage = "";
   hasError = false;
   errorMessage = "";
@@ -43,22 +97,77 @@ export class ChatInterfaceComponent
   private subscriptions: Subscription[] = [];
   MessageSender = MessageSender;
   showSettings = false;
+  showSearch = false;
+  showConversations = false;
+  highlightedMessageId: string | null = null;
   showTokenInfo = false;
   isMobile = false;
   darkMode = false;
   tokenUsage = 0;
   estimatedCost = 0;
+  conversationTokens = 0;
+  conversationCost = 0;
   currentModel = "";
+  currentProvider!: ChatProviderType;
+  availableProviders: ChatProvider[] = [];
+  availableModels: ModelInfo[] = [];
+  currentModelInfo: ModelInfo | null = null;
+  isLoadingModels = false;
+  systemPromptDraft = "";
+  personas: Persona[] = [];
+  selectedPersonaId = "";
+  promptVariables = PROMPT_VARIABLES.map((name) => `{{${name}}}`);
+  contextStrategy: ContextStrategy = "drop-oldest";
+  paramFields = GENERATION_PARAM_FIELDS;
+  defaultParams: GenerationParams = this.aiService.getDefaultParams();
+  paramsDraft: { [K in NumericGenerationParam]?: number | null } = {};
+  stopDraft = "";
+  parameterPresets: ParameterPreset[] = [];
+  selectedPresetId = "";
+  titleSettings: TitleSettings = this.aiService.getTitleSettings();
+  exportFormats = EXPORT_FORMATS;
+  exportFormat: ExportFormat = this.exportService.getFormat();
+  exportOptions: ExportOptions = this.exportService.getOptions();
+  importReport: ImportReport | null = null;
+  pendingImages: ImageAttachment[] = [];
+  pendingDocuments: DocumentAttachment[] = [];
+  attachmentError = "";
+  contextWarning = "";
+  isProcessingFiles = false;
+  isDraggingFiles = false;
+  lightboxImage: ImageAttachment | null = null;
+  fileTypes = [...environment.attachments.images.types, DOCUMENT_ACCEPT].join(
+    ","
+  );
+  userSettings: UserSettings = this.settingsService.get();
+  connectionStatus: ConnectionStatus = this.connectionService.getStatus();
+  lastContext: ContextWindow | null = null;
+  private sentMessageIds = new Set<string>();
+  private summarizedMessageIds = new Set<string>();
+  private lastUserMessageId: string | null = null;
+  private activeConversationId: string | null = null;
+  editingMessageId: string | null = null;
+  private branchSiblings = new Map<string, ChatMessage[]>();
+  private highlightTimer: ReturnType<typeof setTimeout> | null = null;
+  editDraft = "";
   autoScroll = true;
 
   constructor(
     private aiService: AiService,
     private chatStorage: ChatStorageService,
+    private usageLedger: UsageLedgerService,
+    private exportService: ExportService,
+    private importService: ImportService,
+    private settingsService: SettingsService,
+    private connectionService: ConnectionService,
     private formBuilder: FormBuilder,
     private cdr: ChangeDetectorRef
   ) {
     this.messageForm = this.formBuilder.group({
-      message: ["", [Validators.required, Validators.maxLength(4000)]],
+      message: [
+        "",
+        [Validators.required, Validators.maxLength(MAX_MESSAGE_LENGTH)],
+      ],
     });
   }
 
@@ -67,6 +176,7 @@ export class ChatInterfaceComponent
       this.aiService.loading$.subscribe((loadingState: LoadingState) => {
         this.isLoading = loadingState.isLoading;
         this.loadingMessage = loadingState.loadingMessage || "Processing...";
+        this.isCancelable = !!loadingState.cancelable;
         if (this.isLoading) {
           this.messageForm.disable();
         } else {
@@ -90,11 +200,41 @@ export class ChatInterfaceComponent
     this.subscriptions.push(
       this.aiService.tokenUsage$.subscribe((tokens: number) => {
         this.tokenUsage = tokens;
-        this.estimatedCost = this.aiService.estimateCost();
         this.cdr.detectChanges();
       })
     );
 
+    this.subscriptions.push(
+      this.aiService.sessionCost$.subscribe((cost: number) => {
+        this.estimatedCost = cost;
+        this.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.push(
+      this.aiService.context$.subscribe((context) => {
+        this.lastContext = context;
+        this.sentMessageIds = new Set(context?.includedIds || []);
+        if (context && this.lastUserMessageId) {
+          this.sentMessageIds.add(this.lastUserMessageId);
+        }
+        this.summarizedMessageIds = new Set(context?.summarizedIds || []);
+        this.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.push(
+      this.aiService.contextSummary$.subscribe((summary: ContextSummary) => {
+        const conversation = this.chatStorage.getCurrentConversation();
+        if (conversation) {
+          this.chatStorage.setConversationContextSummary(
+            conversation.metadata.id,
+            summary
+          );
+        }
+      })
+    );
+
     this.subscriptions.push(
       this.chatStorage.currentConversation$
         .pipe(
@@ -102,11 +242,70 @@ export class ChatInterfaceComponent
         )
         .subscribe((conversation: ChatHistory) => {
           this.messages = conversation.messages;
+          this.branchSiblings = getSiblingGroups(conversation);
+          this.conversationTokens = conversation.metadata.totalTokensUsed || 0;
+          this.conversationCost = conversation.metadata.totalCost || 0;
+          this.applyConversationSettings(conversation);
           this.scrollToBottom();
           this.cdr.detectChanges();
         })
     );
 
+    this.subscriptions.push(
+      this.settingsService.settings$.subscribe((settings: UserSettings) => {
+        this.userSettings = settings;
+        this.darkMode = this.settingsService.isDarkTheme(settings);
+        this.titleSettings = { ...settings.titles };
+        this.exportFormat = settings.export.format;
+        this.exportOptions = { ...settings.export.options };
+        this.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.push(
+      this.connectionService.status$.subscribe((status: ConnectionStatus) => {
+        this.connectionStatus = status;
+        this.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.push(
+      this.chatStorage.personas$.subscribe((personas: Persona[]) => {
+        this.personas = personas;
+        if (!personas.some((p) => p.id === this.selectedPersonaId)) {
+          this.selectedPersonaId = "";
+        }
+        this.cdr.detectChanges();
+      })
+    );
+
+    this.subscriptions.push(
+      this.chatStorage.parameterPresets$.subscribe(
+        (presets: ParameterPreset[]) => {
+          this.parameterPresets = presets;
+          if (!presets.some((p) => p.id === this.selectedPresetId)) {
+            this.selectedPresetId = "";
+          }
+          this.cdr.detectChanges();
+        }
+      )
+    );
+
+    this.subscriptions.push(
+      this.usageLedger.budgetStatus$
+        .pipe(
+          distinctUntilChanged(
+            (a, b) => a.level === b.level && a.period === b.period
+          ),
+          filter((status) => status.level !== "ok")
+        )
+        .subscribe((status: BudgetStatus) => {
+          if (status.message) {
+            this.addSystemMessage(status.message, status.level === "hard");
+          }
+        })
+    );
+
     this.subscriptions.push(
       this.chatStorage.storageError$
         .pipe(filter((error): error is string => !!error))
@@ -116,7 +315,9 @@ export class ChatInterfaceComponent
         })
     );
 
+    this.availableProviders = this.aiService.getAvailableProviders();
     this.currentModel = this.aiService.getCurrentModel();
+    this.currentProvider = this.aiService.getCurrentProvider();
 
     if (!this.chatStorage.isStorageAvailable()) {
       this.addSystemMessage(
@@ -126,8 +327,7 @@ export class ChatInterfaceComponent
     }
 
     this.checkIfMobile();
-    this.initializeDarkMode();
-    this.addWelcomeMessage();
+    this.chatStorage.ready.then(() => this.addWelcomeMessage());
   }
 
   ngAfterViewInit(): void {
@@ -138,12 +338,22 @@ export class ChatInterfaceComponent
 
   ngOnDestroy(): void {
     this.subscriptions.forEach((sub) => sub.unsubscribe());
+    if (this.highlightTimer) {
+      clearTimeout(this.highlightTimer);
+    }
     window.removeEventListener("resize", this.onResize.bind(this));
   }
 
   sendMessage(): void {
-    const messageText = this.messageForm.get("message")?.value;
-    if (!messageText || messageText.trim() === "") {
+    const messageText: string = this.messageForm.get("message")?.value || "";
+    const images = this.pendingImages;
+    const attachments = [...images, ...this.pendingDocuments];
+    if (
+      (messageText.trim() === "" && !attachments.length) ||
+      this.isProcessingFiles ||
+      !this.canSendImages(images) ||
+      !this.confirmContextFits(messageText, attachments)
+    ) {
       return;
     }
     const userMessage: ChatMessage = {
@@ -152,22 +362,268 @@ export class ChatInterfaceComponent
       content: messageText,
       timestamp: Date.now(),
     };
+    if (attachments.length) {
+      userMessage.attachments = attachments;
+    }
+    const history = [...this.messages];
     this.chatStorage.addMessage(userMessage);
     this.messageForm.reset();
+    this.pendingImages = [];
+    this.pendingDocuments = [];
+    this.attachmentError = "";
+    this.contextWarning = "";
     this.focusMessageInput();
+    this.requestResponse(userMessage, history);
+  }
+
+  // Images are only sent to models that can see them.
+  private canSendImages(images: ImageAttachment[] | undefined): boolean {
+    if (!images?.length || this.currentModelInfo?.supportsVision) {
+      return true;
+    }
+
+    this.attachmentError = `${this.currentModel} does not accept images. Switch to a vision model or remove the images.`;
+    this.addSystemMessage(this.attachmentError, true);
+    return false;
+  }
+
+  // Attached documents go into the prompt; asks before a send that would
+  // not fit the model's context window.
+  private confirmContextFits(
+    messageText: string,
+    attachments: MessageAttachment[]
+  ): boolean {
+    if (!attachments.some((a) => a.kind === "document")) {
+      return true;
+    }
+
+    const context = this.aiService.previewContext(
+      this.messages,
+      messageText,
+      attachments
+    );
+    return (
+      context.promptTokens <= context.budget ||
+      confirm(
+        `This message needs about ${context.promptTokens.toLocaleString()} tokens, more than the ${context.budget.toLocaleString()} ${
+          this.currentModel
+        } has room for. The provider will probably reject it. Send anyway?`
+      )
+    );
+  }
+
+  openFilePicker(): void {
+    this.fileInput.nativeElement.click();
+  }
+
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.addFiles(Array.from(input.files || []));
+    input.value = "";
+  }
+
+  // Text too long for the message box is attached as a document instead.
+  onPaste(event: ClipboardEvent): void {
+    const files = Array.from(event.clipboardData?.files || []).filter(
+      (file) => isImageFile(file) || isDocumentFile(file)
+    );
+    const text = event.clipboardData?.getData("text/plain") || "";
+
+    if (files.length) {
+      event.preventDefault();
+      this.addFiles(files);
+    } else if (text.length > MAX_MESSAGE_LENGTH) {
+      event.preventDefault();
+      this.addFiles([
+        new File([text], "Pasted text.txt", { type: "text/plain" }),
+      ]);
+    }
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (event.dataTransfer?.types.includes("Files")) {
+      event.preventDefault();
+      this.isDraggingFiles = true;
+    }
+  }
+
+  onDragLeave(event: DragEvent): void {
+    const target = event.currentTarget as HTMLElement;
+    if (!target.contains(event.relatedTarget as Node | null)) {
+      this.isDraggingFiles = false;
+    }
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDraggingFiles = false;
+    this.addFiles(Array.from(event.dataTransfer?.files || []));
+  }
+
+  // Images are resized and documents read in the browser; files that fail
+  // are reported, the rest kept.
+  async addFiles(files: File[]): Promise<void> {
+    const { images, documents } = environment.attachments;
+    const errors: string[] = [];
+    const imageFiles = files.filter(isImageFile);
+    const documentFiles = files.filter(
+      (file) => !isImageFile(file) && isDocumentFile(file)
+    );
+
+    files
+      .filter((file) => !isImageFile(file) && !isDocumentFile(file))
+      .forEach((file) => errors.push(`${file.name}: unsupported file type.`));
+
+    const imageRoom = images.maxCount - this.pendingImages.length;
+    if (imageFiles.length > imageRoom) {
+      errors.push(
+        `Up to ${images.maxCount} images can be attached to a message.`
+      );
+    }
+    const documentRoom = documents.maxCount - this.pendingDocuments.length;
+    if (documentFiles.length > documentRoom) {
+      errors.push(
+        `Up to ${documents.maxCount} files can be attached to a message.`
+      );
+    }
+
+    this.isProcessingFiles = true;
+    for (const file of imageFiles.slice(0, Math.max(0, imageRoom))) {
+      try {
+        this.pendingImages = [
+          ...this.pendingImages,
+          await createImageAttachment(file),
+        ];
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    }
+    for (const file of documentFiles.slice(0, Math.max(0, documentRoom))) {
+      try {
+        this.pendingDocuments = [
+          ...this.pendingDocuments,
+          await createDocumentAttachment(file),
+        ];
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    }
+    this.isProcessingFiles = false;
+
+    this.attachmentError = errors.join(" ");
+    if (
+      this.pendingImages.length &&
+      !this.currentModelInfo?.supportsVision &&
+      !this.attachmentError
+    ) {
+      this.attachmentError = `${this.currentModel} does not accept images; choose a vision model before sending.`;
+    }
+    this.updateContextWarning();
+    this.cdr.detectChanges();
+  }
+
+  removePendingImage(image: ImageAttachment): void {
+    this.pendingImages = this.pendingImages.filter((i) => i.id !== image.id);
+    if (!this.pendingImages.length && !this.pendingDocuments.length) {
+      this.attachmentError = "";
+    }
+  }
+
+  removePendingDocument(document: DocumentAttachment): void {
+    this.pendingDocuments = this.pendingDocuments.filter(
+      (d) => d.id !== document.id
+    );
+    if (!this.pendingImages.length && !this.pendingDocuments.length) {
+      this.attachmentError = "";
+    }
+    this.updateContextWarning();
+  }
+
+  /**
+   * Estimates the next prompt with the pending documents, and warns when
+   * they would crowd out earlier messages or overflow the context window.
+   */
+  updateContextWarning(): void {
+    if (!this.pendingDocuments.length) {
+      this.contextWarning = "";
+      return;
+    }
+
+    const messageText: string = this.messageForm.get("message")?.value || "";
+    const attachments = [...this.pendingImages, ...this.pendingDocuments];
+    const context = this.aiService.previewContext(
+      this.messages,
+      messageText,
+      attachments
+    );
+    const withoutDocuments = this.aiService.previewContext(
+      this.messages,
+      messageText,
+      this.pendingImages
+    );
+    const documentTokens = this.pendingDocuments.reduce(
+      (total, d) => total + d.tokens,
+      0
+    );
+    const dropped =
+      context.droppedIds.length - withoutDocuments.droppedIds.length;
+    const { warnAt } = environment.attachments.documents;
+
+    if (context.promptTokens > context.budget) {
+      this.contextWarning = `The attached files need about ${documentTokens.toLocaleString()} tokens, which puts the prompt over the ${context.budget.toLocaleString()} tokens ${
+        this.currentModel
+      } has room for. Remove a file or switch to a model with a larger context window.`;
+    } else if (dropped > 0) {
+      this.contextWarning = `To fit the attached files, ${dropped} earlier message(s) will be left out of the context.`;
+    } else if (context.promptTokens > context.budget * warnAt) {
+      this.contextWarning = `The prompt will use about ${context.promptTokens.toLocaleString()} of ${context.budget.toLocaleString()} available tokens.`;
+    } else {
+      this.contextWarning = "";
+    }
+  }
+
+  getImages(message: ChatMessage): ImageAttachment[] {
+    return getImageAttachments(message);
+  }
+
+  getDocuments(message: ChatMessage): DocumentAttachment[] {
+    return getDocumentAttachments(message);
+  }
+
+  formatFileSize(bytes: number): string {
+    return formatFileSize(bytes);
+  }
+
+  openLightbox(image: ImageAttachment): void {
+    this.lightboxImage = image;
+  }
+
+  @HostListener("document:keydown.escape")
+  closeLightbox(): void {
+    this.lightboxImage = null;
+  }
+
+  private requestResponse(
+    userMessage: ChatMessage,
+    history: ChatMessage[]
+  ): void {
+    this.lastUserMessageId = userMessage.id;
     this.aiService
-      .sendMessage(messageText, this.messages, this.isStreaming)
+      .sendMessage(
+        userMessage.content,
+        history,
+        this.isStreaming,
+        this.chatStorage.getCurrentConversation()?.metadata.id,
+        userMessage.attachments
+      )
       .subscribe({
         next: (response: ChatMessage) => {
           if (this.isStreaming) {
             if (!this.streamedMessage) {
               this.streamedMessage = response;
               this.chatStorage.addMessage(this.streamedMessage);
-            } else {
+            } else if (response.isPending) {
               this.streamedMessage = response;
-              if (!response.isPending) {
-                this.streamedMessage = null;
-              }
               const index = this.messages.findIndex(
                 (m) => m.id === response.id
               );
@@ -175,20 +631,133 @@ export class ChatInterfaceComponent
                 this.messages[index] = response;
                 this.cdr.detectChanges();
               }
+            } else {
+              this.streamedMessage = null;
+              this.chatStorage.updateMessage(response);
+              this.notifyReplyFinished(response);
+              this.generateTitle();
             }
           } else {
             this.chatStorage.addMessage(response);
+            this.notifyReplyFinished(response);
+            this.generateTitle();
           }
           this.scrollToBottom();
         },
+        // The error itself reaches the transcript through error$.
         error: (error) => {
           console.error("Error sending message:", error);
+          if (this.streamedMessage?.isPending) {
+            this.chatStorage.updateMessage({
+              ...this.streamedMessage,
+              isPending: false,
+            });
+          }
+          this.streamedMessage = null;
           this.messageForm.enable();
           this.focusMessageInput();
         },
+        complete: () => {
+          this.streamedMessage = null;
+        },
       });
   }
 
+  private notifyReplyFinished(reply: ChatMessage): void {
+    if (reply.isError) {
+      return;
+    }
+
+    if (this.userSettings.enableSounds) {
+      this.playReplySound();
+    }
+
+    // Only worth interrupting for when the tab is in the background.
+    if (
+      this.userSettings.enableNotifications &&
+      document.hidden &&
+      "Notification" in window &&
+      Notification.permission === "granted"
+    ) {
+      new Notification(
+        this.chatStorage.getCurrentConversation()?.metadata.title ||
+          "Reply ready",
+        { body: reply.content.slice(0, 140) }
+      );
+    }
+  }
+
+  private playReplySound(): void {
+    try {
+      const audio = new AudioContext();
+      const oscillator = audio.createOscillator();
+      const gain = audio.createGain();
+
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.08, audio.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + 0.25);
+      oscillator.connect(gain).connect(audio.destination);
+      oscillator.onended = () => audio.close();
+      oscillator.start();
+      oscillator.stop(audio.currentTime + 0.25);
+    } catch (error) {
+      console.warn("Failed to play reply sound:", error);
+    }
+  }
+
+  // Names the conversation once its first exchange is complete.
+  private generateTitle(): void {
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation || !this.titleSettings.enabled) {
+      return;
+    }
+
+    // The welcome message comes before the first question; it is not part
+    // of the exchange.
+    const { metadata, messages } = conversation;
+    const firstQuestion = messages.findIndex(
+      (m) => m.sender === MessageSender.USER
+    );
+    const exchange = messages
+      .slice(firstQuestion === -1 ? messages.length : firstQuestion)
+      .filter(
+        (m) => m.sender !== MessageSender.SYSTEM && !m.isError && !m.isPending
+      );
+    if (
+      metadata.titleSource === "user" ||
+      metadata.titleSource === "generated" ||
+      exchange.length !== 2
+    ) {
+      return;
+    }
+
+    this.aiService.generateTitle(exchange, metadata.id).subscribe({
+      next: ({ title, tags }) => {
+        this.chatStorage.updateConversationTitle(
+          metadata.id,
+          title,
+          "generated"
+        );
+        if (tags.length) {
+          this.chatStorage.addConversationTags(metadata.id, tags);
+        }
+      },
+      error: (error) =>
+        console.warn("Failed to generate a conversation title:", error),
+    });
+  }
+
+  onTitleSettingsChange(): void {
+    this.aiService.setTitleSettings(this.titleSettings);
+  }
+
+  stopGeneration(): void {
+    if (this.aiService.cancelGeneration()) {
+      this.addSystemMessage("Generation stopped.");
+      this.focusMessageInput();
+    }
+  }
+
   addSystemMessage(content: string, isError: boolean = false): void {
     const systemMessage: ChatMessage = {
       id: uuidv4(),
@@ -226,12 +795,37 @@ export class ChatInterfaceComponent
   }
 
   newConversation(): void {
-    if (confirm("Start a new conversation? Your current chat will be saved.")) {
-      const conversationId = this.chatStorage.createNewConversation();
-      this.chatStorage.loadConversation(conversationId);
-      this.aiService.reset();
-      this.addWelcomeMessage();
+    this.aiService.cancelGeneration();
+    const conversationId = this.chatStorage.createNewConversation(
+      undefined,
+      this.selectedPersonaId || undefined
+    );
+    if (!conversationId) {
+      return;
     }
+    this.showConversations = false;
+    this.aiService.reset();
+    this.addWelcomeMessage();
+  }
+
+  toggleConversations(): void {
+    this.showConversations = !this.showConversations;
+  }
+
+  openConversation(conversationId: string): void {
+    this.showConversations = false;
+    if (conversationId === this.activeConversationId) {
+      return;
+    }
+    // A reply still streaming belongs to the conversation being left.
+    this.aiService.cancelGeneration();
+    this.cancelEditing();
+    this.autoScroll = true;
+    this.chatStorage.loadConversation(conversationId).then((success) => {
+      if (success) {
+        this.aiService.reset();
+      }
+    });
   }
 
   toggleStreaming(): void {
@@ -241,14 +835,368 @@ export class ChatInterfaceComponent
     );
   }
 
-  toggleDarkMode(): void {
-    this.darkMode = !this.darkMode;
-    if (this.darkMode) {
-      document.documentElement.classList.add("dark");
+  onProviderChange(event: Event): void {
+    const provider = (event.target as HTMLSelectElement)
+      .value as ChatProviderType;
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation || provider === this.currentProvider) {
+      return;
+    }
+    if (
+      this.chatStorage.setConversationProvider(
+        conversation.metadata.id,
+        provider
+      )
+    ) {
+      const label =
+        this.availableProviders.find((p) => p.type === provider)?.label ||
+        provider;
+      this.addSystemMessage(`Provider switched to ${label}.`);
+    }
+  }
+
+  private applyConversationSettings(conversation: ChatHistory): void {
+    const previousProvider = this.currentProvider;
+    this.aiService.setProvider(
+      conversation.metadata.provider || this.aiService.getDefaultProvider()
+    );
+    this.currentProvider = this.aiService.getCurrentProvider();
+
+    if (
+      !conversation.metadata.model ||
+      !this.aiService.setModel(conversation.metadata.model)
+    ) {
+      this.aiService.setModel(this.aiService.getDefaultModel());
+    }
+    this.currentModel = this.aiService.getCurrentModel();
+    this.currentModelInfo = this.aiService.getModelInfo();
+
+    if (
+      this.currentProvider !== previousProvider ||
+      !this.availableModels.length
+    ) {
+      this.loadModels();
+    }
+
+    this.aiService.setContextStrategy(conversation.metadata.contextStrategy);
+    this.aiService.setContextSummary(conversation.metadata.contextSummary);
+    this.contextStrategy = this.aiService.getContextStrategy();
+    this.aiService.setGenerationParams(conversation.metadata.generationParams);
+
+    if (conversation.metadata.id !== this.activeConversationId) {
+      this.activeConversationId = conversation.metadata.id;
+      this.loadParamsDraft(conversation.metadata.generationParams || {});
+      this.selectedPresetId = conversation.metadata.parameterPresetId || "";
+      this.aiService.setSystemPrompt(conversation.metadata.systemPrompt);
+      this.systemPromptDraft = this.aiService.getSystemPrompt();
+      this.selectedPersonaId = conversation.metadata.personaId || "";
+      this.lastUserMessageId = null;
+      this.lastContext = null;
+      this.sentMessageIds.clear();
+      this.summarizedMessageIds.clear();
     } else {
-      document.documentElement.classList.remove("dark");
+      this.aiService.setSystemPrompt(conversation.metadata.systemPrompt);
+    }
+    this.updateContextWarning();
+  }
+
+  loadModels(forceRefresh: boolean = false): void {
+    this.availableModels = this.aiService.getCachedModels();
+    this.isLoadingModels = true;
+    this.aiService.getModels(forceRefresh).subscribe({
+      next: (models: ModelInfo[]) => {
+        this.availableModels = models;
+        this.currentModelInfo = this.aiService.getModelInfo();
+        this.isLoadingModels = false;
+        this.cdr.detectChanges();
+      },
+      error: (error) => {
+        console.error("Error loading models:", error);
+        this.isLoadingModels = false;
+        if (forceRefresh) {
+          this.addSystemMessage(
+            `Could not load models: ${error?.message || "unknown error"}`,
+            true
+          );
+        }
+        this.cdr.detectChanges();
+      },
+    });
+  }
+
+  onModelChange(event: Event): void {
+    const model = (event.target as HTMLSelectElement).value;
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation || model === this.currentModel) {
+      return;
+    }
+    if (
+      this.chatStorage.setConversationModel(conversation.metadata.id, model)
+    ) {
+      this.addSystemMessage(`Model switched to ${model}.`);
+    }
+  }
+
+  hasAvailableModel(modelId: string): boolean {
+    return this.availableModels.some((m) => m.id === modelId);
+  }
+
+  formatContextLength(tokens: number): string {
+    return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : `${tokens}`;
+  }
+
+  onContextStrategyChange(event: Event): void {
+    const strategy = (event.target as HTMLSelectElement)
+      .value as ContextStrategy;
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (conversation && strategy !== this.contextStrategy) {
+      this.chatStorage.setConversationContextStrategy(
+        conversation.metadata.id,
+        strategy
+      );
+    }
+  }
+
+  togglePin(message: ChatMessage): void {
+    this.chatStorage.updateMessage({ ...message, isPinned: !message.isPinned });
+  }
+
+  getContextStatus(
+    message: ChatMessage
+  ): "sent" | "summarized" | "omitted" | null {
+    if (
+      !this.lastContext ||
+      message.sender === MessageSender.SYSTEM ||
+      message.isError ||
+      message.isPending
+    ) {
+      return null;
+    }
+    if (this.sentMessageIds.has(message.id)) {
+      return "sent";
+    }
+    if (this.summarizedMessageIds.has(message.id)) {
+      return "summarized";
+    }
+    // Messages newer than the last request were not part of it at all.
+    const lastSentIndex = this.messages.findIndex(
+      (m) => m.id === this.lastUserMessageId
+    );
+    const index = this.messages.indexOf(message);
+    return lastSentIndex !== -1 && index > lastSentIndex ? null : "omitted";
+  }
+
+  saveSystemPrompt(): void {
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation) {
+      return;
+    }
+    const persona = this.personas.find((p) => p.id === this.selectedPersonaId);
+    const personaId =
+      persona && persona.systemPrompt === this.systemPromptDraft
+        ? persona.id
+        : undefined;
+    if (
+      this.chatStorage.setConversationSystemPrompt(
+        conversation.metadata.id,
+        this.systemPromptDraft,
+        personaId
+      )
+    ) {
+      this.addSystemMessage("System prompt updated for this conversation.");
+    }
+  }
+
+  applyGenerationParams(): void {
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation) {
+      return;
+    }
+    const params = this.getDraftParams();
+    const preset = this.parameterPresets.find(
+      (p) => p.id === this.selectedPresetId
+    );
+    const presetId =
+      preset &&
+      describeGenerationParams(preset.params) ===
+        describeGenerationParams(params)
+        ? preset.id
+        : undefined;
+    if (
+      this.chatStorage.setConversationGenerationParams(
+        conversation.metadata.id,
+        Object.keys(params).length ? params : undefined,
+        presetId
+      )
+    ) {
+      this.loadParamsDraft(params);
+      this.addSystemMessage(
+        `Generation parameters updated: ${
+          describeGenerationParams(this.aiService.getGenerationParams()) ||
+          "defaults"
+        }.`
+      );
+    }
+  }
+
+  resetGenerationParams(): void {
+    const conversation = this.chatStorage.getCurrentConversation();
+    if (!conversation) {
+      return;
+    }
+    if (
+      this.chatStorage.setConversationGenerationParams(
+        conversation.metadata.id,
+        undefined
+      )
+    ) {
+      this.loadParamsDraft({});
+      this.selectedPresetId = "";
+      this.addSystemMessage("Generation parameters reset to defaults.");
+    }
+  }
+
+  onPresetChange(event: Event): void {
+    this.selectedPresetId = (event.target as HTMLSelectElement).value;
+    const preset = this.parameterPresets.find(
+      (p) => p.id === this.selectedPresetId
+    );
+    if (preset) {
+      this.loadParamsDraft(preset.params);
+    }
+  }
+
+  saveParameterPreset(): void {
+    const existing = this.parameterPresets.find(
+      (p) => p.id === this.selectedPresetId
+    );
+    const name = prompt("Preset name:", existing?.name || "");
+    if (!name || name.trim() === "") {
+      return;
+    }
+    const preset = this.chatStorage.saveParameterPreset({
+      id: existing && existing.name === name.trim() ? existing.id : undefined,
+      name,
+      params: this.getDraftParams(),
+    });
+    this.selectedPresetId = preset.id;
+    this.addSystemMessage(`Preset "${preset.name}" saved.`);
+  }
+
+  deleteParameterPreset(): void {
+    const preset = this.parameterPresets.find(
+      (p) => p.id === this.selectedPresetId
+    );
+    if (!preset || !confirm(`Delete preset "${preset.name}"?`)) {
+      return;
+    }
+    if (this.chatStorage.deleteParameterPreset(preset.id)) {
+      this.selectedPresetId = "";
+      this.addSystemMessage(`Preset "${preset.name}" deleted.`);
+    }
+  }
+
+  describeParams(params?: GenerationParams): string {
+    return describeGenerationParams(params);
+  }
+
+  private loadParamsDraft(params: GenerationParams): void {
+    this.paramsDraft = {};
+    for (const field of this.paramFields) {
+      this.paramsDraft[field.key] = params[field.key] ?? null;
+    }
+    this.stopDraft = (
+      Array.isArray(params.stop)
+        ? params.stop
+        : params.stop
+        ? [params.stop]
+        : []
+    ).join("\n");
+  }
+
+  private getDraftParams(): GenerationParams {
+    return normalizeGenerationParams({
+      ...this.paramsDraft,
+      stop: this.stopDraft.split("\n").filter((s) => s.trim() !== ""),
+    });
+  }
+
+  onPersonaChange(event: Event): void {
+    this.selectedPersonaId = (event.target as HTMLSelectElement).value;
+    const persona = this.personas.find((p) => p.id === this.selectedPersonaId);
+    if (persona) {
+      this.systemPromptDraft = persona.systemPrompt;
+    }
+  }
+
+  savePersona(): void {
+    const existing = this.personas.find((p) => p.id === this.selectedPersonaId);
+    const name = prompt("Persona name:", existing?.name || "");
+    if (!name || name.trim() === "") {
+      return;
+    }
+    const persona = this.chatStorage.savePersona({
+      id: existing && existing.name === name.trim() ? existing.id : undefined,
+      name,
+      description: existing?.description,
+      systemPrompt: this.systemPromptDraft,
+    });
+    this.selectedPersonaId = persona.id;
+    this.addSystemMessage(`Persona "${persona.name}" saved.`);
+  }
+
+  deletePersona(): void {
+    const persona = this.personas.find((p) => p.id === this.selectedPersonaId);
+    if (!persona || !confirm(`Delete persona "${persona.name}"?`)) {
+      return;
+    }
+    if (this.chatStorage.deletePersona(persona.id)) {
+      this.selectedPersonaId = "";
+      this.addSystemMessage(`Persona "${persona.name}" deleted.`);
+    }
+  }
+
+  exportPersonas(): void {
+    const json = this.chatStorage.exportPersonas();
+    const blob = new Blob([json], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ai-chat-personas-${new Date()
+      .toISOString()
+      .slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  importPersonas(event: Event): void {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const json = e.target?.result as string;
+        if (json) {
+          const count = this.chatStorage.importPersonas(json);
+          if (count > 0) {
+            this.addSystemMessage(`Imported ${count} persona(s).`);
+          } else {
+            this.addSystemMessage("Failed to import personas.", true);
+          }
+        }
+      };
+      reader.onerror = () => {
+        this.addSystemMessage("Error reading file.", true);
+      };
+      reader.readAsText(file);
+      fileInput.value = "";
     }
-    localStorage.setItem("darkMode", this.darkMode ? "true" : "false");
+  }
+
+  toggleDarkMode(): void {
+    this.settingsService.update({ theme: this.darkMode ? "light" : "dark" });
     this.addSystemMessage(
       `Dark mode ${this.darkMode ? "enabled" : "disabled"}.`
     );
@@ -258,6 +1206,53 @@ export class ChatInterfaceComponent
     this.showSettings = !this.showSettings;
   }
 
+  toggleSearch(): void {
+    this.showSearch = !this.showSearch;
+  }
+
+  // Opens the result's conversation on the branch that holds the message.
+  openSearchResult(result: SearchResult): void {
+    this.showSearch = false;
+
+    const current = this.chatStorage.getCurrentConversation();
+    const loaded =
+      current?.metadata.id === result.conversationId
+        ? Promise.resolve(true)
+        : this.chatStorage.loadConversation(result.conversationId);
+
+    loaded.then((success) => {
+      if (!success) {
+        this.addSystemMessage("Could not open that conversation.", true);
+        return;
+      }
+
+      if (!this.messages.some((m) => m.id === result.messageId)) {
+        this.chatStorage.selectBranch(result.messageId);
+      }
+      this.scrollToMessage(result.messageId);
+    });
+  }
+
+  private scrollToMessage(messageId: string): void {
+    this.autoScroll = false;
+    this.highlightedMessageId = messageId;
+
+    if (this.highlightTimer) {
+      clearTimeout(this.highlightTimer);
+    }
+
+    setTimeout(() => {
+      document
+        .getElementById(`message-${messageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 150);
+
+    this.highlightTimer = setTimeout(() => {
+      this.highlightedMessageId = null;
+      this.highlightTimer = null;
+    }, 2500);
+  }
+
   toggleTokenInfo(): void {
     this.showTokenInfo = !this.showTokenInfo;
   }
@@ -308,22 +1303,6 @@ export class ChatInterfaceComponent
     this.isMobile = window.innerWidth < 768;
   }
 
-  initializeDarkMode(): void {
-    const savedPreference = localStorage.getItem("darkMode");
-    if (savedPreference === "true") {
-      this.darkMode = true;
-    } else if (savedPreference === "false") {
-      this.darkMode = false;
-    } else {
-      this.darkMode = window.matchMedia("(prefers-color-scheme: dark)").matches;
-    }
-    if (this.darkMode) {
-      document.documentElement.classList.add("dark");
-    } else {
-      document.documentElement.classList.remove("dark");
-    }
-  }
-
   onScroll(event: Event): void {
     const container = event.target as HTMLElement;
     const atBottom =
@@ -348,7 +1327,10 @@ export class ChatInterfaceComponent
   }
 
   getMessageContainerClasses(message: ChatMessage): string {
-    const baseClasses = "flex w-full";
+    const baseClasses =
+      this.highlightedMessageId === message.id
+        ? "flex w-full p-2 rounded-2xl ring-2 ring-primary-400 dark:ring-primary-500 transition-shadow duration-300"
+        : "flex w-full";
     if (message.sender === MessageSender.USER) {
       return `${baseClasses} justify-end`;
     } else if (message.sender === MessageSender.AI) {
@@ -360,6 +1342,9 @@ export class ChatInterfaceComponent
 
   isMessageValid(): boolean {
     const messageControl = this.messageForm.get("message");
+    if (this.pendingImages.length || this.pendingDocuments.length) {
+      return !this.isProcessingFiles && !messageControl?.hasError("maxlength");
+    }
     return (
       !!messageControl &&
       messageControl.valid === true &&
@@ -374,7 +1359,7 @@ export class ChatInterfaceComponent
 
   getRemainingCharacters(): number {
     const messageControl = this.messageForm.get("message");
-    const maxLength = 4000;
+    const maxLength = MAX_MESSAGE_LENGTH;
     if (messageControl?.value) {
       return maxLength - messageControl.value.length;
     }
@@ -382,7 +1367,11 @@ export class ChatInterfaceComponent
   }
 
   onKeyDown(event: KeyboardEvent): void {
-    if (event.key === "Enter" && !event.shiftKey) {
+    const modifier = event.ctrlKey || event.metaKey;
+    if (
+      event.key === "Enter" &&
+      (this.userSettings.sendOnEnter ? !event.shiftKey : modifier)
+    ) {
       event.preventDefault();
       if (this.isMessageValid()) {
         this.sendMessage();
@@ -391,23 +1380,22 @@ export class ChatInterfaceComponent
   }
 
   exportConversation(): void {
-    const json = this.chatStorage.exportConversation();
-    if (json) {
-      const blob = new Blob([json], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `ai-chat-export-${new Date()
-        .toISOString()
-        .slice(0, 10)}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      this.addSystemMessage("Conversation exported successfully.");
-    } else {
-      this.addSystemMessage("Failed to export conversation.", true);
+    if (!this.activeConversationId) {
+      return;
     }
+    this.exportService
+      .exportConversations([this.activeConversationId])
+      .then((success) => {
+        if (success) {
+          this.addSystemMessage("Conversation exported successfully.");
+        } else {
+          this.addSystemMessage("Failed to export conversation.", true);
+        }
+      });
+  }
+
+  onExportPreferencesChange(): void {
+    this.exportService.setPreferences(this.exportFormat, this.exportOptions);
   }
 
   importConversation(event: Event): void {
@@ -418,12 +1406,13 @@ export class ChatInterfaceComponent
       reader.onload = (e) => {
         const json = e.target?.result as string;
         if (json) {
-          const importedId = this.chatStorage.importConversation(json);
-          if (importedId) {
-            this.chatStorage.loadConversation(importedId);
-            this.addSystemMessage("Conversation imported successfully.");
-          } else {
-            this.addSystemMessage("Failed to import conversation.", true);
+          this.importReport = this.importService.importFile(json);
+          const imported = this.importReport.results.filter(
+            (r) => r.conversationId
+          );
+          // Several conversations stay in the sidebar; a single one is opened.
+          if (imported.length === 1) {
+            this.openConversation(imported[0].conversationId!);
           }
         }
       };
@@ -435,17 +1424,124 @@ export class ChatInterfaceComponent
     }
   }
 
+  getImportFormatLabel(report: ImportReport): string {
+    return report.format
+      ? this.importService.getFormatLabel(report.format)
+      : "";
+  }
+
   getStorageUsage(): { used: number; total: number; percentage: number } {
     return this.chatStorage.getStorageUsage();
   }
 
+  getStorageBackend(): string {
+    return this.chatStorage.getStorageBackend() === "indexeddb"
+      ? "IndexedDB"
+      : "localStorage";
+  }
+
   retryLastMessage(): void {
     const lastUserMessage = [...this.messages]
       .reverse()
       .find((m) => m.sender === MessageSender.USER);
     if (lastUserMessage) {
-      this.messageForm.setValue({ message: lastUserMessage.content });
-      this.focusMessageInput();
+      this.resendFrom(lastUserMessage);
+    }
+  }
+
+  startEditing(message: ChatMessage): void {
+    if (this.isLoading) {
+      return;
+    }
+    this.editingMessageId = message.id;
+    this.editDraft = message.content;
+  }
+
+  cancelEditing(): void {
+    this.editingMessageId = null;
+    this.editDraft = "";
+  }
+
+  submitEdit(message: ChatMessage): void {
+    const content = this.editDraft.trim();
+    if (!content || this.isLoading) {
+      return;
+    }
+    this.cancelEditing();
+    if (content === message.content.trim()) {
+      return;
+    }
+
+    if (!this.canSendImages(this.getImages(message))) {
+      return;
+    }
+
+    // The original stays on its own branch, so the edit needs a new id.
+    const edited: ChatMessage = {
+      ...message,
+      id: uuidv4(),
+      content,
+      timestamp: Date.now(),
+    };
+    const history = this.messages.slice(0, this.messages.indexOf(message));
+    if (this.chatStorage.replaceAfter(message.id, [edited], true)) {
+      this.requestResponse(edited, history);
+    }
+  }
+
+  onEditKeyDown(event: KeyboardEvent, message: ChatMessage): void {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      this.submitEdit(message);
+    } else if (event.key === "Escape") {
+      this.cancelEditing();
+    }
+  }
+
+  regenerateResponse(message: ChatMessage): void {
+    const index = this.messages.indexOf(message);
+    const userMessage = this.messages
+      .slice(0, index)
+      .reverse()
+      .find((m) => m.sender === MessageSender.USER);
+    if (userMessage) {
+      this.resendFrom(userMessage);
+    }
+  }
+
+  getBranchPosition(
+    message: ChatMessage
+  ): { index: number; total: number } | null {
+    const siblings = this.branchSiblings.get(message.id);
+    return siblings
+      ? {
+          index: siblings.findIndex((m) => m.id === message.id) + 1,
+          total: siblings.length,
+        }
+      : null;
+  }
+
+  switchBranch(message: ChatMessage, delta: 1 | -1): void {
+    const siblings = this.branchSiblings.get(message.id);
+    if (!siblings || this.isLoading) {
+      return;
+    }
+    const target =
+      siblings[siblings.findIndex((m) => m.id === message.id) + delta];
+    if (target) {
+      this.cancelEditing();
+      this.chatStorage.selectBranch(target.id);
+    }
+  }
+
+  // Moves everything after the user message to a branch and asks again.
+  private resendFrom(userMessage: ChatMessage): void {
+    if (this.isLoading || !this.canSendImages(this.getImages(userMessage))) {
+      return;
+    }
+    const history = this.messages.slice(0, this.messages.indexOf(userMessage));
+    if (this.chatStorage.truncateAfter(userMessage.id)) {
+      this.requestResponse(userMessage, history);
     }
   }
 
@@ -0,0 +1,190 @@
+import { Component, OnDestroy, OnInit } from "@angular/core";
+import { Subscription } from "rxjs";
+import {
+  ConnectionService,
+  ConnectionStatus,
+  ConnectionTestResult,
+} from "../services/connection.service";
+import { ProviderRegistryService } from "../services/provider-registry.service";
+import {
+  ChatProvider,
+  ChatProviderType,
+  ConnectionField,
+  ProviderConnection,
+} from "../models/provider.interface";
+
+interface ConnectionForm {
+  provider: ChatProvider;
+  values: ProviderConnection;
+  hasKey: boolean;
+  saving: boolean;
+  testing: boolean;
+  message: string;
+  result: ConnectionTestResult | null;
+}
+
+const FIELD_LABELS: Record<ConnectionField, string> = {
+  apiKey: "API key",
+  apiUrl: "Base URL",
+  organization: "Organization ID",
+  project: "Project ID",
+};
+
+@Component({
+  selector: "app-connections",
+  templateUrl: "./connections.component.html",
+})
+export class ConnectionsComponent implements OnInit, OnDestroy {
+  status: ConnectionStatus = this.connectionService.getStatus();
+  forms: ConnectionForm[] = [];
+  fieldLabels = FIELD_LABELS;
+  passphrase = "";
+  passphraseConfirm = "";
+  passphraseError = "";
+  isUnlocking = false;
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private connectionService: ConnectionService,
+    private registry: ProviderRegistryService
+  ) {}
+
+  ngOnInit(): void {
+    this.forms = this.registry
+      .list()
+      .filter((provider) => provider.connectionFields.length)
+      .map((provider) => ({
+        provider,
+        values: {},
+        hasKey: false,
+        saving: false,
+        testing: false,
+        message: "",
+        result: null,
+      }));
+    this.forms.forEach((form) => this.resetForm(form));
+
+    this.subscriptions.push(
+      this.connectionService.status$.subscribe((status) => {
+        this.status = status;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  async submitPassphrase(): Promise<void> {
+    this.passphraseError = "";
+
+    if (this.status === "locked") {
+      this.isUnlocking = true;
+      const unlocked = await this.connectionService.unlock(this.passphrase);
+      this.isUnlocking = false;
+
+      if (!unlocked) {
+        this.passphraseError = "Wrong passphrase.";
+        return;
+      }
+    } else {
+      if (this.passphrase !== this.passphraseConfirm) {
+        this.passphraseError = "The passphrases do not match.";
+        return;
+      }
+
+      try {
+        await this.connectionService.setPassphrase(this.passphrase);
+      } catch (error: any) {
+        this.passphraseError = error.message;
+        return;
+      }
+    }
+
+    this.passphrase = "";
+    this.passphraseConfirm = "";
+  }
+
+  lock(): void {
+    this.connectionService.lock();
+  }
+
+  forgetAll(): void {
+    if (
+      confirm(
+        "Remove the passphrase and every saved connection, including API keys?"
+      )
+    ) {
+      this.connectionService.forgetAll();
+      this.forms.forEach((form) => this.resetForm(form));
+    }
+  }
+
+  async save(form: ConnectionForm): Promise<boolean> {
+    form.saving = true;
+    form.message = "";
+    form.result = null;
+
+    try {
+      await this.connectionService.saveConnection(
+        form.provider.type,
+        form.values
+      );
+      this.resetForm(form);
+      form.message = "Saved.";
+      return true;
+    } catch (error: any) {
+      form.message = error.message;
+      return false;
+    } finally {
+      form.saving = false;
+    }
+  }
+
+  // Saves first so the test uses what is on screen.
+  async test(form: ConnectionForm): Promise<void> {
+    if (!(await this.save(form))) {
+      return;
+    }
+
+    form.testing = true;
+    form.message = "";
+    form.result = await this.connectionService.testConnection(
+      form.provider.type
+    );
+    form.testing = false;
+  }
+
+  removeApiKey(form: ConnectionForm): void {
+    this.connectionService.removeApiKey(form.provider.type);
+    this.resetForm(form);
+    form.message = "API key removed.";
+  }
+
+  clear(form: ConnectionForm): void {
+    this.connectionService.clearConnection(form.provider.type);
+    this.resetForm(form);
+    form.message = "Using the built-in configuration.";
+  }
+
+  canEditKey(): boolean {
+    return this.status === "unlocked";
+  }
+
+  trackByType(_: number, form: ConnectionForm): ChatProviderType {
+    return form.provider.type;
+  }
+
+  private resetForm(form: ConnectionForm): void {
+    const saved = this.connectionService.getConnection(form.provider.type);
+
+    form.values = {
+      apiUrl: saved.apiUrl,
+      organization: saved.organization,
+      project: saved.project,
+      apiKey: "",
+    };
+    form.hasKey = saved.hasKey;
+    form.result = null;
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  Component,
+  EventEmitter,
+  OnDestroy,
+  OnInit,
+  Output,
+} from "@angular/core";
+import { Subscription } from "rxjs";
+import { ConversationMetadata } from "../models/chat.interface";
+import { ChatStorageService } from "../services/chat-storage.service";
+import { ExportService } from "../services/export.service";
+import { parseTagInput } from "../utils/tags";
+
+interface ConversationGroup {
+  label: string;
+  conversations: ConversationMetadata[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+@Component({
+  selector: "app-conversation-list",
+  templateUrl: "./conversation-list.component.html",
+})
+export class ConversationListComponent implements OnInit, OnDestroy {
+  @Output() conversationSelected = new EventEmitter<string>();
+  @Output() newConversation = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+
+  view: "active" | "archived" = "active";
+  filterText = "";
+  groups: ConversationGroup[] = [];
+  archivedCount = 0;
+  allTags: { tag: string; count: number }[] = [];
+  activeTags: string[] = [];
+  showTagManager = false;
+  activeConversationId: string | null = null;
+  renamingId: string | null = null;
+  renameDraft = "";
+  selecting = false;
+  selectedIds = new Set<string>();
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private chatStorage: ChatStorageService,
+    private exportService: ExportService
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.chatStorage.conversations$.subscribe(() => this.refresh())
+    );
+
+    this.subscriptions.push(
+      this.chatStorage.currentConversation$.subscribe((conversation) => {
+        this.activeConversationId = conversation?.metadata.id || null;
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  setView(view: "active" | "archived"): void {
+    this.view = view;
+    this.clearSelection();
+    this.refresh();
+  }
+
+  refresh(): void {
+    this.allTags = this.chatStorage.getAllTags();
+    this.activeTags = this.activeTags.filter((tag) =>
+      this.allTags.some((t) => t.tag === tag)
+    );
+
+    const conversations = this.chatStorage.getFilteredConversations({
+      searchTerm: this.filterText.trim() || undefined,
+      onlyArchived: this.view === "archived",
+      tags: this.activeTags,
+    });
+
+    this.archivedCount = this.chatStorage
+      .getAllConversations()
+      .filter((c) => c.isArchived).length;
+    this.groups = this.groupConversations(conversations);
+
+    // Drop selections that are no longer listed.
+    const listed = new Set(conversations.map((c) => c.id));
+    this.selectedIds.forEach((id) => {
+      if (!listed.has(id)) this.selectedIds.delete(id);
+    });
+  }
+
+  open(conversation: ConversationMetadata): void {
+    if (this.selecting) {
+      this.toggleSelected(conversation.id);
+      return;
+    }
+    if (this.renamingId !== conversation.id) {
+      this.conversationSelected.emit(conversation.id);
+    }
+  }
+
+  startRename(conversation: ConversationMetadata, event: Event): void {
+    event.stopPropagation();
+    this.renamingId = conversation.id;
+    this.renameDraft = conversation.title || "";
+    setTimeout(() =>
+      document.getElementById(`rename-${conversation.id}`)?.focus()
+    );
+  }
+
+  commitRename(): void {
+    const id = this.renamingId;
+    const title = this.renameDraft.trim();
+    this.renamingId = null;
+
+    if (id && title) {
+      this.chatStorage.updateConversationTitle(id, title);
+    }
+  }
+
+  cancelRename(): void {
+    this.renamingId = null;
+  }
+
+  onRenameKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      this.commitRename();
+    } else if (event.key === "Escape") {
+      this.cancelRename();
+    }
+  }
+
+  toggleFavorite(conversation: ConversationMetadata, event: Event): void {
+    event.stopPropagation();
+    this.chatStorage.toggleFavorite(conversation.id);
+  }
+
+  toggleArchive(conversation: ConversationMetadata, event: Event): void {
+    event.stopPropagation();
+    this.chatStorage.setArchiveStatus(
+      conversation.id,
+      !conversation.isArchived
+    );
+  }
+
+  deleteConversation(conversation: ConversationMetadata, event: Event): void {
+    event.stopPropagation();
+    if (
+      confirm(
+        `Delete "${
+          conversation.title || "Untitled"
+        }"? This action cannot be undone.`
+      )
+    ) {
+      this.chatStorage.deleteConversation(conversation.id);
+    }
+  }
+
+  toggleTagFilter(tag: string): void {
+    this.activeTags = this.activeTags.includes(tag)
+      ? this.activeTags.filter((t) => t !== tag)
+      : [...this.activeTags, tag];
+    this.refresh();
+  }
+
+  addTags(conversation: ConversationMetadata, event: Event): void {
+    event.stopPropagation();
+    const input = prompt("Add tags (comma separated):");
+    const tags = input ? parseTagInput(input) : [];
+    if (tags.length) {
+      this.chatStorage.addConversationTags(conversation.id, tags);
+    }
+  }
+
+  removeTag(
+    conversation: ConversationMetadata,
+    tag: string,
+    event: Event
+  ): void {
+    event.stopPropagation();
+    this.chatStorage.removeConversationTag(conversation.id, tag);
+  }
+
+  renameTag(tag: string): void {
+    const input = prompt(`Rename tag "${tag}" in every conversation:`, tag);
+    const [newTag] = input ? parseTagInput(input) : [];
+    if (newTag && newTag !== tag) {
+      this.chatStorage.renameTag(tag, newTag);
+      this.activeTags = this.activeTags.map((t) => (t === tag ? newTag : t));
+      this.refresh();
+    }
+  }
+
+  deleteTag(tag: string, count: number): void {
+    if (
+      confirm(
+        `Remove tag "${tag}" from ${count} conversation${
+          count === 1 ? "" : "s"
+        }?`
+      )
+    ) {
+      this.chatStorage.deleteTag(tag);
+    }
+  }
+
+  toggleSelecting(): void {
+    this.selecting = !this.selecting;
+    this.selectedIds.clear();
+  }
+
+  toggleSelected(id: string): void {
+    if (this.selectedIds.has(id)) {
+      this.selectedIds.delete(id);
+    } else {
+      this.selectedIds.add(id);
+    }
+  }
+
+  selectAll(): void {
+    this.groups.forEach((group) =>
+      group.conversations.forEach((c) => this.selectedIds.add(c.id))
+    );
+  }
+
+  clearSelection(): void {
+    this.selecting = false;
+    this.selectedIds.clear();
+  }
+
+  archiveSelected(archive: boolean): void {
+    this.selectedIds.forEach((id) =>
+      this.chatStorage.setArchiveStatus(id, archive)
+    );
+    this.clearSelection();
+  }
+
+  // Uses the format and options chosen under Settings > Import/Export.
+  exportSelected(): void {
+    this.exportService
+      .exportConversations([...this.selectedIds])
+      .then((success) => {
+        if (success) {
+          this.clearSelection();
+        }
+      });
+  }
+
+  deleteSelected(): void {
+    const count = this.selectedIds.size;
+    if (
+      count &&
+      confirm(
+        `Delete ${count} conversation${
+          count === 1 ? "" : "s"
+        }? This action cannot be undone.`
+      )
+    ) {
+      this.chatStorage.deleteConversations([...this.selectedIds]);
+      this.clearSelection();
+    }
+  }
+
+  trackById(_index: number, item: ConversationMetadata): string {
+    return item.id;
+  }
+
+  formatUpdatedAt(timestamp: number): string {
+    const date = new Date(timestamp);
+    return this.startOfToday() <= timestamp
+      ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString([], { month: "short", day: "numeric" });
+  }
+
+  // Favorites are pinned above the date groups outside the archive.
+  private groupConversations(
+    conversations: ConversationMetadata[]
+  ): ConversationGroup[] {
+    const today = this.startOfToday();
+    const weekAgo = today - 6 * DAY;
+    const groups: ConversationGroup[] = [
+      { label: "Favorites", conversations: [] },
+      { label: "Today", conversations: [] },
+      { label: "Last 7 days", conversations: [] },
+      { label: "Older", conversations: [] },
+    ];
+
+    for (const conversation of conversations) {
+      if (conversation.isFavorite && this.view === "active") {
+        groups[0].conversations.push(conversation);
+      } else if (conversation.updatedAt >= today) {
+        groups[1].conversations.push(conversation);
+      } else if (conversation.updatedAt >= weekAgo) {
+        groups[2].conversations.push(conversation);
+      } else {
+        groups[3].conversations.push(conversation);
+      }
+    }
+
+    return groups.filter((group) => group.conversations.length);
+  }
+
+  private startOfToday(): number {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  }
+}
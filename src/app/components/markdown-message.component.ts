@@ -0,0 +1,76 @@
+import {
+  Component,
+  Input,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+} from "@angular/core";
+import {
+  MarkdownBlock,
+  MarkdownCodeBlock,
+  MarkdownRenderState,
+  MarkdownService,
+} from "../services/markdown.service";
+
+@Component({
+  selector: "app-markdown-message",
+  templateUrl: "./markdown-message.component.html",
+  styleUrls: ["./markdown-message.component.scss"],
+})
+export class MarkdownMessageComponent implements OnChanges, OnDestroy {
+  @Input() content = "";
+  @Input() isPending = false;
+
+  blocks: MarkdownBlock[] = [];
+  copiedBlock: MarkdownCodeBlock | null = null;
+  private renderState: MarkdownRenderState | null = null;
+  private copyResetTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private markdown: MarkdownService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!changes["content"] && !changes["isPending"]) {
+      return;
+    }
+
+    if (this.isPending) {
+      this.renderState = this.markdown.renderIncremental(
+        this.content || "",
+        this.renderState
+      );
+      this.blocks = this.renderState.blocks;
+    } else {
+      // One full pass once the message is final resolves anything the
+      // incremental pass could not see, such as reference-style links.
+      this.renderState = null;
+      this.blocks = this.markdown.render(this.content || "");
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.copyResetTimer) {
+      clearTimeout(this.copyResetTimer);
+    }
+  }
+
+  copyCode(block: MarkdownCodeBlock): void {
+    navigator.clipboard
+      .writeText(block.code)
+      .then(() => {
+        this.copiedBlock = block;
+        if (this.copyResetTimer) {
+          clearTimeout(this.copyResetTimer);
+        }
+        this.copyResetTimer = setTimeout(() => {
+          this.copiedBlock = null;
+        }, 2000);
+      })
+      .catch((err) => {
+        console.error("Failed to copy code block:", err);
+      });
+  }
+
+  trackByIndex(index: number): number {
+    return index;
+  }
+}
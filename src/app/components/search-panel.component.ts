@@ -0,0 +1,105 @@
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  OnDestroy,
+  OnInit,
+  Output,
+  ViewChild,
+} from "@angular/core";
+import { Subject, Subscription, merge } from "rxjs";
+import { debounceTime } from "rxjs/operators";
+import { MessageSender } from "../models/chat.interface";
+import { SearchFilters, SearchResult } from "../models/search.interface";
+import { ChatStorageService } from "../services/chat-storage.service";
+import { SearchIndexService } from "../services/search-index.service";
+
+@Component({
+  selector: "app-search-panel",
+  templateUrl: "./search-panel.component.html",
+})
+export class SearchPanelComponent implements OnInit, OnDestroy {
+  @Output() resultSelected = new EventEmitter<SearchResult>();
+  @Output() closed = new EventEmitter<void>();
+  @ViewChild("searchInput") searchInput!: ElementRef;
+
+  query = "";
+  sender: MessageSender | "" = "";
+  fromDate = "";
+  toDate = "";
+  results: SearchResult[] = [];
+  MessageSender = MessageSender;
+  private conversationTitles = new Map<string, string>();
+  private searchSubject = new Subject<void>();
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private searchIndex: SearchIndexService,
+    private chatStorage: ChatStorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.chatStorage.conversations$.subscribe((conversations) => {
+        this.conversationTitles = new Map(
+          conversations.map((c) => [c.id, c.title || "Untitled"])
+        );
+      })
+    );
+
+    // Re-run the query as typing pauses and as the index changes underneath.
+    this.subscriptions.push(
+      merge(this.searchSubject, this.searchIndex.size$)
+        .pipe(debounceTime(200))
+        .subscribe(() => this.runSearch())
+    );
+
+    setTimeout(() => this.searchInput?.nativeElement.focus());
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  onQueryChange(): void {
+    this.searchSubject.next();
+  }
+
+  getConversationTitle(result: SearchResult): string {
+    return this.conversationTitles.get(result.conversationId) || "Untitled";
+  }
+
+  formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  }
+
+  onKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Escape") {
+      this.closed.emit();
+    } else if (event.key === "Enter" && this.results.length) {
+      event.preventDefault();
+      this.resultSelected.emit(this.results[0]);
+    }
+  }
+
+  private runSearch(): void {
+    const filters: SearchFilters = {};
+
+    if (this.sender) {
+      filters.sender = this.sender;
+    }
+    if (this.fromDate) {
+      filters.from = new Date(`${this.fromDate}T00:00`).getTime();
+    }
+    if (this.toDate) {
+      filters.to = new Date(`${this.toDate}T23:59:59.999`).getTime();
+    }
+
+    this.results = this.query.trim()
+      ? this.searchIndex.search(this.query, filters)
+      : [];
+  }
+}
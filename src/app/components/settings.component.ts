@@ -0,0 +1,115 @@
+import { Component, OnDestroy, OnInit } from "@angular/core";
+import { Subscription } from "rxjs";
+import { SettingsService } from "../services/settings.service";
+import { AiService } from "../services/ai.service";
+import { EXPORT_FORMATS } from "../services/export.service";
+import { UserSettings } from "../models/chat.interface";
+import { ModelInfo } from "../models/provider.interface";
+import {
+  AUTO_SAVE_INTERVALS,
+  FONT_SIZES,
+  HISTORY_LENGTHS,
+} from "../utils/user-settings";
+
+type SwitchSetting = "sendOnEnter" | "showTimestamps" | "enableSounds";
+
+@Component({
+  selector: "app-settings",
+  templateUrl: "./settings.component.html",
+})
+export class SettingsComponent implements OnInit, OnDestroy {
+  settings: UserSettings = this.settingsService.get();
+  fontSizes = FONT_SIZES;
+  autoSaveIntervals = AUTO_SAVE_INTERVALS;
+  historyLengths = HISTORY_LENGTHS;
+  exportFormats = EXPORT_FORMATS;
+  models: ModelInfo[] = [];
+  notificationError = "";
+  switches: { key: SwitchSetting; label: string; description: string }[] = [
+    {
+      key: "sendOnEnter",
+      label: "Send with Enter",
+      description: "When off, Enter adds a new line and Ctrl+Enter sends.",
+    },
+    {
+      key: "showTimestamps",
+      label: "Show timestamps",
+      description: "Time under each message.",
+    },
+    {
+      key: "enableSounds",
+      label: "Sound when a reply is ready",
+      description: "A short tone when a response finishes.",
+    },
+  ];
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private settingsService: SettingsService,
+    private aiService: AiService
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.settingsService.settings$.subscribe((settings: UserSettings) => {
+        this.settings = settings;
+      })
+    );
+
+    // Model ids are per provider; the list is only offered for the default.
+    if (
+      this.aiService.getCurrentProvider() ===
+      this.aiService.getDefaultProvider()
+    ) {
+      this.models = this.aiService.getCachedModels();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  update(changes: Partial<UserSettings>): void {
+    this.settingsService.update(changes);
+  }
+
+  toggle(key: SwitchSetting): void {
+    this.update({ [key]: !this.settings[key] });
+  }
+
+  toggleTitleSetting(key: "enabled" | "autoTag"): void {
+    this.update({
+      titles: { ...this.settings.titles, [key]: !this.settings.titles[key] },
+    });
+  }
+
+  // Turning notifications on asks the browser for permission first.
+  toggleNotifications(): void {
+    this.notificationError = "";
+
+    if (this.settings.enableNotifications) {
+      this.update({ enableNotifications: false });
+      return;
+    }
+
+    if (!("Notification" in window)) {
+      this.notificationError = "This browser does not support notifications.";
+      return;
+    }
+
+    Notification.requestPermission().then((permission) => {
+      if (permission === "granted") {
+        this.update({ enableNotifications: true });
+      } else {
+        this.notificationError =
+          "Notifications are blocked for this site. Allow them in the browser to turn this on.";
+      }
+    });
+  }
+
+  resetSettings(): void {
+    if (confirm("Reset all settings to their defaults?")) {
+      this.settingsService.reset();
+    }
+  }
+}
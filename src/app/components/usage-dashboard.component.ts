@@ -0,0 +1,175 @@
+import { Component, OnDestroy, OnInit } from "@angular/core";
+import { Subscription } from "rxjs";
+import { UsageLedgerService } from "../services/usage-ledger.service";
+import { ChatStorageService } from "../services/chat-storage.service";
+import {
+  BudgetStatus,
+  UsageBreakdown,
+  UsageBudgets,
+} from "../models/usage.interface";
+
+@Component({
+  selector: "app-usage-dashboard",
+  templateUrl: "./usage-dashboard.component.html",
+})
+export class UsageDashboardComponent implements OnInit, OnDestroy {
+  groupBy: "day" | "month" = "day";
+  rangeDays = 30;
+  totals: UsageBreakdown | null = null;
+  timeBreakdown: UsageBreakdown[] = [];
+  modelBreakdown: UsageBreakdown[] = [];
+  conversationBreakdown: UsageBreakdown[] = [];
+  todaySpend = 0;
+  monthSpend = 0;
+  budgets: UsageBudgets = this.usageLedger.getBudgets();
+  budgetStatus: BudgetStatus = { level: "ok" };
+  private conversationTitles = new Map<string, string>();
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private usageLedger: UsageLedgerService,
+    private chatStorage: ChatStorageService
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.usageLedger.records$.subscribe(() => this.refresh())
+    );
+
+    this.subscriptions.push(
+      this.usageLedger.budgets$.subscribe((budgets: UsageBudgets) => {
+        this.budgets = {
+          daily: { ...budgets.daily },
+          monthly: { ...budgets.monthly },
+        };
+      })
+    );
+
+    this.subscriptions.push(
+      this.usageLedger.budgetStatus$.subscribe((status: BudgetStatus) => {
+        this.budgetStatus = status;
+      })
+    );
+
+    this.subscriptions.push(
+      this.chatStorage.conversations$.subscribe((conversations) => {
+        this.conversationTitles = new Map(
+          conversations.map((c) => [c.id, c.title || "Untitled"])
+        );
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  refresh(): void {
+    const since = this.rangeDays
+      ? Date.now() - this.rangeDays * 24 * 60 * 60 * 1000
+      : undefined;
+
+    this.timeBreakdown = this.usageLedger.getTimeBreakdown(this.groupBy, since);
+    this.modelBreakdown = this.usageLedger.getModelBreakdown(since);
+    this.conversationBreakdown =
+      this.usageLedger.getConversationBreakdown(since);
+    this.totals = this.modelBreakdown.reduce<UsageBreakdown | null>(
+      (total, item) =>
+        total
+          ? {
+              key: "total",
+              requests: total.requests + item.requests,
+              promptTokens: total.promptTokens + item.promptTokens,
+              completionTokens: total.completionTokens + item.completionTokens,
+              totalTokens: total.totalTokens + item.totalTokens,
+              cost: total.cost + item.cost,
+              averageLatency:
+                (total.averageLatency * total.requests +
+                  item.averageLatency * item.requests) /
+                (total.requests + item.requests),
+            }
+          : { ...item, key: "total" },
+      null
+    );
+    this.todaySpend = this.usageLedger.getSpend("daily");
+    this.monthSpend = this.usageLedger.getSpend("monthly");
+  }
+
+  onRangeChange(event: Event): void {
+    this.rangeDays = Number((event.target as HTMLSelectElement).value);
+    this.refresh();
+  }
+
+  onGroupByChange(event: Event): void {
+    this.groupBy = (event.target as HTMLSelectElement).value as "day" | "month";
+    this.refresh();
+  }
+
+  saveBudgets(): void {
+    const normalize = (value: number | null | undefined) =>
+      typeof value === "number" && value > 0 ? value : null;
+
+    this.usageLedger.setBudgets({
+      daily: {
+        soft: normalize(this.budgets.daily.soft),
+        hard: normalize(this.budgets.daily.hard),
+      },
+      monthly: {
+        soft: normalize(this.budgets.monthly.soft),
+        hard: normalize(this.budgets.monthly.hard),
+      },
+    });
+  }
+
+  clearLedger(): void {
+    if (
+      confirm(
+        "Clear all recorded usage? Budgets will start counting from zero."
+      )
+    ) {
+      this.usageLedger.clear();
+    }
+  }
+
+  exportCsv(): void {
+    const blob = new Blob([this.usageLedger.exportCsv()], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ai-chat-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  getConversationTitle(id: string): string {
+    if (!id) {
+      return "(no conversation)";
+    }
+    return this.conversationTitles.get(id) || "(deleted conversation)";
+  }
+
+  getBarWidth(item: UsageBreakdown, items: UsageBreakdown[]): number {
+    const useCost = items.some((i) => i.cost > 0);
+    const max = Math.max(
+      ...items.map((i) => (useCost ? i.cost : i.totalTokens)),
+      0
+    );
+    const value = useCost ? item.cost : item.totalTokens;
+    return max > 0 ? (value / max) * 100 : 0;
+  }
+
+  getBudgetPercentage(spent: number, limit?: number | null): number {
+    if (!limit) {
+      return 0;
+    }
+    return Math.min(100, (spent / limit) * 100);
+  }
+
+  trackByKey(_index: number, item: UsageBreakdown): string {
+    return item.key;
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import { ExportOptions } from "../models/export.interface";
+
+export function selectMessages(
+  conversation: ChatHistory,
+  options: ExportOptions
+): ChatMessage[] {
+  return conversation.messages.filter((m) => {
+    if (m.isPending) {
+      return false;
+    }
+    if (m.isError) {
+      return options.includeErrors;
+    }
+    return m.sender !== MessageSender.SYSTEM || options.includeSystemMessages;
+  });
+}
+
+export function getSenderLabel(message: ChatMessage): string {
+  switch (message.sender) {
+    case MessageSender.USER:
+      return "You";
+    case MessageSender.AI:
+      return "Assistant";
+    default:
+      return message.isError ? "Error" : "System";
+  }
+}
+
+// e.g. "gpt-4o · 812 tokens (120 in / 692 out) · $0.0071"
+export function describeMessageMetadata(message: ChatMessage): string {
+  const metadata = message.metadata;
+  if (!metadata || message.sender !== MessageSender.AI) {
+    return "";
+  }
+
+  const parts: string[] = [];
+  if (metadata.model) {
+    parts.push(metadata.model);
+  }
+  if (metadata.totalTokens) {
+    parts.push(
+      metadata.promptTokens !== undefined &&
+        metadata.completionTokens !== undefined
+        ? `${metadata.totalTokens} tokens (${metadata.promptTokens} in / ${metadata.completionTokens} out)`
+        : `${metadata.totalTokens} tokens`
+    );
+  }
+  if (metadata.cost) {
+    parts.push(`$${metadata.cost.toFixed(4)}`);
+  }
+  return parts.join(" · ");
+}
+
+export function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function getConversationTitle(conversation: ChatHistory): string {
+  return conversation.metadata.title || "Untitled conversation";
+}
@@ -0,0 +1,203 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import {
+  ConversationExporter,
+  ExportFormat,
+  ExportOptions,
+} from "../models/export.interface";
+import { MarkdownService } from "../services/markdown.service";
+import {
+  describeMessageMetadata,
+  formatTimestamp,
+  getConversationTitle,
+  getSenderLabel,
+  selectMessages,
+} from "./export-utils";
+import { escapeHtml } from "../utils/html";
+import { getImageAttachments } from "../utils/image-attachments";
+import { getDocumentAttachments } from "../utils/document-attachments";
+
+// Inlined so the file renders the same offline and without the app's CSS.
+// Token colors follow the github-dark theme used in the app.
+const STYLES = `
+  body { font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2937; background: #f9fafb; margin: 0; }
+  main { max-width: 820px; margin: 0 auto; padding: 32px 20px; }
+  article + article { margin-top: 48px; padding-top: 32px; border-top: 1px solid #e5e7eb; }
+  h1 { font-size: 1.6em; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 0.85em; margin-bottom: 24px; }
+  .tag { display: inline-block; padding: 0 8px; margin-right: 4px; border-radius: 999px; background: #e5e7eb; }
+  .message { margin: 16px 0; padding: 12px 16px; border-radius: 12px; background: #fff; border: 1px solid #e5e7eb; }
+  .message.user { background: #eff6ff; border-color: #bfdbfe; }
+  .message.system { background: #f3f4f6; font-style: italic; }
+  .message.error { background: #fef2f2; border-color: #fecaca; }
+  .sender { font-weight: 600; font-size: 0.85em; color: #4b5563; margin-bottom: 6px; }
+  .sender time { font-weight: 400; color: #9ca3af; margin-left: 6px; }
+  .plain { white-space: pre-wrap; word-wrap: break-word; }
+  .images img { max-width: 240px; max-height: 240px; margin: 0 8px 8px 0; border-radius: 8px; vertical-align: top; }
+  .file { margin-bottom: 8px; }
+  .file summary { cursor: pointer; font-size: 0.9em; }
+  .file pre { max-height: 320px; overflow: auto; white-space: pre-wrap; font-size: 0.85em; }
+  .details { margin-top: 8px; font-size: 0.8em; color: #9ca3af; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+  .code { margin: 12px 0; border-radius: 8px; overflow: hidden; }
+  .code .lang { padding: 4px 12px; background: #1f2937; color: #d1d5db; font: 12px ui-monospace, monospace; }
+  .code pre { margin: 0; padding: 12px 16px; overflow-x: auto; background: #0d1117; color: #c9d1d9; }
+  .hljs-keyword, .hljs-meta .hljs-keyword, .hljs-template-tag, .hljs-type { color: #ff7b72; }
+  .hljs-title, .hljs-title.function_, .hljs-title.class_ { color: #d2a8ff; }
+  .hljs-attr, .hljs-attribute, .hljs-literal, .hljs-meta, .hljs-number, .hljs-operator, .hljs-variable, .hljs-selector-attr, .hljs-selector-class, .hljs-selector-id { color: #79c0ff; }
+  .hljs-regexp, .hljs-string, .hljs-meta .hljs-string { color: #a5d6ff; }
+  .hljs-built_in, .hljs-symbol { color: #ffa657; }
+  .hljs-comment, .hljs-code, .hljs-formula { color: #8b949e; }
+  .hljs-name, .hljs-quote, .hljs-selector-tag, .hljs-selector-pseudo { color: #7ee787; }
+  @media print {
+    body { background: #fff; font-size: 12px; }
+    main { max-width: none; padding: 0; }
+    article + article { page-break-before: always; border: 0; margin: 0; padding: 0; }
+    .message { page-break-inside: avoid; }
+    .code pre { white-space: pre-wrap; }
+  }
+`;
+
+/**
+ * Writes one standalone HTML document: replies are rendered from Markdown
+ * with highlighted code blocks, everything else is escaped text.
+ */
+export class HtmlExporter implements ConversationExporter {
+  readonly format: ExportFormat = "html";
+  readonly extension = "html";
+  readonly mimeType = "text/html";
+
+  constructor(private markdown: MarkdownService) {}
+
+  export(conversations: ChatHistory[], options: ExportOptions): string {
+    const title =
+      conversations.length === 1
+        ? getConversationTitle(conversations[0])
+        : `${conversations.length} conversations`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${conversations
+  .map((conversation) => this.renderConversation(conversation, options))
+  .join("\n")}
+</main>
+</body>
+</html>
+`;
+  }
+
+  private renderConversation(
+    conversation: ChatHistory,
+    options: ExportOptions
+  ): string {
+    const { metadata } = conversation;
+    const meta = [
+      `Created ${formatTimestamp(metadata.createdAt)}`,
+      metadata.model ? escapeHtml(metadata.model) : "",
+      options.includeMetadata && metadata.totalTokensUsed
+        ? `${metadata.totalTokensUsed} tokens${
+            metadata.totalCost ? ` · $${metadata.totalCost.toFixed(4)}` : ""
+          }`
+        : "",
+    ].filter(Boolean);
+    const tags = (metadata.tags || [])
+      .map((tag) => `<span class="tag">#${escapeHtml(tag)}</span>`)
+      .join("");
+
+    return `<article>
+<h1>${escapeHtml(getConversationTitle(conversation))}</h1>
+<div class="meta">${meta.join(" · ")}${tags ? `<div>${tags}</div>` : ""}</div>
+${selectMessages(conversation, options)
+  .map((message) => this.renderMessage(message, options))
+  .join("\n")}
+</article>`;
+  }
+
+  private renderMessage(message: ChatMessage, options: ExportOptions): string {
+    const classes = [
+      "message",
+      message.sender,
+      message.isError ? "error" : "",
+    ].filter(Boolean);
+    const details = options.includeMetadata
+      ? describeMessageMetadata(message)
+      : "";
+
+    return `<section class="${classes.join(" ")}">
+<div class="sender">${getSenderLabel(message)}<time>${formatTimestamp(
+      message.timestamp
+    )}</time></div>
+${this.renderImages(message)}${this.renderFiles(message)}${this.renderContent(
+      message
+    )}
+${details ? `<div class="details">${escapeHtml(details)}</div>` : ""}
+</section>`;
+  }
+
+  // Embedded as data URLs, so the file stays self-contained.
+  private renderImages(message: ChatMessage): string {
+    const images = getImageAttachments(message)
+      .map(
+        (image) =>
+          `<img src="${escapeHtml(image.dataUrl)}" alt="${escapeHtml(
+            image.name
+          )}">`
+      )
+      .join("");
+
+    return images ? `<div class="images">${images}</div>\n` : "";
+  }
+
+  // The extracted text, collapsed so it does not bury the conversation.
+  private renderFiles(message: ChatMessage): string {
+    return getDocumentAttachments(message)
+      .map(
+        (file) =>
+          `<details class="file"><summary>📄 ${escapeHtml(
+            file.name
+          )}</summary><pre>${escapeHtml(file.text)}</pre></details>\n`
+      )
+      .join("");
+  }
+
+  // Only replies are Markdown; user and system text is shown verbatim.
+  private renderContent(message: ChatMessage): string {
+    if (message.sender !== MessageSender.AI || message.isError) {
+      return `<div class="plain">${escapeHtml(message.content)}</div>`;
+    }
+
+    const blocks = this.markdown
+      .render(message.content)
+      .map((block) =>
+        block.kind === "code"
+          ? `<div class="code">${
+              block.language
+                ? `<div class="lang">${escapeHtml(block.language)}</div>`
+                : ""
+            }<pre><code class="hljs">${block.html}</code></pre></div>`
+          : block.html
+      );
+
+    return `<div class="content">${blocks.join("\n")}</div>`;
+  }
+}
+
+// Same document, handed to the browser's print dialog to save as PDF.
+export class PdfExporter extends HtmlExporter {
+  override readonly format: ExportFormat = "pdf";
+}
@@ -0,0 +1,90 @@
+import { ChatHistory } from "../models/chat.interface";
+import {
+  ConversationExporter,
+  ExportFormat,
+  ExportOptions,
+} from "../models/export.interface";
+import {
+  describeMessageMetadata,
+  formatTimestamp,
+  getConversationTitle,
+  getSenderLabel,
+  selectMessages,
+} from "./export-utils";
+import { getImageAttachments } from "../utils/image-attachments";
+import { getDocumentAttachments } from "../utils/document-attachments";
+
+/**
+ * Message content is already Markdown, so it is written as is under a
+ * heading per message; conversations are separated by rules.
+ */
+export class MarkdownExporter implements ConversationExporter {
+  readonly format: ExportFormat = "markdown";
+  readonly extension = "md";
+  readonly mimeType = "text/markdown";
+
+  export(conversations: ChatHistory[], options: ExportOptions): string {
+    return conversations
+      .map((conversation) => this.exportConversation(conversation, options))
+      .join("\n\n---\n\n");
+  }
+
+  private exportConversation(
+    conversation: ChatHistory,
+    options: ExportOptions
+  ): string {
+    const { metadata } = conversation;
+    const lines: string[] = [`# ${getConversationTitle(conversation)}`, ""];
+
+    lines.push(`- Created: ${formatTimestamp(metadata.createdAt)}`);
+    lines.push(`- Updated: ${formatTimestamp(metadata.updatedAt)}`);
+    if (metadata.model) {
+      lines.push(`- Model: ${metadata.model}`);
+    }
+    if (metadata.tags?.length) {
+      lines.push(`- Tags: ${metadata.tags.map((t) => `#${t}`).join(" ")}`);
+    }
+    if (options.includeMetadata && metadata.totalTokensUsed) {
+      lines.push(
+        `- Usage: ${metadata.totalTokensUsed} tokens${
+          metadata.totalCost ? `, $${metadata.totalCost.toFixed(4)}` : ""
+        }`
+      );
+    }
+
+    for (const message of selectMessages(conversation, options)) {
+      lines.push(
+        "",
+        `### ${getSenderLabel(message)} · ${formatTimestamp(
+          message.timestamp
+        )}`,
+        "",
+        message.content.trim()
+      );
+
+      // Image data and file text would swamp the conversation, so only
+      // references are kept.
+      const images = getImageAttachments(message);
+      const files = getDocumentAttachments(message);
+      if (images.length || files.length) {
+        lines.push(
+          "",
+          ...images.map(
+            (image) =>
+              `_[Image: ${image.name}, ${image.width}×${image.height}]_`
+          ),
+          ...files.map((file) => `_[File: ${file.name}]_`)
+        );
+      }
+
+      const details = options.includeMetadata
+        ? describeMessageMetadata(message)
+        : "";
+      if (details) {
+        lines.push("", `<sub>${details}</sub>`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+}
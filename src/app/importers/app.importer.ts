@@ -0,0 +1,44 @@
+import { ChatHistory } from "../models/chat.interface";
+import {
+  ConversationImporter,
+  ImportFormat,
+  ImportItem,
+} from "../models/import.interface";
+import { isRecord } from "./import-utils";
+
+// A single conversation or an "Export all" bundle from this app.
+export class AppImporter implements ConversationImporter {
+  readonly format: ImportFormat = "app";
+  readonly label = "AI Chat App";
+
+  detect(data: unknown): boolean {
+    return (
+      isRecord(data) &&
+      (isRecord(data["conversations"]) ||
+        (isRecord(data["metadata"]) && Array.isArray(data["messages"])))
+    );
+  }
+
+  split(data: unknown): ImportItem[] {
+    const record = data as Record<string, any>;
+    const conversations: unknown[] = isRecord(record["conversations"])
+      ? Object.values(record["conversations"])
+      : [record];
+
+    return conversations.map((source) => ({
+      title:
+        isRecord(source) && isRecord(source["metadata"])
+          ? source["metadata"]["title"] || ""
+          : "",
+      source,
+    }));
+  }
+
+  // Already in the app's format; storage validates it when saving.
+  convert(source: unknown): ChatHistory {
+    if (!isRecord(source)) {
+      throw new Error("Not a conversation");
+    }
+    return source as ChatHistory;
+  }
+}
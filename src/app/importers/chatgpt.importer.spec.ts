@@ -0,0 +1,121 @@
+import { MessageSender } from "../models/chat.interface";
+import { ChatGptImporter } from "./chatgpt.importer";
+
+function textNode(
+  id: string,
+  role: string,
+  text: string,
+  createTime: number,
+  parent: string | null,
+  children: string[] = []
+) {
+  return {
+    id,
+    parent,
+    children,
+    message: {
+      id,
+      author: { role },
+      create_time: createTime,
+      content: { content_type: "text", parts: [text] },
+      metadata: role === "assistant" ? { model_slug: "gpt-4o" } : {},
+    },
+  };
+}
+
+// root ─ u1 ─ a1
+//           └ a1b ─ u2 ─ a2   (current)
+function createExport() {
+  return {
+    id: "chatgpt-1",
+    title: "Regenerated answers",
+    create_time: 1700000000,
+    update_time: 1700000100,
+    current_node: "a2",
+    mapping: {
+      root: { id: "root", message: null, parent: null, children: ["u1"] },
+      u1: textNode("u1", "user", "Question", 1700000001, "root", ["a1", "a1b"]),
+      a1: textNode("a1", "assistant", "First answer", 1700000002, "u1"),
+      a1b: textNode("a1b", "assistant", "Second answer", 1700000003, "u1", [
+        "u2",
+      ]),
+      u2: textNode("u2", "user", "Thanks", 1700000004, "a1b", ["a2"]),
+      a2: textNode("a2", "assistant", "You're welcome", 1700000005, "u2"),
+    },
+  };
+}
+
+describe("ChatGptImporter", () => {
+  const importer = new ChatGptImporter();
+
+  it("should detect conversations with a mapping tree", () => {
+    expect(importer.detect([createExport()])).toBeTrue();
+    expect(importer.detect(createExport())).toBeTrue();
+    expect(importer.detect([{ chat_messages: [] }])).toBeFalse();
+  });
+
+  it("should make the path to the current node the active branch", () => {
+    const conversation = importer.convert(createExport());
+
+    expect(conversation.messages.map((m) => m.id)).toEqual([
+      "u1",
+      "a1b",
+      "u2",
+      "a2",
+    ]);
+    expect(conversation.messages.map((m) => m.parentId)).toEqual([
+      null,
+      "u1",
+      "a1b",
+      "u2",
+    ]);
+    expect(conversation.branches?.map((m) => m.id)).toEqual(["a1"]);
+    expect(conversation.branches?.[0].parentId).toBe("u1");
+  });
+
+  it("should convert senders, timestamps, model and title", () => {
+    const conversation = importer.convert(createExport());
+    const [question, answer] = conversation.messages;
+
+    expect(question.sender).toBe(MessageSender.USER);
+    expect(answer.sender).toBe(MessageSender.AI);
+    expect(question.timestamp).toBe(1700000001000);
+    expect(answer.metadata?.model).toBe("gpt-4o");
+    expect(conversation.metadata.id).toBe("chatgpt-1");
+    expect(conversation.metadata.title).toBe("Regenerated answers");
+    expect(conversation.metadata.createdAt).toBe(1700000000000);
+    expect(conversation.metadata.userMessageCount).toBe(2);
+    expect(conversation.metadata.aiMessageCount).toBe(2);
+  });
+
+  it("should attach the children of skipped nodes to the nearest message", () => {
+    const source = createExport();
+    source.mapping.u2.message.author.role = "tool";
+
+    const conversation = importer.convert(source);
+
+    expect(conversation.messages.map((m) => m.id)).toEqual(["u1", "a1b", "a2"]);
+    expect(conversation.messages[2].parentId).toBe("a1b");
+  });
+
+  it("should follow the newest message when the current node is missing", () => {
+    const source = createExport();
+    source.current_node = "gone";
+    source.mapping.a1.message.create_time = 1700000009;
+
+    const conversation = importer.convert(source);
+
+    expect(conversation.messages.map((m) => m.id)).toEqual(["u1", "a1"]);
+  });
+
+  it("should fail when there is nothing to import", () => {
+    expect(() => importer.convert({ title: "No tree" })).toThrowError(
+      /Missing message tree/
+    );
+    expect(() =>
+      importer.convert({
+        mapping: { root: { id: "root", message: null, children: [] } },
+      })
+    ).toThrowError(/No messages to import/);
+  });
+});
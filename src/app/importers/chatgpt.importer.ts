@@ -0,0 +1,233 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import {
+  ConversationImporter,
+  ImportFormat,
+  ImportItem,
+} from "../models/import.interface";
+import {
+  buildConversation,
+  extractText,
+  isRecord,
+  toSender,
+  toTimestamp,
+} from "./import-utils";
+
+interface MappingNode {
+  id?: string;
+  message?: Record<string, any> | null;
+  parent?: string | null;
+  children?: string[];
+}
+
+/**
+ * ChatGPT's `conversations.json`: each conversation is a tree of nodes keyed
+ * by id. The path ending at `current_node` becomes the active branch and the
+ * other replies and edits are kept as inactive branches.
+ */
+export class ChatGptImporter implements ConversationImporter {
+  readonly format: ImportFormat = "chatgpt";
+  readonly label = "ChatGPT";
+
+  detect(data: unknown): boolean {
+    const conversations = Array.isArray(data) ? data : [data];
+    return conversations.some((c) => isRecord(c) && isRecord(c["mapping"]));
+  }
+
+  split(data: unknown): ImportItem[] {
+    return (Array.isArray(data) ? data : [data]).map((source) => ({
+      title: isRecord(source) ? source["title"] || "" : "",
+      source,
+    }));
+  }
+
+  convert(source: unknown): ChatHistory {
+    if (!isRecord(source) || !isRecord(source["mapping"])) {
+      throw new Error("Missing message tree");
+    }
+
+    const mapping = source["mapping"] as Record<string, MappingNode>;
+    const createdAt = toTimestamp(source["create_time"]);
+    const converted = this.convertTree(mapping, createdAt || Date.now());
+    const messages = this.getActivePath(
+      mapping,
+      converted,
+      source["current_node"]
+    );
+    const activeIds = new Set(messages.map((m) => m.id));
+    const models = messages
+      .map((m) => m.metadata?.model)
+      .filter((model): model is string => !!model);
+
+    return buildConversation(
+      {
+        id: source["conversation_id"] || source["id"] || uuidv4(),
+        title: source["title"],
+        createdAt,
+        updatedAt: toTimestamp(source["update_time"]),
+        model: source["default_model_slug"] || models[models.length - 1],
+      },
+      messages,
+      [...converted.values()].filter((m) => !activeIds.has(m.id))
+    );
+  }
+
+  /**
+   * Converts every node, parents first. Nodes without a usable message (the
+   * empty root, tool calls, hidden context) are skipped and their children
+   * attached to the nearest converted ancestor. Keyed by node id.
+   */
+  private convertTree(
+    mapping: Record<string, MappingNode>,
+    fallbackTime: number
+  ): Map<string, ChatMessage> {
+    const converted = new Map<string, ChatMessage>();
+    const visited = new Set<string>();
+    const stack: { nodeId: string; parent: ChatMessage | null }[] = Object.keys(
+      mapping
+    )
+      .filter((id) => {
+        const parent = mapping[id]?.parent;
+        return !parent || !mapping[parent];
+      })
+      .map((nodeId) => ({ nodeId, parent: null }));
+
+    while (stack.length) {
+      const { nodeId, parent } = stack.pop()!;
+      const node = mapping[nodeId];
+      if (!node || visited.has(nodeId)) continue;
+      visited.add(nodeId);
+
+      const message = this.convertMessage(
+        node,
+        nodeId,
+        parent,
+        parent?.timestamp || fallbackTime
+      );
+      if (message) {
+        converted.set(nodeId, message);
+      }
+
+      for (const childId of [...(node.children || [])].reverse()) {
+        stack.push({ nodeId: childId, parent: message || parent });
+      }
+    }
+
+    return converted;
+  }
+
+  private convertMessage(
+    node: MappingNode,
+    nodeId: string,
+    parent: ChatMessage | null,
+    fallbackTime: number
+  ): ChatMessage | null {
+    const message = node.message;
+    if (!isRecord(message)) {
+      return null;
+    }
+
+    const sender = toSender(message["author"]?.["role"]);
+    const metadata = isRecord(message["metadata"]) ? message["metadata"] : {};
+    if (!sender || metadata["is_visually_hidden_from_conversation"]) {
+      return null;
+    }
+
+    const content = this.getContent(message["content"]).trim();
+    if (!content) {
+      return null;
+    }
+
+    const model = metadata["model_slug"];
+    return {
+      id: message["id"] || nodeId,
+      sender,
+      content,
+      timestamp: toTimestamp(message["create_time"]) || fallbackTime,
+      parentId: parent ? parent.id : null,
+      metadata:
+        sender === MessageSender.AI && model
+          ? {
+              model,
+              finishReason: metadata["finish_details"]?.["type"],
+            }
+          : undefined,
+    };
+  }
+
+  // Text, multimodal text and code; browsing and tool output are left out.
+  private getContent(content: unknown): string {
+    if (!isRecord(content)) {
+      return "";
+    }
+
+    switch (content["content_type"]) {
+      case "text":
+        return extractText(content["parts"]);
+      case "multimodal_text":
+        return extractText(
+          (content["parts"] || []).map((part: unknown) =>
+            isRecord(part) && part["content_type"] === "image_asset_pointer"
+              ? "[Image not included in the export]"
+              : part
+          )
+        );
+      case "code":
+        return typeof content["text"] === "string" && content["text"].trim()
+          ? "```" +
+              (content["language"] && content["language"] !== "unknown"
+                ? content["language"]
+                : "") +
+              "\n" +
+              content["text"] +
+              "\n```"
+          : "";
+      default:
+        return "";
+    }
+  }
+
+  // Falls back to the newest message when the current node is missing.
+  private getActivePath(
+    mapping: Record<string, MappingNode>,
+    converted: Map<string, ChatMessage>,
+    currentNode: unknown
+  ): ChatMessage[] {
+    let leaf: ChatMessage | undefined;
+    let nodeId = typeof currentNode === "string" ? currentNode : undefined;
+    const seen = new Set<string>();
+
+    while (nodeId && !leaf && !seen.has(nodeId)) {
+      seen.add(nodeId);
+      leaf = converted.get(nodeId);
+      nodeId = mapping[nodeId]?.parent || undefined;
+    }
+
+    if (!leaf) {
+      leaf = [...converted.values()].sort(
+        (a, b) => b.timestamp - a.timestamp
+      )[0];
+    }
+    if (!leaf) {
+      return [];
+    }
+
+    const byId = new Map(
+      [...converted.values()].map((message) => [message.id, message])
+    );
+    const path: ChatMessage[] = [];
+    for (
+      let message: ChatMessage | undefined = leaf;
+      message && path.length <= byId.size;
+      message = message.parentId ? byId.get(message.parentId) : undefined
+    ) {
+      path.unshift(message);
+    }
+
+    return path;
+  }
+}
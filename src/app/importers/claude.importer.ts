@@ -0,0 +1,74 @@
+import { v4 as uuidv4 } from "uuid";
+import { ChatHistory, ChatMessage } from "../models/chat.interface";
+import {
+  ConversationImporter,
+  ImportFormat,
+  ImportItem,
+} from "../models/import.interface";
+import {
+  buildConversation,
+  extractText,
+  isRecord,
+  linkMessages,
+  toSender,
+  toTimestamp,
+} from "./import-utils";
+
+// Claude's `conversations.json`: a flat `chat_messages` list per conversation.
+export class ClaudeImporter implements ConversationImporter {
+  readonly format: ImportFormat = "claude";
+  readonly label = "Claude";
+
+  detect(data: unknown): boolean {
+    return (
+      Array.isArray(data) &&
+      data.some((c) => isRecord(c) && Array.isArray(c["chat_messages"]))
+    );
+  }
+
+  split(data: unknown): ImportItem[] {
+    return (data as unknown[]).map((source) => ({
+      title: isRecord(source) ? source["name"] || "" : "",
+      source,
+    }));
+  }
+
+  convert(source: unknown): ChatHistory {
+    if (!isRecord(source) || !Array.isArray(source["chat_messages"])) {
+      throw new Error("Missing messages");
+    }
+
+    const createdAt = toTimestamp(source["created_at"]);
+    let lastTime = createdAt || Date.now();
+    const messages: ChatMessage[] = [];
+
+    for (const message of source["chat_messages"]) {
+      if (!isRecord(message)) continue;
+
+      const sender = toSender(message["sender"]);
+      const content = (
+        message["text"] || extractText(message["content"])
+      ).trim();
+      if (!sender || !content) continue;
+
+      lastTime = toTimestamp(message["created_at"]) || lastTime;
+      messages.push({
+        id: message["uuid"] || uuidv4(),
+        sender,
+        content,
+        timestamp: lastTime,
+      });
+    }
+
+    return buildConversation(
+      {
+        id: source["uuid"] || uuidv4(),
+        title: source["name"],
+        createdAt,
+        updatedAt: toTimestamp(source["updated_at"]),
+        model: source["model"],
+      },
+      linkMessages(messages)
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import { DEFAULT_CONVERSATION_TITLE } from "../utils/conversation-title";
+import { CONVERSATION_FORMAT_VERSION } from "../utils/message-tree";
+import { normalizeTags } from "../utils/tags";
+
+export interface ImportedConversationDetails {
+  id: string;
+  title?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  model?: string;
+  tags?: unknown;
+}
+
+export function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Accepts Unix seconds (ChatGPT), milliseconds and ISO date strings.
+export function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && isFinite(value) && value > 0) {
+    return value < 1e12 ? Math.round(value * 1000) : Math.round(value);
+  }
+  if (typeof value === "string" && value) {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+// Role names differ between tools; null for roles the app has no use for.
+export function toSender(role: unknown): MessageSender | null {
+  switch (typeof role === "string" ? role.toLowerCase() : "") {
+    case "user":
+    case "human":
+      return MessageSender.USER;
+    case "assistant":
+    case "ai":
+    case "model":
+    case "bot":
+      return MessageSender.AI;
+    case "system":
+      return MessageSender.SYSTEM;
+    default:
+      return null;
+  }
+}
+
+// Joins the text parts of `content` given as a string or a list of parts.
+export function extractText(content: unknown): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return "";
+  }
+
+  return content
+    .map((part) => {
+      if (typeof part === "string") return part;
+      if (isRecord(part) && typeof part["text"] === "string") {
+        return part["text"];
+      }
+      return "";
+    })
+    .filter((text) => text.trim())
+    .join("\n\n");
+}
+
+// Gives every message of a flat list the one before it as parent.
+export function linkMessages(messages: ChatMessage[]): ChatMessage[] {
+  messages.forEach((message, index) => {
+    message.parentId = index > 0 ? messages[index - 1].id : null;
+  });
+  return messages;
+}
+
+/**
+ * Wraps converted messages in a conversation of the current format. Missing
+ * timestamps fall back to the first and last message.
+ */
+export function buildConversation(
+  details: ImportedConversationDetails,
+  messages: ChatMessage[],
+  branches: ChatMessage[] = []
+): ChatHistory {
+  if (!messages.length) {
+    throw new Error("No messages to import");
+  }
+
+  const createdAt = details.createdAt || messages[0].timestamp;
+  const updatedAt =
+    details.updatedAt || messages[messages.length - 1].timestamp;
+  const title = details.title?.trim();
+
+  return {
+    messages,
+    branches,
+    version: CONVERSATION_FORMAT_VERSION,
+    metadata: {
+      id: details.id,
+      title: title || DEFAULT_CONVERSATION_TITLE,
+      // Keeps title generation from renaming conversations that had a title.
+      titleSource: title ? "user" : "default",
+      createdAt,
+      updatedAt: Math.max(createdAt, updatedAt),
+      totalMessages: messages.length,
+      userMessageCount: messages.filter((m) => m.sender === MessageSender.USER)
+        .length,
+      aiMessageCount: messages.filter((m) => m.sender === MessageSender.AI)
+        .length,
+      totalTokensUsed: 0,
+      totalCost: 0,
+      tags: normalizeTags(details.tags),
+      isFavorite: false,
+      isArchived: false,
+      model: details.model || undefined,
+    },
+  };
+}
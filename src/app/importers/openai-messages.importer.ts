@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import {
+  ConversationImporter,
+  ImportFormat,
+  ImportItem,
+} from "../models/import.interface";
+import {
+  buildConversation,
+  extractText,
+  isRecord,
+  linkMessages,
+  toSender,
+  toTimestamp,
+} from "./import-utils";
+
+/**
+ * The `{ messages: [{ role, content }] }` shape most other tools and API logs
+ * use, as one object or a list of them. Messages without a timestamp are
+ * spaced a second apart after the conversation start to keep their order.
+ */
+export class OpenAiMessagesImporter implements ConversationImporter {
+  readonly format: ImportFormat = "openai-messages";
+  readonly label = "Chat transcript (role/content messages)";
+
+  detect(data: unknown): boolean {
+    return (Array.isArray(data) ? data : [data]).some(
+      (c) =>
+        isRecord(c) &&
+        Array.isArray(c["messages"]) &&
+        c["messages"].some((m: unknown) => isRecord(m) && "role" in m)
+    );
+  }
+
+  split(data: unknown): ImportItem[] {
+    return (Array.isArray(data) ? data : [data]).map((source) => ({
+      title: isRecord(source) ? source["title"] || source["name"] || "" : "",
+      source,
+    }));
+  }
+
+  convert(source: unknown): ChatHistory {
+    if (!isRecord(source) || !Array.isArray(source["messages"])) {
+      throw new Error("Missing messages");
+    }
+
+    const createdAt =
+      toTimestamp(source["created_at"] ?? source["created"]) || Date.now();
+    let lastTime = createdAt;
+    const messages: ChatMessage[] = [];
+
+    for (const message of source["messages"]) {
+      if (!isRecord(message)) continue;
+
+      const sender = toSender(message["role"]);
+      const content = extractText(message["content"]).trim();
+      if (!sender || !content) continue;
+
+      lastTime =
+        toTimestamp(
+          message["timestamp"] ?? message["created_at"] ?? message["created"]
+        ) || lastTime + 1000;
+      messages.push({
+        id: typeof message["id"] === "string" ? message["id"] : uuidv4(),
+        sender,
+        content,
+        timestamp: lastTime,
+        metadata:
+          sender === MessageSender.AI && message["model"]
+            ? { model: message["model"] }
+            : undefined,
+      });
+    }
+
+    return buildConversation(
+      {
+        id: typeof source["id"] === "string" ? source["id"] : uuidv4(),
+        title: source["title"] || source["name"],
+        createdAt,
+        updatedAt: toTimestamp(source["updated_at"]),
+        model: source["model"],
+        tags: source["tags"],
+      },
+      linkMessages(messages)
+    );
+  }
+}
@@ -1,3 +1,6 @@
+import { ExportPreferences } from "./export.interface";
+import { ChatProviderType, GenerationParams } from "./provider.interface";
+
 export enum MessageSender {
   USER = "user",
   AI = "ai",
@@ -11,9 +14,48 @@ export interface ChatMessage {
   timestamp: number;
   isError?: boolean;
   isPending?: boolean;
+  isPinned?: boolean;
+  // The message this one follows; null for the first message.
+  parentId?: string | null;
   metadata?: MessageMetadata;
+  attachments?: MessageAttachment[];
+}
+
+export interface ImageAttachment {
+  id: string;
+  kind: "image";
+  name: string;
+  mimeType: string;
+  // The (resized) image as a data: URL, stored with the message.
+  dataUrl: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export type DocumentFormat =
+  | "text"
+  | "markdown"
+  | "code"
+  | "csv"
+  | "json"
+  | "pdf";
+
+export interface DocumentAttachment {
+  id: string;
+  kind: "document";
+  name: string;
+  mimeType: string;
+  format: DocumentFormat;
+  // The text extracted in the browser; the file itself is not kept.
+  text: string;
+  tokens: number;
+  size: number;
+  pages?: number;
 }
 
+export type MessageAttachment = ImageAttachment | DocumentAttachment;
+
 export interface MessageMetadata {
   tokens?: number;
   processingTime?: number;
@@ -22,26 +64,90 @@ export interface MessageMetadata {
   completionTokens?: number;
   totalTokens?: number;
   finishReason?: string;
+  promptCost?: number;
+  completionCost?: number;
+  cost?: number;
+  usageEstimated?: boolean;
+  params?: GenerationParams;
   [key: string]: any;
 }
 
 export interface ChatHistory {
+  // The active branch, oldest first.
   messages: ChatMessage[];
   metadata: ConversationMetadata;
+  // Messages on inactive branches (earlier edits and regenerated replies).
+  branches?: ChatMessage[];
+  version?: number;
 }
 
 export interface ConversationMetadata {
   id: string;
   title?: string;
+  // "user" titles are never replaced by generated ones.
+  titleSource?: TitleSource;
   createdAt: number;
   updatedAt: number;
   totalMessages: number;
   userMessageCount: number;
   aiMessageCount: number;
   totalTokensUsed?: number;
+  totalCost?: number;
   tags?: string[];
   isFavorite?: boolean;
   isArchived?: boolean;
+  provider?: ChatProviderType;
+  model?: string;
+  systemPrompt?: string;
+  personaId?: string;
+  contextStrategy?: ContextStrategy;
+  contextSummary?: ContextSummary;
+  generationParams?: GenerationParams;
+  parameterPresetId?: string;
+}
+
+export type ContextStrategy = "drop-oldest" | "summarize";
+
+export type TitleSource = "default" | "generated" | "user";
+
+export interface TitleSettings {
+  enabled: boolean;
+  autoTag: boolean;
+  // Empty to use the conversation's model.
+  model: string;
+}
+
+export interface ContextSummary {
+  content: string;
+  upToMessageId: string;
+  createdAt: number;
+}
+
+export interface ContextWindow {
+  messages: OpenAIChatMessage[];
+  includedIds: string[];
+  droppedIds: string[];
+  summarizedIds: string[];
+  promptTokens: number;
+  budget: number;
+  contextWindow: number;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  params: GenerationParams;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface OpenAIRequestBase {
@@ -56,14 +162,26 @@ export interface OpenAIRequestBase {
 }
 
 export interface OpenAIChatRequest extends OpenAIRequestBase {
-  messages: OpenAIChatMessage[];
+  messages: OpenAIRequestMessage[];
   stream?: boolean;
 }
 
+// Providers map images into their own wire format.
 export interface OpenAIChatMessage {
   role: "system" | "user" | "assistant";
   content: string;
   name?: string;
+  images?: ImageAttachment[];
+}
+
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface OpenAIRequestMessage {
+  role: OpenAIChatMessage["role"];
+  content: string | OpenAIContentPart[];
+  name?: string;
 }
 
 export interface OpenAIChatResponse {
@@ -117,11 +235,19 @@ export interface ChatAppState {
 export interface UserSettings {
   theme: "light" | "dark" | "system";
   fontSize: "small" | "medium" | "large";
+  // Off: Enter adds a new line and Ctrl/Cmd+Enter sends.
   sendOnEnter: boolean;
   showTimestamps: boolean;
+  // Sound and desktop notification when a reply finishes.
   enableSounds: boolean;
   enableNotifications: boolean;
+  // Empty for the provider's own default.
   defaultModel: string;
+  // Most recent messages sent as history; pinned messages are always sent.
+  // 0 for no limit.
   maxHistoryLength: number;
+  // Milliseconds; 0 turns the periodic save off.
   autoSaveInterval: number;
+  titles: TitleSettings;
+  export: ExportPreferences;
 }
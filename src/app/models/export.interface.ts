@@ -0,0 +1,23 @@
+import { ChatHistory } from "./chat.interface";
+
+export type ExportFormat = "json" | "markdown" | "html" | "pdf";
+
+export interface ExportOptions {
+  includeSystemMessages: boolean;
+  includeErrors: boolean;
+  // Model, token counts and cost under each reply.
+  includeMetadata: boolean;
+}
+
+export interface ExportPreferences {
+  format: ExportFormat;
+  options: ExportOptions;
+}
+
+export interface ConversationExporter {
+  readonly format: ExportFormat;
+  readonly extension: string;
+  readonly mimeType: string;
+
+  export(conversations: ChatHistory[], options: ExportOptions): string;
+}
@@ -0,0 +1,34 @@
+import { ChatHistory } from "./chat.interface";
+
+export type ImportFormat = "app" | "chatgpt" | "claude" | "openai-messages";
+
+// One conversation found in an import file, still in the source format.
+export interface ImportItem {
+  title: string;
+  source: unknown;
+}
+
+export interface ConversationImporter {
+  readonly format: ImportFormat;
+  readonly label: string;
+
+  // Whether the parsed file looks like this importer's format.
+  detect(data: unknown): boolean;
+  split(data: unknown): ImportItem[];
+  // Throws when the conversation cannot be converted.
+  convert(source: unknown): ChatHistory;
+}
+
+export interface ImportResult {
+  title: string;
+  conversationId?: string;
+  error?: string;
+}
+
+export interface ImportReport {
+  // Null when the file was not recognised.
+  format: ImportFormat | null;
+  results: ImportResult[];
+  imported: number;
+  failed: number;
+}
@@ -0,0 +1,11 @@
+// Rates are in USD per million tokens.
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface MessageCost {
+  promptCost: number;
+  completionCost: number;
+  totalCost: number;
+}
@@ -0,0 +1,95 @@
+import { OpenAIChatMessage, OpenAIRequestBase } from "./chat.interface";
+
+export type ChatProviderType =
+  | "openai"
+  | "azure-openai"
+  | "anthropic"
+  | "ollama"
+  | "llama-cpp"
+  | "mock";
+
+export type StreamFormat = "sse" | "ndjson";
+
+export type GenerationParams = Omit<OpenAIRequestBase, "model" | "user">;
+
+export interface ProviderConfig {
+  apiUrl: string;
+  apiKey?: string;
+  apiVersion?: string;
+  model: string;
+  deployment?: string;
+  // Sent as OpenAI-Organization / OpenAI-Project headers.
+  organization?: string;
+  project?: string;
+}
+
+export type ConnectionField = "apiKey" | "apiUrl" | "organization" | "project";
+
+// Entered at runtime; empty fields fall back to the environment config.
+export type ProviderConnection = Partial<Pick<ProviderConfig, ConnectionField>>;
+
+export interface ProviderChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  stream: boolean;
+  params: GenerationParams;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: { [name: string]: string };
+  body: unknown;
+}
+
+export interface ProviderUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ProviderCompletion {
+  content: string;
+  model: string;
+  usage?: ProviderUsage;
+  finishReason?: string;
+}
+
+export interface ProviderStreamDelta {
+  content?: string;
+  model?: string;
+  usage?: ProviderUsage;
+  finishReason?: string;
+  error?: string;
+  done?: boolean;
+}
+
+export interface ModelCapabilities {
+  contextLength: number;
+  supportsVision: boolean;
+  supportsTools: boolean;
+}
+
+export interface ModelInfo extends ModelCapabilities {
+  id: string;
+  provider: ChatProviderType;
+  label?: string;
+  ownedBy?: string;
+}
+
+export interface ChatProvider {
+  readonly type: ChatProviderType;
+  readonly label: string;
+  readonly streamFormat: StreamFormat;
+  readonly defaultModel: string;
+  // Fields offered on the connection screen.
+  readonly connectionFields: ConnectionField[];
+  readonly defaultApiUrl: string;
+
+  configure(connection: ProviderConnection): void;
+  buildRequest(request: ProviderChatRequest): ProviderHttpRequest;
+  parseResponse(response: any): ProviderCompletion;
+  parseStreamEvent(data: string, event?: string): ProviderStreamDelta | null;
+  // Returns null when the backend cannot list its models.
+  buildModelsRequest(): ProviderHttpRequest | null;
+  parseModelsResponse(response: any): ModelInfo[];
+}
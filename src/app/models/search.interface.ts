@@ -0,0 +1,35 @@
+import { MessageSender } from "./chat.interface";
+
+export interface SearchFilters {
+  sender?: MessageSender;
+  // Inclusive timestamp bounds in ms.
+  from?: number;
+  to?: number;
+}
+
+export interface SearchTerm {
+  // Consecutive tokens; a single word is a one-token phrase.
+  tokens: string[];
+  // Quoted phrases match whole words only; bare words also match prefixes.
+  exact: boolean;
+}
+
+export interface SearchQuery {
+  // Every term must match.
+  terms: SearchTerm[];
+  filters: SearchFilters;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  messageId: string;
+  sender: MessageSender;
+  timestamp: number;
+  score: number;
+  snippet: SnippetSegment[];
+}
@@ -0,0 +1,24 @@
+import { ChatHistory, ConversationMetadata } from "./chat.interface";
+
+export type StorageBackend = "indexeddb" | "localstorage";
+
+export interface StorageEstimate {
+  // Both in bytes.
+  used: number;
+  quota: number;
+}
+
+export interface ChatStorageAdapter {
+  readonly backend: StorageBackend;
+
+  open(): Promise<void>;
+  loadIndex(): Promise<ConversationMetadata[]>;
+  loadConversation(id: string): Promise<ChatHistory | null>;
+  // Also adds or updates the conversation's entry in the index.
+  saveConversation(conversation: ChatHistory): Promise<void>;
+  // Persists metadata changes without rewriting the messages.
+  saveMetadata(metadata: ConversationMetadata): Promise<void>;
+  deleteConversation(id: string): Promise<void>;
+  clear(): Promise<void>;
+  estimate(): Promise<StorageEstimate | null>;
+}
@@ -0,0 +1,46 @@
+import { ChatProviderType } from "./provider.interface";
+
+export type UsageKind = "chat" | "summary" | "title";
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  kind: UsageKind;
+  conversationId?: string;
+  provider: ChatProviderType;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number;
+  latency: number;
+  estimated?: boolean;
+}
+
+export interface UsageBreakdown {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  averageLatency: number;
+}
+
+export type BudgetPeriod = "daily" | "monthly";
+
+// Limits are in USD; an unset limit is not enforced.
+export interface BudgetLimits {
+  soft?: number | null;
+  hard?: number | null;
+}
+
+export type UsageBudgets = Record<BudgetPeriod, BudgetLimits>;
+
+export interface BudgetStatus {
+  level: "ok" | "soft" | "hard";
+  period?: BudgetPeriod;
+  spent?: number;
+  limit?: number;
+  message?: string;
+}
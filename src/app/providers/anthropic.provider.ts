@@ -0,0 +1,238 @@
+import { OpenAIChatMessage } from "../models/chat.interface";
+import {
+  ChatProvider,
+  ChatProviderType,
+  ConnectionField,
+  ModelInfo,
+  ProviderChatRequest,
+  ProviderCompletion,
+  ProviderConfig,
+  ProviderConnection,
+  ProviderHttpRequest,
+  ProviderStreamDelta,
+  StreamFormat,
+} from "../models/provider.interface";
+import { inferModelCapabilities } from "../utils/model-capabilities";
+import { getBase64Data } from "../utils/image-attachments";
+import { applyConnection } from "../utils/provider-connection";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: string; data: string };
+    };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  content: { type: string; text?: string }[];
+  stop_reason: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicModelsResponse {
+  data?: { id: string; display_name?: string }[];
+}
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+export class AnthropicProvider implements ChatProvider {
+  readonly type: ChatProviderType = "anthropic";
+  readonly label: string = "Anthropic";
+  readonly streamFormat: StreamFormat = "sse";
+  readonly connectionFields: ConnectionField[] = ["apiKey", "apiUrl"];
+  private readonly defaults: ProviderConfig = { ...this.config };
+
+  constructor(private config: ProviderConfig) {}
+
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  get defaultApiUrl(): string {
+    return this.defaults.apiUrl;
+  }
+
+  configure(connection: ProviderConnection): void {
+    this.config = applyConnection(this.defaults, connection);
+  }
+
+  buildRequest(request: ProviderChatRequest): ProviderHttpRequest {
+    const { params } = request;
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    const body: AnthropicMessagesRequest = {
+      model: request.model,
+      messages: this.toAnthropicMessages(request.messages),
+      max_tokens: params.max_tokens || DEFAULT_MAX_TOKENS,
+      stream: request.stream,
+    };
+
+    if (system) body.system = system;
+    if (params.temperature !== undefined) body.temperature = params.temperature;
+    if (params.top_p !== undefined) body.top_p = params.top_p;
+    if (params.stop) {
+      body.stop_sequences = Array.isArray(params.stop)
+        ? params.stop
+        : [params.stop];
+    }
+
+    return {
+      url: `${this.config.apiUrl}/v1/messages`,
+      headers: this.createHeaders(),
+      body,
+    };
+  }
+
+  buildModelsRequest(): ProviderHttpRequest | null {
+    return {
+      url: `${this.config.apiUrl}/v1/models?limit=100`,
+      headers: this.createHeaders(),
+      body: undefined,
+    };
+  }
+
+  parseModelsResponse(response: AnthropicModelsResponse): ModelInfo[] {
+    return (response.data || []).map((model) => ({
+      id: model.id,
+      provider: this.type,
+      label: model.display_name,
+      ...inferModelCapabilities(model.id),
+    }));
+  }
+
+  parseResponse(response: AnthropicMessagesResponse): ProviderCompletion {
+    const content = (response.content || [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text || "")
+      .join("");
+
+    return {
+      content,
+      model: response.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.input_tokens,
+            completionTokens: response.usage.output_tokens,
+            totalTokens:
+              response.usage.input_tokens + response.usage.output_tokens,
+          }
+        : undefined,
+      finishReason: response.stop_reason || undefined,
+    };
+  }
+
+  parseStreamEvent(data: string, event?: string): ProviderStreamDelta | null {
+    const json = JSON.parse(data);
+
+    switch (json.type || event) {
+      case "message_start":
+        return {
+          model: json.message?.model,
+          usage: { promptTokens: json.message?.usage?.input_tokens },
+        };
+      case "content_block_delta":
+        return { content: json.delta?.text || undefined };
+      case "message_delta":
+        return {
+          usage: { completionTokens: json.usage?.output_tokens },
+          finishReason: json.delta?.stop_reason || undefined,
+        };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        return { error: json.error?.message || "Stream error" };
+      default:
+        return null;
+    }
+  }
+
+  private createHeaders(): { [name: string]: string } {
+    const headers: { [name: string]: string } = {
+      "Content-Type": "application/json",
+      "anthropic-version": this.config.apiVersion || "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+
+    if (this.config.apiKey) {
+      headers["x-api-key"] = this.config.apiKey;
+    }
+
+    return headers;
+  }
+
+  private toAnthropicMessages(
+    messages: OpenAIChatMessage[]
+  ): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === "system") continue;
+
+      const content = this.toAnthropicContent(message);
+
+      // The Messages API requires strictly alternating user/assistant turns.
+      const previous = result[result.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content =
+          typeof previous.content === "string" && typeof content === "string"
+            ? `${previous.content}\n\n${content}`
+            : [...this.toBlocks(previous.content), ...this.toBlocks(content)];
+      } else {
+        result.push({ role: message.role, content });
+      }
+    }
+
+    return result;
+  }
+
+  // Images go first, as Anthropic recommends; empty text blocks are rejected.
+  private toAnthropicContent(
+    message: OpenAIChatMessage
+  ): string | AnthropicContentBlock[] {
+    if (!message.images?.length) {
+      return message.content;
+    }
+
+    const blocks: AnthropicContentBlock[] = message.images.map((image) => ({
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: image.mimeType,
+        data: getBase64Data(image.dataUrl),
+      },
+    }));
+    if (message.content) {
+      blocks.push({ type: "text", text: message.content });
+    }
+    return blocks;
+  }
+
+  private toBlocks(
+    content: string | AnthropicContentBlock[]
+  ): AnthropicContentBlock[] {
+    return typeof content === "string"
+      ? [{ type: "text", text: content }]
+      : content;
+  }
+}
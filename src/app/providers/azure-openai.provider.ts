@@ -0,0 +1,54 @@
+import { OpenAIChatRequest } from "../models/chat.interface";
+import {
+  ChatProviderType,
+  ConnectionField,
+  ModelInfo,
+  ProviderChatRequest,
+  ProviderHttpRequest,
+} from "../models/provider.interface";
+import { OpenAiProvider } from "./openai.provider";
+
+export class AzureOpenAiProvider extends OpenAiProvider {
+  override readonly type: ChatProviderType = "azure-openai";
+  override readonly label: string = "Azure OpenAI";
+  override readonly connectionFields: ConnectionField[] = ["apiKey", "apiUrl"];
+
+  override buildRequest(request: ProviderChatRequest): ProviderHttpRequest {
+    const { model, ...body }: OpenAIChatRequest = {
+      model: request.model,
+      messages: this.toOpenAiMessages(request.messages),
+      stream: request.stream,
+      ...request.params,
+    };
+    const deployment = this.config.deployment || model;
+
+    return {
+      url: `${this.config.apiUrl}/openai/deployments/${encodeURIComponent(
+        deployment
+      )}/chat/completions?api-version=${this.config.apiVersion}`,
+      headers: this.createHeaders(),
+      body,
+    };
+  }
+
+  // Deployments are configured up front; listing them needs the management API.
+  override buildModelsRequest(): ProviderHttpRequest | null {
+    return null;
+  }
+
+  override parseModelsResponse(): ModelInfo[] {
+    return [];
+  }
+
+  protected override createHeaders(): { [name: string]: string } {
+    const headers: { [name: string]: string } = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.config.apiKey) {
+      headers["api-key"] = this.config.apiKey;
+    }
+
+    return headers;
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  ChatProviderType,
+  ConnectionField,
+  ModelInfo,
+} from "../models/provider.interface";
+import { inferModelCapabilities } from "../utils/model-capabilities";
+import { OpenAiProvider } from "./openai.provider";
+
+interface LlamaCppModelsResponse {
+  data?: { id: string; owned_by?: string; meta?: { n_ctx_train?: number } }[];
+}
+
+// llama.cpp's server exposes an OpenAI-compatible /v1/chat/completions route.
+export class LlamaCppProvider extends OpenAiProvider {
+  override readonly type: ChatProviderType = "llama-cpp";
+  override readonly label: string = "llama.cpp (local)";
+  // The server only checks a key when started with --api-key.
+  override readonly connectionFields: ConnectionField[] = ["apiUrl", "apiKey"];
+
+  override parseModelsResponse(response: LlamaCppModelsResponse): ModelInfo[] {
+    return (response.data || []).map((model) => ({
+      id: model.id,
+      provider: this.type,
+      ownedBy: model.owned_by,
+      ...inferModelCapabilities(model.id, {
+        contextLength: model.meta?.n_ctx_train,
+      }),
+    }));
+  }
+}
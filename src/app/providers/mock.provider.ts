@@ -0,0 +1,19 @@
+import {
+  ChatProviderType,
+  ConnectionField,
+} from "../models/provider.interface";
+import { OpenAiProvider } from "./openai.provider";
+
+export const MOCK_API_URL = "mock://local";
+
+// Speaks the OpenAI wire format; MockBackendService answers its requests
+// in-app, so nothing leaves the browser.
+export class MockProvider extends OpenAiProvider {
+  override readonly type: ChatProviderType = "mock";
+  override readonly label: string = "Mock (offline)";
+  override readonly connectionFields: ConnectionField[] = [];
+
+  constructor(model: string = "mock-model") {
+    super({ apiUrl: MOCK_API_URL, apiVersion: "v1", model });
+  }
+}
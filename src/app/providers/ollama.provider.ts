@@ -0,0 +1,165 @@
+import { OpenAIChatMessage } from "../models/chat.interface";
+import {
+  ChatProvider,
+  ChatProviderType,
+  ConnectionField,
+  ModelInfo,
+  ProviderChatRequest,
+  ProviderCompletion,
+  ProviderConfig,
+  ProviderConnection,
+  ProviderHttpRequest,
+  ProviderStreamDelta,
+  ProviderUsage,
+  StreamFormat,
+} from "../models/provider.interface";
+import { inferModelCapabilities } from "../utils/model-capabilities";
+import { getBase64Data } from "../utils/image-attachments";
+import { applyConnection } from "../utils/provider-connection";
+
+interface OllamaChatResponse {
+  model: string;
+  message?: { role: string; content: string };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaMessage {
+  role: OpenAIChatMessage["role"];
+  content: string;
+  // Raw base64, without the data: URL prefix.
+  images?: string[];
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string; details?: { families?: string[] | null } }[];
+}
+
+export class OllamaProvider implements ChatProvider {
+  readonly type: ChatProviderType = "ollama";
+  readonly label: string = "Ollama (local)";
+  readonly streamFormat: StreamFormat = "ndjson";
+  readonly connectionFields: ConnectionField[] = ["apiUrl"];
+  private readonly defaults: ProviderConfig = { ...this.config };
+
+  constructor(private config: ProviderConfig) {}
+
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  get defaultApiUrl(): string {
+    return this.defaults.apiUrl;
+  }
+
+  configure(connection: ProviderConnection): void {
+    this.config = applyConnection(this.defaults, connection);
+  }
+
+  buildRequest(request: ProviderChatRequest): ProviderHttpRequest {
+    const { params } = request;
+
+    return {
+      url: `${this.config.apiUrl}/api/chat`,
+      headers: { "Content-Type": "application/json" },
+      body: {
+        model: request.model,
+        messages: request.messages.map((message) =>
+          this.toOllamaMessage(message)
+        ),
+        stream: request.stream,
+        options: {
+          temperature: params.temperature,
+          top_p: params.top_p,
+          num_predict: params.max_tokens,
+          frequency_penalty: params.frequency_penalty,
+          presence_penalty: params.presence_penalty,
+          stop: params.stop
+            ? Array.isArray(params.stop)
+              ? params.stop
+              : [params.stop]
+            : undefined,
+        },
+      },
+    };
+  }
+
+  parseResponse(response: OllamaChatResponse): ProviderCompletion {
+    return {
+      content: response.message?.content || "",
+      model: response.model,
+      usage: this.toUsage(response),
+      finishReason: response.done_reason,
+    };
+  }
+
+  parseStreamEvent(data: string): ProviderStreamDelta | null {
+    const json = JSON.parse(data) as OllamaChatResponse;
+
+    if (json.error) {
+      return { error: json.error };
+    }
+
+    return {
+      content: json.message?.content || undefined,
+      model: json.model,
+      usage: json.done ? this.toUsage(json) : undefined,
+      finishReason: json.done ? json.done_reason || "stop" : undefined,
+      done: json.done,
+    };
+  }
+
+  buildModelsRequest(): ProviderHttpRequest | null {
+    return {
+      url: `${this.config.apiUrl}/api/tags`,
+      headers: {},
+      body: undefined,
+    };
+  }
+
+  parseModelsResponse(response: OllamaTagsResponse): ModelInfo[] {
+    return (response.models || []).map((model) => {
+      const families = model.details?.families || [];
+      // Multimodal models ship a CLIP (or mllama) projector.
+      const hasProjector = families.some((f) => f === "clip" || f === "mllama");
+
+      return {
+        id: model.name,
+        provider: this.type,
+        ...inferModelCapabilities(model.name, {
+          supportsVision: hasProjector || undefined,
+        }),
+      };
+    });
+  }
+
+  private toOllamaMessage({
+    images,
+    ...message
+  }: OpenAIChatMessage): OllamaMessage {
+    return images?.length
+      ? {
+          ...message,
+          images: images.map((image) => getBase64Data(image.dataUrl)),
+        }
+      : message;
+  }
+
+  private toUsage(response: OllamaChatResponse): ProviderUsage | undefined {
+    if (response.prompt_eval_count === undefined) {
+      return undefined;
+    }
+
+    const promptTokens = response.prompt_eval_count;
+    const completionTokens = response.eval_count || 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+}
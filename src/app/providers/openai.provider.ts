@@ -0,0 +1,171 @@
+import { environment } from "../../environments/environment";
+import {
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIRequestMessage,
+} from "../models/chat.interface";
+import {
+  ChatProvider,
+  ChatProviderType,
+  ConnectionField,
+  ModelInfo,
+  ProviderChatRequest,
+  ProviderCompletion,
+  ProviderConfig,
+  ProviderConnection,
+  ProviderHttpRequest,
+  ProviderStreamDelta,
+  StreamFormat,
+} from "../models/provider.interface";
+import { inferModelCapabilities } from "../utils/model-capabilities";
+import { applyConnection } from "../utils/provider-connection";
+
+interface OpenAIModelsResponse {
+  data?: { id: string; owned_by?: string }[];
+}
+
+export class OpenAiProvider implements ChatProvider {
+  readonly type: ChatProviderType = "openai";
+  readonly label: string = "OpenAI";
+  readonly streamFormat: StreamFormat = "sse";
+  readonly connectionFields: ConnectionField[] = [
+    "apiKey",
+    "apiUrl",
+    "organization",
+    "project",
+  ];
+  private readonly defaults: ProviderConfig = { ...this.config };
+
+  constructor(protected config: ProviderConfig) {}
+
+  get defaultModel(): string {
+    return this.config.model;
+  }
+
+  get defaultApiUrl(): string {
+    return this.defaults.apiUrl;
+  }
+
+  configure(connection: ProviderConnection): void {
+    this.config = applyConnection(this.defaults, connection);
+  }
+
+  buildRequest(request: ProviderChatRequest): ProviderHttpRequest {
+    const body: OpenAIChatRequest = {
+      model: request.model,
+      messages: this.toOpenAiMessages(request.messages),
+      stream: request.stream,
+      ...request.params,
+    };
+
+    return {
+      url: `${this.config.apiUrl}/${this.config.apiVersion}${environment.openai.endpoints.chat}`,
+      headers: this.createHeaders(),
+      body,
+    };
+  }
+
+  parseResponse(response: OpenAIChatResponse): ProviderCompletion {
+    return {
+      content: response.choices?.[0]?.message?.content || "",
+      model: response.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: response.choices?.[0]?.finish_reason,
+    };
+  }
+
+  parseStreamEvent(data: string): ProviderStreamDelta | null {
+    const json = JSON.parse(data);
+
+    if (json.error) {
+      return { error: json.error.message || "Stream error" };
+    }
+
+    return {
+      content: json.choices?.[0]?.delta?.content || undefined,
+      model: json.model,
+      usage: json.usage
+        ? {
+            promptTokens: json.usage.prompt_tokens,
+            completionTokens: json.usage.completion_tokens,
+            totalTokens: json.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: json.choices?.[0]?.finish_reason || undefined,
+    };
+  }
+
+  // Messages with images are sent as text and image_url content parts.
+  protected toOpenAiMessages(
+    messages: OpenAIChatMessage[]
+  ): OpenAIRequestMessage[] {
+    return messages.map(({ images, ...message }) =>
+      images?.length
+        ? {
+            ...message,
+            content: [
+              ...(message.content
+                ? [{ type: "text" as const, text: message.content }]
+                : []),
+              ...images.map((image) => ({
+                type: "image_url" as const,
+                image_url: { url: image.dataUrl },
+              })),
+            ],
+          }
+        : message
+    );
+  }
+
+  buildModelsRequest(): ProviderHttpRequest | null {
+    return {
+      url: `${this.config.apiUrl}/${this.config.apiVersion}${environment.openai.endpoints.models}`,
+      headers: this.createHeaders(),
+      body: undefined,
+    };
+  }
+
+  parseModelsResponse(response: OpenAIModelsResponse): ModelInfo[] {
+    return (response.data || [])
+      .filter((model) => this.isChatModel(model.id))
+      .map((model) => ({
+        id: model.id,
+        provider: this.type,
+        ownedBy: model.owned_by,
+        ...inferModelCapabilities(model.id),
+      }));
+  }
+
+  // The OpenAI list also contains embedding, audio and image models.
+  protected isChatModel(id: string): boolean {
+    return (
+      /^(gpt-|o\d|chatgpt-)/.test(id) &&
+      !/instruct|realtime|audio|transcribe|tts|search|image/.test(id)
+    );
+  }
+
+  protected createHeaders(): { [name: string]: string } {
+    const headers: { [name: string]: string } = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.config.apiKey) {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+    if (this.config.organization) {
+      headers["OpenAI-Organization"] = this.config.organization;
+    }
+    if (this.config.project) {
+      headers["OpenAI-Project"] = this.config.project;
+    }
+
+    return headers;
+  }
+}
@@ -1,21 +1,79 @@
 import { Injectable } from "@angular/core";
+import { HttpClient, HttpHeaders } from "@angular/common/http";
 import {
-  HttpClient,
-  HttpErrorResponse,
-  HttpHeaders,
-} from "@angular/common/http";
-import { BehaviorSubject, Observable, Subject, throwError } from "rxjs";
-import { catchError, finalize, map, retry, timeout } from "rxjs/operators";
+  BehaviorSubject,
+  Observable,
+  Subject,
+  Subscription,
+  fromEvent,
+  of,
+  throwError,
+} from "rxjs";
+import { fromFetch } from "rxjs/fetch";
+import {
+  catchError,
+  finalize,
+  map,
+  switchMap,
+  take,
+  takeUntil,
+} from "rxjs/operators";
 import { environment } from "../../environments/environment";
 import {
   ChatMessage,
   MessageSender,
-  OpenAIChatRequest,
-  OpenAIChatResponse,
-  OpenAIChatMessage,
   LoadingState,
   ErrorState,
+  ContextStrategy,
+  ContextSummary,
+  ContextWindow,
+  MessageAttachment,
+  TitleSettings,
 } from "../models/chat.interface";
+import {
+  ChatProvider,
+  ChatProviderType,
+  GenerationParams,
+  ModelInfo,
+  ProviderCompletion,
+  ProviderHttpRequest,
+  ProviderStreamDelta,
+} from "../models/provider.interface";
+import { ProviderRegistryService } from "./provider-registry.service";
+import { PricingService } from "./pricing.service";
+import { UsageLedgerService } from "./usage-ledger.service";
+import { SettingsService } from "./settings.service";
+import { MockBackendService } from "./mock-backend.service";
+import { UsageKind } from "../models/usage.interface";
+import {
+  ContextBuildOptions,
+  ContextBuilderService,
+} from "./context-builder.service";
+import {
+  NdjsonParser,
+  SseParser,
+  StreamEvent,
+  StreamParser,
+} from "../utils/sse-parser";
+import {
+  AiRequestError,
+  ResiliencePolicy,
+  classifyAiError,
+  createHttpError,
+  withResilience,
+} from "../utils/request-resilience";
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  renderPromptTemplate,
+} from "../utils/prompt-template";
+import { countTokens } from "../utils/token-counter";
+import { inferModelCapabilities } from "../utils/model-capabilities";
+import { normalizeGenerationParams } from "../utils/generation-params";
+import {
+  GeneratedTitle,
+  buildTitlePrompt,
+  parseTitleResponse,
+} from "../utils/conversation-title";
 import { v4 as uuidv4 } from "uuid";
 
 @Injectable({
@@ -27,22 +85,62 @@ export class AiService {
   });
   private errorState = new BehaviorSubject<ErrorState>({ hasError: false });
   private tokenUsage = new BehaviorSubject<number>(0);
+  private sessionCost = new BehaviorSubject<number>(0);
+  private cancelRequest$ = new Subject<void>();
+  private contextState = new BehaviorSubject<ContextWindow | null>(null);
+  private contextSummarySubject = new Subject<ContextSummary>();
 
   public loading$ = this.loadingState.asObservable();
   public error$ = this.errorState.asObservable();
   public tokenUsage$ = this.tokenUsage.asObservable();
+  public sessionCost$ = this.sessionCost.asObservable();
+  public context$ = this.contextState.asObservable();
+  public contextSummary$ = this.contextSummarySubject.asObservable();
 
-  private apiUrl = `${environment.openai.apiUrl}/${environment.openai.apiVersion}`;
-  private defaultModel = environment.openai.model;
-  private defaultParams = environment.openai.defaultParams;
-  private apiKey = environment.openai.apiKey;
+  private provider: ChatProvider;
+  private defaultModel: string;
+  private defaultParams: GenerationParams = environment.openai.defaultParams;
+  private generationParams: GenerationParams = {};
+  private requestParams: GenerationParams | undefined;
+  private systemPrompt: string | undefined;
+  private contextConfig = environment.openai.context;
+  private contextStrategy = this.contextConfig.strategy as ContextStrategy;
+  private contextSummary: ContextSummary | undefined;
+  private requestConversationId: string | undefined;
+  private modelCatalog = new Map<
+    ChatProviderType,
+    { models: ModelInfo[]; fetchedAt: number }
+  >();
+  private readonly MODEL_CATALOG_KEY = environment.storage.modelCatalog;
+  private readonly MODEL_CATALOG_TTL = environment.openai.modelCatalogTtl;
+  private titleConfig = environment.openai.titles;
   private timeout = environment.openai.timeout;
   private retryConfig = environment.openai.retry;
+  private resiliencePolicy: ResiliencePolicy = {
+    timeout: this.timeout,
+    attempts: this.retryConfig.attempts,
+    delay: this.retryConfig.delay,
+    maxDelay: this.retryConfig.maxDelay,
+  };
+
+  constructor(
+    private http: HttpClient,
+    private providerRegistry: ProviderRegistryService,
+    private contextBuilder: ContextBuilderService,
+    private pricing: PricingService,
+    private usageLedger: UsageLedgerService,
+    private settings: SettingsService,
+    private mockBackend: MockBackendService
+  ) {
+    this.provider = this.providerRegistry.get(
+      this.providerRegistry.defaultProviderType
+    );
+    this.loadModelCatalog();
+    this.defaultModel = this.getDefaultModel();
 
-  constructor(private http: HttpClient) {
     if (!environment.production && environment.debug?.enabled) {
       console.log("AI Service initialized with config:", {
-        apiUrl: this.apiUrl,
+        provider: this.provider.type,
         model: this.defaultModel,
         timeout: this.timeout,
         retry: this.retryConfig,
@@ -53,69 +151,313 @@ export class AiService {
   public sendMessage(
     userMessage: string,
     conversationHistory: ChatMessage[] = [],
-    streamResponse: boolean = false
+    streamResponse: boolean = false,
+    conversationId?: string,
+    attachments: MessageAttachment[] = []
   ): Observable<ChatMessage> {
-    this.setLoading(true, "Generating AI response...");
+    const budget = this.usageLedger.checkBudget();
+    if (budget.level === "hard") {
+      return this.handleError(
+        new AiRequestError(
+          budget.message || "Budget exceeded.",
+          "budget",
+          undefined,
+          undefined,
+          budget
+        )
+      );
+    }
+
+    this.requestConversationId = conversationId;
+    const params = this.getGenerationParams();
+    this.requestParams = params;
+    this.setLoading(true, "Generating AI response...", undefined, true);
     this.clearError();
 
-    const messages = this.formatConversationForApi(
-      conversationHistory,
-      userMessage
+    return this.buildContext(
+      this.limitHistory(conversationHistory),
+      userMessage,
+      params,
+      attachments
+    ).pipe(
+      switchMap((context) => {
+        this.contextState.next(context);
+        this.setLoading(true, "Generating AI response...", undefined, true);
+
+        const request = this.provider.buildRequest({
+          model: this.defaultModel,
+          messages: context.messages,
+          stream: streamResponse,
+          params,
+        });
+
+        if (streamResponse) {
+          return this.streamChatCompletion(request);
+        } else {
+          return this.getChatCompletion(request);
+        }
+      })
     );
+  }
 
-    const requestPayload: OpenAIChatRequest = {
+  // Applies the history length setting before the context window is fitted.
+  private limitHistory(history: ChatMessage[]): ChatMessage[] {
+    const maxLength = this.settings.get().maxHistoryLength;
+    if (!maxLength || history.length <= maxLength) {
+      return history;
+    }
+
+    const cutoff = history.length - maxLength;
+    return history.filter(
+      (message, index) => index >= cutoff || message.isPinned
+    );
+  }
+
+  /**
+   * The context the next message would be sent with, without summarizing
+   * or sending anything; used to warn about large attachments up front.
+   */
+  public previewContext(
+    conversationHistory: ChatMessage[],
+    userMessage: string,
+    attachments: MessageAttachment[] = []
+  ): ContextWindow {
+    return this.contextBuilder.build(
+      this.limitHistory(conversationHistory),
+      userMessage,
+      this.getContextOptions(this.getGenerationParams()),
+      attachments
+    );
+  }
+
+  private getContextOptions(params: GenerationParams): ContextBuildOptions {
+    const modelInfo = this.getModelInfo();
+    return {
       model: this.defaultModel,
-      messages,
-      stream: streamResponse,
-      ...this.defaultParams,
+      maxTokens: params.max_tokens || 0,
+      contextWindow: modelInfo.contextLength,
+      strategy: this.contextStrategy,
+      systemPrompt: this.getRenderedSystemPrompt(),
+      summary: this.contextSummary,
+      supportsVision: modelInfo.supportsVision,
     };
+  }
+
+  private buildContext(
+    history: ChatMessage[],
+    userMessage: string,
+    params: GenerationParams,
+    attachments: MessageAttachment[]
+  ): Observable<ContextWindow> {
+    const options = this.getContextOptions(params);
+    const context = this.contextBuilder.build(
+      history,
+      userMessage,
+      options,
+      attachments
+    );
+
+    if (this.contextStrategy !== "summarize" || !context.droppedIds.length) {
+      return of(context);
+    }
+
+    const turns = this.contextBuilder.selectTurnsToSummarize(
+      history,
+      context,
+      this.defaultModel
+    );
+    if (!turns.length) {
+      return of(context);
+    }
+
+    this.setLoading(true, "Summarizing earlier messages...", undefined, true);
+
+    return this.requestSummary(turns).pipe(
+      map((content) => {
+        const summary: ContextSummary = {
+          content,
+          upToMessageId: turns[turns.length - 1].id,
+          createdAt: Date.now(),
+        };
+        this.contextSummary = summary;
+        this.contextSummarySubject.next(summary);
+        return this.contextBuilder.build(
+          history,
+          userMessage,
+          { ...options, summary },
+          attachments
+        );
+      }),
+      catchError((error) => {
+        console.warn(
+          "Failed to summarize earlier messages, dropping them instead:",
+          error
+        );
+        return of(context);
+      })
+    );
+  }
+
+  private requestSummary(turns: ChatMessage[]): Observable<string> {
+    const provider = this.provider;
+    const request = provider.buildRequest({
+      model: this.defaultModel,
+      messages: this.contextBuilder.buildSummaryPrompt(
+        turns,
+        this.contextSummary,
+        {
+          model: this.defaultModel,
+          maxTokens: this.contextConfig.summaryMaxTokens,
+        }
+      ),
+      stream: false,
+      params: {
+        ...this.defaultParams,
+        temperature: 0.2,
+        max_tokens: this.contextConfig.summaryMaxTokens,
+      },
+    });
+
+    const startTime = Date.now();
+
+    return this.post(provider, request).pipe(
+      withResilience(this.resiliencePolicy),
+      takeUntil(this.cancelRequest$),
+      map((response) => {
+        const completion = provider.parseResponse(response);
+        this.recordAuxiliaryUsage(
+          "summary",
+          provider,
+          completion,
+          startTime,
+          this.requestConversationId
+        );
+
+        const content = completion.content.trim();
+        if (!content) {
+          throw new Error("Summary response was empty");
+        }
+        return content;
+      })
+    );
+  }
+
+  /**
+   * Asks for a short title (and tags, when enabled) for the opening exchange
+   * of a conversation. Runs in the background: it does not touch the loading
+   * state and is not cancelled by stopping a reply.
+   */
+  public generateTitle(
+    exchange: ChatMessage[],
+    conversationId: string
+  ): Observable<GeneratedTitle> {
+    if (this.usageLedger.checkBudget().level === "hard") {
+      return throwError(() => new Error("Budget exceeded."));
+    }
+
+    const provider = this.provider;
+    const titleSettings = this.getTitleSettings();
+    const model = titleSettings.model || this.defaultModel;
+    const request = provider.buildRequest({
+      model,
+      messages: buildTitlePrompt(exchange, titleSettings.autoTag),
+      stream: false,
+      params: {
+        temperature: 0.3,
+        max_tokens: this.titleConfig.maxTokens,
+      },
+    });
+    const startTime = Date.now();
+
+    return this.post(provider, request).pipe(
+      withResilience(this.resiliencePolicy),
+      map((response) => {
+        const completion = provider.parseResponse(response);
+        this.recordAuxiliaryUsage(
+          "title",
+          provider,
+          completion,
+          startTime,
+          conversationId
+        );
+
+        const generated = parseTitleResponse(completion.content);
+        if (!generated.title) {
+          throw new Error("Title response was empty");
+        }
+        return generated;
+      })
+    );
+  }
 
-    const headers = this.createHeaders();
+  // Usage for requests made on the app's behalf rather than for a reply.
+  private recordAuxiliaryUsage(
+    kind: UsageKind,
+    provider: ChatProvider,
+    completion: ProviderCompletion,
+    startTime: number,
+    conversationId: string | undefined
+  ): void {
+    const model = completion.model || this.defaultModel;
+    const promptTokens = completion.usage?.promptTokens || 0;
+    const completionTokens = completion.usage?.completionTokens || 0;
+    const totalTokens =
+      completion.usage?.totalTokens || promptTokens + completionTokens;
+    const cost = this.pricing.calculateCost(
+      model,
+      promptTokens,
+      completionTokens,
+      provider.type
+    );
 
-    if (streamResponse) {
-      return this.streamChatCompletion(requestPayload, headers);
-    } else {
-      return this.getChatCompletion(requestPayload, headers);
+    this.updateTokenUsage(totalTokens);
+    if (cost) {
+      this.sessionCost.next(this.sessionCost.getValue() + cost.totalCost);
     }
+    this.usageLedger.record({
+      kind,
+      conversationId,
+      provider: provider.type,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      cost: cost?.totalCost,
+      latency: Date.now() - startTime,
+    });
   }
 
   private getChatCompletion(
-    requestPayload: OpenAIChatRequest,
-    headers: HttpHeaders
+    request: ProviderHttpRequest
   ): Observable<ChatMessage> {
     const startTime = Date.now();
+    const provider = this.provider;
 
-    return this.http
-      .post<OpenAIChatResponse>(
-        `${this.apiUrl}${environment.openai.endpoints.chat}`,
-        requestPayload,
-        { headers }
-      )
-      .pipe(
-        timeout(this.timeout),
-        retry({
-          count: this.retryConfig.attempts,
-          delay: this.retryConfig.delay,
-          resetOnSuccess: true,
-        }),
-        map((response) => {
-          if (response.usage) {
-            this.updateTokenUsage(response.usage.total_tokens);
-          }
-          const processingTime = Date.now() - startTime;
-          return this.formatApiResponseToMessage(response, processingTime);
-        }),
-        catchError((error) => this.handleError(error)),
-        finalize(() => this.setLoading(false))
-      );
+    return this.post(provider, request).pipe(
+      withResilience(this.resiliencePolicy),
+      takeUntil(this.cancelRequest$),
+      map((response) => {
+        const completion = provider.parseResponse(response);
+        if (completion.usage?.totalTokens) {
+          this.updateTokenUsage(completion.usage.totalTokens);
+        }
+        const processingTime = Date.now() - startTime;
+        return this.formatApiResponseToMessage(completion, processingTime);
+      }),
+      catchError((error) => this.handleError(error)),
+      finalize(() => this.setLoading(false))
+    );
   }
 
   private streamChatCompletion(
-    requestPayload: OpenAIChatRequest,
-    headers: HttpHeaders
+    request: ProviderHttpRequest
   ): Observable<ChatMessage> {
     const responseSubject = new Subject<ChatMessage>();
     const startTime = Date.now();
+    const abortController = new AbortController();
+    const cancelSubscription = this.cancelRequest$
+      .pipe(take(1))
+      .subscribe(() => abortController.abort());
 
     let accumulatedMessage: ChatMessage = {
       id: uuidv4(),
@@ -125,183 +467,457 @@ export class AiService {
       isPending: true,
     };
 
-    this.setupStreamingRequest(
-      requestPayload,
-      headers,
+    const requestSubscription = this.setupStreamingRequest(
+      request,
+      this.provider,
       accumulatedMessage,
       responseSubject,
-      startTime
+      startTime,
+      abortController.signal
     );
 
-    return responseSubject.asObservable();
+    return responseSubject.asObservable().pipe(
+      finalize(() => {
+        cancelSubscription.unsubscribe();
+        abortController.abort();
+        requestSubscription.unsubscribe();
+      })
+    );
   }
 
   private setupStreamingRequest(
-    requestPayload: OpenAIChatRequest,
-    headers: HttpHeaders,
+    request: ProviderHttpRequest,
+    provider: ChatProvider,
     accumulatedMessage: ChatMessage,
     responseSubject: Subject<ChatMessage>,
-    startTime: number
-  ): void {
-    fetch(`${this.apiUrl}${environment.openai.endpoints.chat}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify(requestPayload),
-    })
-      .then((response) => {
-        if (!response.ok)
-          throw new Error(`HTTP error! status: ${response.status}`);
-        if (!response.body) throw new Error("Response body is null");
+    startTime: number,
+    signal: AbortSignal
+  ): Subscription {
+    const streamParser: StreamParser =
+      provider.streamFormat === "sse" ? new SseParser() : new NdjsonParser();
+    let opened = false;
+
+    const handleFailure = (error: any) => {
+      const classified = classifyAiError(error);
+      if (classified.code === "cancelled") {
+        this.completeStream(
+          accumulatedMessage,
+          responseSubject,
+          provider,
+          startTime,
+          "cancelled"
+        );
+        return;
+      }
+      console.error("Error reading stream:", error);
+      this.handleStreamingError(
+        classified,
+        accumulatedMessage,
+        responseSubject,
+        provider,
+        startTime
+      );
+      this.setLoading(false);
+    };
+
+    return this.openStream(request, provider, signal).subscribe({
+      next: (response) => {
+        opened = true;
+        if (!response.body) {
+          handleFailure(new Error("Response body is null"));
+          return;
+        }
 
         const reader = response.body.getReader();
-        const decoder = new TextDecoder("utf-8");
+        signal.addEventListener(
+          "abort",
+          () => reader.cancel().catch(() => undefined),
+          { once: true }
+        );
 
         const readStream = () => {
-          reader
-            .read()
+          this.readWithTimeout(reader)
             .then(({ done, value }) => {
-              if (done) {
-                accumulatedMessage.isPending = false;
-                accumulatedMessage.metadata = {
-                  ...accumulatedMessage.metadata,
-                  processingTime: Date.now() - startTime,
-                  model: this.defaultModel,
-                };
-                responseSubject.next({ ...accumulatedMessage });
-                responseSubject.complete();
-                this.setLoading(false);
+              if (signal.aborted) {
+                handleFailure(this.createCancelledError());
                 return;
               }
 
-              const chunk = decoder.decode(value);
-              const lines = chunk
-                .split("\n")
-                .filter(
-                  (line) => line.trim() !== "" && line.trim() !== "data: [DONE]"
-                );
+              const events = done
+                ? streamParser.flush()
+                : streamParser.feed(value);
+              const finished =
+                this.processStreamEvents(
+                  events,
+                  provider,
+                  accumulatedMessage,
+                  responseSubject
+                ) || streamParser.done;
 
-              for (const line of lines) {
-                try {
-                  const jsonStr = line.replace(/^data: /, "").trim();
-                  if (jsonStr) {
-                    const json = JSON.parse(jsonStr);
-
-                    if (json.choices && json.choices[0]?.delta?.content) {
-                      accumulatedMessage.content +=
-                        json.choices[0].delta.content;
-                      responseSubject.next({ ...accumulatedMessage });
-                    }
-
-                    if (json.usage) {
-                      this.updateTokenUsage(json.usage.total_tokens);
-                      accumulatedMessage.metadata = {
-                        ...accumulatedMessage.metadata,
-                        totalTokens: json.usage.total_tokens,
-                        promptTokens: json.usage.prompt_tokens,
-                        completionTokens: json.usage.completion_tokens,
-                      };
-                    }
-
-                    if (json.choices && json.choices[0]?.finish_reason) {
-                      accumulatedMessage.metadata = {
-                        ...accumulatedMessage.metadata,
-                        finishReason: json.choices[0].finish_reason,
-                      };
-                    }
-                  }
-                } catch (e) {
-                  console.error("Error parsing streaming response:", e);
+              if (done || finished) {
+                if (!done) {
+                  reader.cancel().catch(() => undefined);
                 }
+                this.completeStream(
+                  accumulatedMessage,
+                  responseSubject,
+                  provider,
+                  startTime
+                );
+                return;
               }
 
               readStream();
             })
             .catch((error) => {
-              console.error("Error reading stream:", error);
-              this.handleStreamingError(error, responseSubject);
-              this.setLoading(false);
+              reader.cancel().catch(() => undefined);
+              handleFailure(
+                signal.aborted ? this.createCancelledError() : error
+              );
             });
         };
 
         readStream();
-      })
-      .catch((error) => {
-        console.error("Error fetching stream:", error);
-        this.handleStreamingError(error, responseSubject);
-        this.setLoading(false);
-      });
+      },
+      error: handleFailure,
+      complete: () => {
+        // Completing without a response means the request was cancelled.
+        if (!opened) {
+          handleFailure(this.createCancelledError());
+        }
+      },
+    });
   }
 
-  private handleStreamingError(
-    error: any,
-    subject: Subject<ChatMessage>
+  // The mock provider is answered in-app instead of over the network.
+  private post(
+    provider: ChatProvider,
+    request: ProviderHttpRequest
+  ): Observable<unknown> {
+    return provider.type === "mock"
+      ? this.mockBackend.post(request)
+      : this.http.post<unknown>(request.url, request.body, {
+          headers: new HttpHeaders(request.headers),
+        });
+  }
+
+  private openStream(
+    request: ProviderHttpRequest,
+    provider: ChatProvider,
+    signal: AbortSignal
+  ): Observable<Response> {
+    const response$ =
+      provider.type === "mock"
+        ? this.mockBackend.stream(request)
+        : fromFetch(request.url, {
+            method: "POST",
+            headers: request.headers,
+            body: JSON.stringify(request.body),
+            signal,
+          });
+
+    return response$.pipe(
+      switchMap((response) =>
+        response.ok ? of(response) : this.toHttpError(response)
+      ),
+      withResilience<Response>(this.resiliencePolicy),
+      takeUntil(fromEvent(signal, "abort"))
+    );
+  }
+
+  private async toHttpError(response: Response): Promise<never> {
+    let body: any;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+
+    throw createHttpError(
+      response.status,
+      body?.error?.message || body?.message || response.statusText,
+      response.headers.get("Retry-After"),
+      body
+    );
+  }
+
+  private createCancelledError(): AiRequestError {
+    return new AiRequestError("Request cancelled.", "cancelled");
+  }
+
+  private readWithTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>
+  ): Promise<ReadableStreamReadResult<Uint8Array>> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new AiRequestError(
+              "Request timed out. Please try again.",
+              "timeout"
+            )
+          ),
+        this.timeout
+      );
+    });
+
+    return Promise.race([reader.read(), timeoutPromise]).finally(() =>
+      clearTimeout(timer)
+    );
+  }
+
+  private processStreamEvents(
+    events: StreamEvent[],
+    provider: ChatProvider,
+    accumulatedMessage: ChatMessage,
+    responseSubject: Subject<ChatMessage>
+  ): boolean {
+    for (const event of events) {
+      if (event.event === "error") {
+        throw new Error(this.getStreamErrorMessage(event.data));
+      }
+
+      let delta: ProviderStreamDelta | null;
+      try {
+        delta = provider.parseStreamEvent(event.data, event.event);
+      } catch (e) {
+        console.error("Error parsing streaming response:", e);
+        continue;
+      }
+
+      if (!delta) continue;
+
+      if (delta.error) {
+        throw new Error(delta.error);
+      }
+
+      this.applyStreamDelta(delta, accumulatedMessage, responseSubject);
+
+      if (delta.done) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private getStreamErrorMessage(data: string): string {
+    try {
+      const json = JSON.parse(data);
+      return json.error?.message || json.message || data;
+    } catch {
+      return data || "Stream error";
+    }
+  }
+
+  private completeStream(
+    accumulatedMessage: ChatMessage,
+    responseSubject: Subject<ChatMessage>,
+    provider: ChatProvider,
+    startTime: number,
+    finishReason?: string
   ): void {
-    const errorMessage: ChatMessage = {
-      id: uuidv4(),
-      sender: MessageSender.SYSTEM,
-      content: `Error: ${this.getErrorMessage(error)}`,
-      timestamp: Date.now(),
-      isError: true,
+    // A generation cancelled before the first token leaves nothing to keep.
+    if (finishReason !== "cancelled" || accumulatedMessage.content) {
+      this.finalizeStreamedMessage(
+        accumulatedMessage,
+        responseSubject,
+        provider,
+        startTime,
+        finishReason
+      );
+    }
+
+    responseSubject.complete();
+    this.setLoading(false);
+  }
+
+  // Emits the last state of the reply under its own id, no longer pending.
+  private finalizeStreamedMessage(
+    accumulatedMessage: ChatMessage,
+    responseSubject: Subject<ChatMessage>,
+    provider: ChatProvider,
+    startTime: number,
+    finishReason?: string
+  ): void {
+    accumulatedMessage.isPending = false;
+    accumulatedMessage.metadata = {
+      ...accumulatedMessage.metadata,
+      processingTime: Date.now() - startTime,
+      model: accumulatedMessage.metadata?.model || this.defaultModel,
+      provider: provider.type,
+      params: this.requestParams,
     };
+    if (finishReason) {
+      accumulatedMessage.metadata.finishReason = finishReason;
+    }
+    this.accountForUsage(accumulatedMessage, provider);
+    responseSubject.next({ ...accumulatedMessage });
+  }
+
+  private applyStreamDelta(
+    delta: ProviderStreamDelta,
+    accumulatedMessage: ChatMessage,
+    responseSubject: Subject<ChatMessage>
+  ): void {
+    if (delta.content) {
+      accumulatedMessage.content += delta.content;
+      responseSubject.next({ ...accumulatedMessage });
+    }
 
-    this.setError(true, this.getErrorMessage(error), error);
-    subject.next(errorMessage);
-    subject.complete();
+    if (delta.model) {
+      accumulatedMessage.metadata = {
+        ...accumulatedMessage.metadata,
+        model: delta.model,
+      };
+    }
+
+    if (delta.usage) {
+      const metadata = accumulatedMessage.metadata || {};
+      const promptTokens = delta.usage.promptTokens ?? metadata.promptTokens;
+      const completionTokens =
+        delta.usage.completionTokens ?? metadata.completionTokens;
+
+      accumulatedMessage.metadata = {
+        ...metadata,
+        promptTokens,
+        completionTokens,
+      };
+
+      // Some providers report prompt and completion usage in separate events.
+      if (
+        delta.usage.totalTokens !== undefined ||
+        delta.usage.completionTokens !== undefined
+      ) {
+        const totalTokens =
+          delta.usage.totalTokens ??
+          (promptTokens || 0) + (completionTokens || 0);
+        this.updateTokenUsage(totalTokens - (metadata.totalTokens || 0));
+        accumulatedMessage.metadata.totalTokens = totalTokens;
+      }
+    }
+
+    if (delta.finishReason) {
+      accumulatedMessage.metadata = {
+        ...accumulatedMessage.metadata,
+        finishReason: delta.finishReason,
+      };
+    }
   }
 
-  private formatConversationForApi(
-    history: ChatMessage[],
-    newUserMessage: string
-  ): OpenAIChatMessage[] {
-    const formattedMessages: OpenAIChatMessage[] = [
-      {
-        role: "system",
-        content:
-          "You are a helpful AI assistant. Provide concise, accurate, and helpful responses.",
-      },
-    ];
+  /**
+   * Keeps what arrived before the failure as a finished reply, then fails
+   * the stream like a non-streaming request: the error is reported once,
+   * through error$.
+   */
+  private handleStreamingError(
+    error: any,
+    accumulatedMessage: ChatMessage,
+    subject: Subject<ChatMessage>,
+    provider: ChatProvider,
+    startTime: number
+  ): void {
+    const aiError = classifyAiError(error);
 
-    for (const message of history) {
-      if (message.sender === MessageSender.SYSTEM || message.isError) continue;
-      const role = message.sender === MessageSender.USER ? "user" : "assistant";
-      formattedMessages.push({ role, content: message.content });
+    if (accumulatedMessage.content) {
+      this.finalizeStreamedMessage(
+        accumulatedMessage,
+        subject,
+        provider,
+        startTime,
+        "error"
+      );
     }
 
-    formattedMessages.push({ role: "user", content: newUserMessage });
+    this.setError(
+      true,
+      aiError.message,
+      aiError,
+      aiError.code,
+      aiError.retryable
+    );
+    subject.error(aiError);
+  }
 
-    return formattedMessages;
+  private getRenderedSystemPrompt(): string {
+    return renderPromptTemplate(this.systemPrompt ?? DEFAULT_SYSTEM_PROMPT, {
+      model: this.defaultModel,
+      provider: this.provider.type,
+    }).trim();
   }
 
   private formatApiResponseToMessage(
-    response: OpenAIChatResponse,
+    completion: ProviderCompletion,
     processingTime: number
   ): ChatMessage {
-    const content =
-      response.choices[0]?.message?.content || "No response content";
+    const content = completion.content || "No response content";
 
-    return {
+    const message: ChatMessage = {
       id: uuidv4(),
       sender: MessageSender.AI,
       content,
       timestamp: Date.now(),
       metadata: {
-        model: response.model,
+        model: completion.model || this.defaultModel,
+        provider: this.provider.type,
         processingTime,
-        promptTokens: response.usage?.prompt_tokens,
-        completionTokens: response.usage?.completion_tokens,
-        totalTokens: response.usage?.total_tokens,
-        finishReason: response.choices[0]?.finish_reason,
+        promptTokens: completion.usage?.promptTokens,
+        completionTokens: completion.usage?.completionTokens,
+        totalTokens: completion.usage?.totalTokens,
+        finishReason: completion.finishReason,
+        params: this.requestParams,
       },
     };
+
+    this.accountForUsage(message, this.provider);
+    return message;
   }
 
-  private createHeaders(): HttpHeaders {
-    return new HttpHeaders({
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${this.apiKey}`,
+  private accountForUsage(message: ChatMessage, provider: ChatProvider): void {
+    const metadata = { ...message.metadata };
+    const model = metadata.model || this.defaultModel;
+    let { promptTokens, completionTokens } = metadata;
+
+    // Cancelled streams and some providers report no usage; estimate locally.
+    if (promptTokens === undefined || completionTokens === undefined) {
+      promptTokens ??= this.contextState.getValue()?.promptTokens ?? 0;
+      completionTokens ??= countTokens(message.content, model);
+      const totalTokens = promptTokens + completionTokens;
+      this.updateTokenUsage(totalTokens - (metadata.totalTokens || 0));
+      metadata.promptTokens = promptTokens;
+      metadata.completionTokens = completionTokens;
+      metadata.totalTokens = totalTokens;
+      metadata.usageEstimated = true;
+    }
+
+    const cost = this.pricing.calculateCost(
+      model,
+      promptTokens,
+      completionTokens,
+      provider.type
+    );
+    if (cost) {
+      metadata.promptCost = cost.promptCost;
+      metadata.completionCost = cost.completionCost;
+      metadata.cost = cost.totalCost;
+      this.sessionCost.next(this.sessionCost.getValue() + cost.totalCost);
+    }
+
+    message.metadata = metadata;
+
+    this.usageLedger.record({
+      kind: "chat",
+      conversationId: this.requestConversationId,
+      provider: provider.type,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: metadata.totalTokens ?? promptTokens + completionTokens,
+      cost: cost?.totalCost,
+      latency: metadata.processingTime || 0,
+      estimated: metadata.usageEstimated,
     });
   }
 
@@ -319,13 +935,14 @@ export class AiService {
   private setLoading(
     isLoading: boolean,
     message?: string,
-    progress?: number
+    progress?: number,
+    cancelable: boolean = false
   ): void {
     this.loadingState.next({
       isLoading,
       loadingMessage: message,
       progress,
-      cancelable: false,
+      cancelable,
     });
   }
 
@@ -333,14 +950,15 @@ export class AiService {
     hasError: boolean,
     message?: string,
     details?: any,
-    code?: string
+    code?: string,
+    retryable: boolean = true
   ): void {
     this.errorState.next({
       hasError,
       errorMessage: message,
       errorDetails: details,
       errorCode: code,
-      retryable: true,
+      retryable,
     });
 
     if (!environment.production && environment.debug?.enabled && hasError) {
@@ -353,44 +971,225 @@ export class AiService {
   }
 
   private handleError(error: any): Observable<never> {
-    let errorMessage = this.getErrorMessage(error);
-    this.setError(true, errorMessage, error);
-    return throwError(() => new Error(errorMessage));
-  }
-
-  private getErrorMessage(error: any): string {
-    if (error instanceof HttpErrorResponse) {
-      if (error.status === 0)
-        return "Network error. Please check your internet connection.";
-      if (error.status === 401)
-        return "Authentication error. Please check your API key.";
-      if (error.status === 429)
-        return "Rate limit exceeded. Please try again later.";
-      if (error.status === 500) return "Server error. Please try again later.";
-      return `HTTP error ${error.status}: ${error.message}`;
-    } else if (error instanceof Error) {
-      if (error.message.includes("timeout")) {
-        return "Request timed out. Please try again.";
-      } else {
-        return error.message;
-      }
-    } else {
-      return "An unknown error occurred.";
+    const aiError = classifyAiError(error);
+    this.setError(
+      true,
+      aiError.message,
+      aiError,
+      aiError.code,
+      aiError.retryable
+    );
+    return throwError(() => aiError);
+  }
+
+  public cancelGeneration(): boolean {
+    const loadingState = this.loadingState.getValue();
+
+    if (!loadingState.isLoading || !loadingState.cancelable) {
+      return false;
     }
+
+    this.cancelRequest$.next();
+    this.setLoading(false);
+    return true;
   }
 
   public reset(): void {
     this.setLoading(false);
     this.clearError();
     this.tokenUsage.next(0);
+    this.sessionCost.next(0);
+    this.contextState.next(null);
+  }
+
+  public getCurrentProvider(): ChatProviderType {
+    return this.provider.type;
+  }
+
+  public getAvailableProviders(): ChatProvider[] {
+    return this.providerRegistry.list();
+  }
+
+  public getDefaultProvider(): ChatProviderType {
+    return this.providerRegistry.defaultProviderType;
+  }
+
+  public setProvider(type: ChatProviderType): void {
+    if (type === this.provider.type) return;
+
+    this.provider = this.providerRegistry.get(type);
+    this.defaultModel = this.getDefaultModel();
+  }
+
+  public getDefaultParams(): GenerationParams {
+    return this.defaultParams;
+  }
+
+  public getGenerationParams(): GenerationParams {
+    return { ...this.defaultParams, ...this.generationParams };
+  }
+
+  public setGenerationParams(overrides: GenerationParams | undefined): void {
+    this.generationParams = normalizeGenerationParams(overrides || {});
+  }
+
+  // The model chosen in settings applies to the default provider only, and
+  // only while the provider still lists it.
+  public getDefaultModel(): string {
+    const preferred = this.settings.get().defaultModel;
+    const catalog = this.modelCatalog.get(this.provider.type);
+
+    return preferred &&
+      this.provider.type === this.providerRegistry.defaultProviderType &&
+      (!catalog || catalog.models.some((m) => m.id === preferred))
+      ? preferred
+      : this.provider.defaultModel;
   }
 
   public getCurrentModel(): string {
     return this.defaultModel;
   }
 
-  public setModel(model: string): void {
+  public setModel(model: string): boolean {
+    const catalog = this.modelCatalog.get(this.provider.type);
+
+    if (catalog && !catalog.models.some((m) => m.id === model)) {
+      return false;
+    }
+
     this.defaultModel = model;
+    return true;
+  }
+
+  public getModelInfo(model: string = this.defaultModel): ModelInfo {
+    const known = this.modelCatalog
+      .get(this.provider.type)
+      ?.models.find((m) => m.id === model);
+
+    return (
+      known || {
+        id: model,
+        provider: this.provider.type,
+        ...inferModelCapabilities(model),
+      }
+    );
+  }
+
+  public getCachedModels(): ModelInfo[] {
+    return (
+      this.modelCatalog.get(this.provider.type)?.models || [
+        this.getModelInfo(this.provider.defaultModel),
+      ]
+    );
+  }
+
+  public getModels(forceRefresh: boolean = false): Observable<ModelInfo[]> {
+    const provider = this.provider;
+    const cached = this.modelCatalog.get(provider.type);
+
+    if (
+      cached &&
+      !forceRefresh &&
+      Date.now() - cached.fetchedAt < this.MODEL_CATALOG_TTL
+    ) {
+      return of(cached.models);
+    }
+
+    const request = provider.buildModelsRequest();
+    if (!request) {
+      return of(this.getCachedModels());
+    }
+
+    return (
+      provider.type === "mock"
+        ? this.mockBackend.get()
+        : this.http.get<unknown>(request.url, {
+            headers: new HttpHeaders(request.headers),
+          })
+    ).pipe(
+      withResilience(this.resiliencePolicy),
+      map((response) => {
+        const models = provider
+          .parseModelsResponse(response)
+          .sort((a, b) => a.id.localeCompare(b.id));
+
+        // Keep the configured default selectable even if it is not listed.
+        if (!models.some((m) => m.id === provider.defaultModel)) {
+          models.unshift({
+            id: provider.defaultModel,
+            provider: provider.type,
+            ...inferModelCapabilities(provider.defaultModel),
+          });
+        }
+
+        this.modelCatalog.set(provider.type, {
+          models,
+          fetchedAt: Date.now(),
+        });
+        this.saveModelCatalog();
+        return models;
+      })
+    );
+  }
+
+  private loadModelCatalog(): void {
+    try {
+      const json = localStorage.getItem(this.MODEL_CATALOG_KEY);
+      if (!json) return;
+
+      const catalog = JSON.parse(json) as Record<
+        string,
+        { models: ModelInfo[]; fetchedAt: number }
+      >;
+      for (const [type, entry] of Object.entries(catalog)) {
+        if (this.providerRegistry.has(type) && Array.isArray(entry?.models)) {
+          this.modelCatalog.set(type, entry);
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to load cached model list:", error);
+    }
+  }
+
+  private saveModelCatalog(): void {
+    try {
+      localStorage.setItem(
+        this.MODEL_CATALOG_KEY,
+        JSON.stringify(Object.fromEntries(this.modelCatalog))
+      );
+    } catch (error) {
+      console.warn("Failed to cache model list:", error);
+    }
+  }
+
+  public getTitleSettings(): TitleSettings {
+    return { ...this.settings.get().titles };
+  }
+
+  public setTitleSettings(titles: TitleSettings): void {
+    this.settings.update({ titles: { ...titles } });
+  }
+
+  public getSystemPrompt(): string {
+    return this.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+  }
+
+  // Undefined restores the default prompt; an empty string sends none.
+  public setSystemPrompt(prompt: string | undefined): void {
+    this.systemPrompt = prompt;
+  }
+
+  public getContextStrategy(): ContextStrategy {
+    return this.contextStrategy;
+  }
+
+  public setContextStrategy(strategy: ContextStrategy | undefined): void {
+    this.contextStrategy =
+      strategy || (this.contextConfig.strategy as ContextStrategy);
+  }
+
+  public setContextSummary(summary: ContextSummary | undefined): void {
+    this.contextSummary = summary;
   }
 
   public getCurrentTokenUsage(): number {
@@ -398,11 +1197,6 @@ export class AiService {
   }
 
   public estimateCost(): number {
-    const tokens = this.tokenUsage.getValue();
-    if (this.defaultModel.includes("gpt-4")) {
-      return (tokens / 1000) * 0.06;
-    } else {
-      return (tokens / 1000) * 0.002;
-    }
+    return this.sessionCost.getValue();
   }
 }
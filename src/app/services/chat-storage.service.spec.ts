@@ -0,0 +1,290 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageAttachment,
+  MessageSender,
+} from "../models/chat.interface";
+import { ChatStorageAdapter } from "../models/storage.interface";
+import { LocalStorageAdapter } from "../storage/local-storage.adapter";
+import { ChatStorageService } from "./chat-storage.service";
+import { SearchIndexService } from "./search-index.service";
+import { SettingsService } from "./settings.service";
+
+function createService(): ChatStorageService {
+  return new ChatStorageService(
+    new SearchIndexService(),
+    new SettingsService()
+  );
+}
+
+function createMessage(
+  id: string,
+  sender: MessageSender,
+  content: string,
+  timestamp: number,
+  attachments?: MessageAttachment[]
+): ChatMessage {
+  return { id, sender, content, timestamp, attachments };
+}
+
+function createConversation(messages: ChatMessage[]): ChatHistory {
+  const now = Date.now();
+
+  return {
+    messages,
+    metadata: {
+      id: `spec-${now}-${Math.random().toString(36).slice(2)}`,
+      title: "Spec conversation",
+      createdAt: now,
+      updatedAt: now,
+      totalMessages: messages.length,
+      userMessageCount: messages.filter((m) => m.sender === MessageSender.USER)
+        .length,
+      aiMessageCount: messages.filter((m) => m.sender === MessageSender.AI)
+        .length,
+    },
+  };
+}
+
+// Imports the conversation and waits until the adapter has stored it.
+async function importAndSave(
+  service: ChatStorageService,
+  conversation: ChatHistory
+): Promise<string> {
+  const save = spyOn(service["adapter"], "saveConversation").and.callThrough();
+  const id = service.addImportedConversation(conversation);
+  await save.calls.mostRecent().returnValue;
+  return id;
+}
+
+const IMAGE: MessageAttachment = {
+  id: "image-1",
+  kind: "image",
+  name: "chart.png",
+  mimeType: "image/png",
+  dataUrl: "data:image/png;base64,iVBORw0KGgo=",
+  width: 16,
+  height: 16,
+  size: 8,
+};
+
+const DOCUMENT: MessageAttachment = {
+  id: "document-1",
+  kind: "document",
+  name: "report.csv",
+  mimeType: "text/csv",
+  format: "csv",
+  text: "month,total\njan,12\nfeb,15",
+  tokens: 14,
+  size: 26,
+};
+
+describe("ChatStorageService", () => {
+  const services: ChatStorageService[] = [];
+  const conversationIds: string[] = [];
+
+  async function open(): Promise<ChatStorageService> {
+    const service = createService();
+    services.push(service);
+    await service.ready;
+    return service;
+  }
+
+  afterEach(() => {
+    const [service] = services;
+    if (service) {
+      service.deleteConversations(conversationIds.splice(0));
+    }
+    services.splice(0).forEach((s) => s.ngOnDestroy());
+  });
+
+  describe("messages with attachments only", () => {
+    it("should save and reload a message that has an image but no text", async () => {
+      const service = await open();
+      const id = await importAndSave(
+        service,
+        createConversation([
+          createMessage("u1", MessageSender.USER, "", 1, [IMAGE]),
+          createMessage("a1", MessageSender.AI, "A bar chart.", 2),
+        ])
+      );
+      conversationIds.push(id);
+
+      const reloaded = await open();
+      expect(await reloaded.loadConversation(id)).toBeTrue();
+
+      const [message] = reloaded.getCurrentConversation()?.messages || [];
+      expect(message.content).toBe("");
+      expect(message.attachments).toEqual([IMAGE]);
+    });
+
+    it("should save and reload a message that has a document but no text", async () => {
+      const service = await open();
+      const id = await importAndSave(
+        service,
+        createConversation([
+          createMessage("u1", MessageSender.USER, "", 1, [DOCUMENT]),
+        ])
+      );
+      conversationIds.push(id);
+
+      const reloaded = await open();
+      expect(await reloaded.loadConversation(id)).toBeTrue();
+
+      const [message] = reloaded.getCurrentConversation()?.messages || [];
+      expect(message.attachments).toEqual([DOCUMENT]);
+    });
+
+    it("should accept an image-only message on import", async () => {
+      const service = await open();
+      const conversation = createConversation([
+        createMessage("u1", MessageSender.USER, "", 1, [IMAGE]),
+      ]);
+
+      expect(() => {
+        conversationIds.push(service.addImportedConversation(conversation));
+      }).not.toThrow();
+    });
+
+    it("should still reject a message with neither text nor attachments", async () => {
+      const service = await open();
+      const conversation = createConversation([
+        createMessage("u1", MessageSender.USER, "", 1),
+      ]);
+
+      expect(() => service.addImportedConversation(conversation)).toThrowError(
+        /Invalid message format/
+      );
+    });
+  });
+
+  describe("branches", () => {
+    async function openFlatConversation(): Promise<ChatStorageService> {
+      const service = await open();
+      const id = await importAndSave(
+        service,
+        createConversation([
+          createMessage("u1", MessageSender.USER, "Question", 1),
+          createMessage("a1", MessageSender.AI, "First answer", 2),
+          createMessage("u2", MessageSender.USER, "Follow-up", 3),
+          createMessage("a2", MessageSender.AI, "Second answer", 4),
+        ])
+      );
+      conversationIds.push(id);
+      await service.loadConversation(id);
+      return service;
+    }
+
+    const activeIds = (service: ChatStorageService) =>
+      (service.getCurrentConversation()?.messages || []).map((m) => m.id);
+
+    it("should move replaced messages to a branch and chain their replacements", async () => {
+      const service = await openFlatConversation();
+      const regenerated = createMessage("a1b", MessageSender.AI, "Retry", 5);
+
+      expect(service.replaceAfter("u1", [regenerated])).toBeTrue();
+
+      const conversation = service.getCurrentConversation();
+      expect(activeIds(service)).toEqual(["u1", "a1b"]);
+      expect(regenerated.parentId).toBe("u1");
+      expect(conversation?.branches?.map((m) => m.id)).toEqual([
+        "a1",
+        "u2",
+        "a2",
+      ]);
+      expect(conversation?.metadata.totalMessages).toBe(2);
+      expect(conversation?.metadata.aiMessageCount).toBe(1);
+    });
+
+    it("should replace the message itself when inclusive", async () => {
+      const service = await openFlatConversation();
+      const edited = createMessage("u2b", MessageSender.USER, "Edited", 5);
+
+      expect(service.replaceAfter("u2", [edited], true)).toBeTrue();
+
+      expect(activeIds(service)).toEqual(["u1", "a1", "u2b"]);
+      expect(edited.parentId).toBe("a1");
+    });
+
+    it("should switch back to an earlier branch and follow its latest replies", async () => {
+      const service = await openFlatConversation();
+      service.replaceAfter(
+        "u2",
+        [createMessage("u2b", MessageSender.USER, "Edited", 5)],
+        true
+      );
+
+      expect(service.selectBranch("u2")).toBeTrue();
+      expect(activeIds(service)).toEqual(["u1", "a1", "u2", "a2"]);
+      expect(
+        service.getCurrentConversation()?.branches?.map((m) => m.id)
+      ).toEqual(["u2b"]);
+
+      expect(service.selectBranch("u1")).toBeTrue();
+      expect(activeIds(service)).toEqual(["u1", "a1", "u2b"]);
+    });
+
+    it("should keep the active branch after a reload", async () => {
+      const service = await openFlatConversation();
+      const id = service.getCurrentConversation()?.metadata.id || "";
+      // Spied on by importAndSave.
+      const save = service["adapter"].saveConversation as jasmine.Spy;
+      service.replaceAfter("u1", [
+        createMessage("a1b", MessageSender.AI, "Retry", 5),
+      ]);
+      await save.calls.mostRecent().returnValue;
+
+      const reloaded = await open();
+      await reloaded.loadConversation(id);
+
+      expect(activeIds(reloaded)).toEqual(["u1", "a1b"]);
+      expect(reloaded.getCurrentConversation()?.branches?.length).toBe(3);
+    });
+
+    it("should report unknown messages without changing the conversation", async () => {
+      const service = await openFlatConversation();
+
+      expect(service.replaceAfter("missing", [])).toBeFalse();
+      expect(service.selectBranch("missing")).toBeFalse();
+      expect(activeIds(service)).toEqual(["u1", "a1", "u2", "a2"]);
+    });
+  });
+
+  describe("migration to another backend", () => {
+    const PREFIX = "spec_migration";
+
+    afterEach(() => new LocalStorageAdapter(PREFIX).clear());
+
+    it("should skip a conversation that cannot be read and move the rest", async () => {
+      const service = await open();
+      const source = new LocalStorageAdapter(PREFIX);
+      const readable = createConversation([
+        createMessage("u1", MessageSender.USER, "Still readable", 1),
+      ]);
+      const broken = createConversation([
+        createMessage("u1", MessageSender.USER, "Corrupted", 1),
+      ]);
+      await source.saveConversation(readable);
+      await source.saveConversation(broken);
+      localStorage.setItem(`${PREFIX}_${broken.metadata.id}`, "{not json");
+
+      const target = jasmine.createSpyObj<ChatStorageAdapter>("target", {
+        saveConversation: Promise.resolve(),
+      });
+      spyOn(console, "warn");
+
+      await service["migrateConversations"](source, target);
+
+      expect(target.saveConversation).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({ metadata: readable.metadata })
+      );
+      expect((await source.loadIndex()).map((c) => c.id)).toEqual([
+        broken.metadata.id,
+      ]);
+      expect(localStorage.getItem(`${PREFIX}_${broken.metadata.id}`)).toBe(
+        "{not json"
+      );
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { Injectable } from "@angular/core";
-import { BehaviorSubject, Subject, Subscription, interval } from "rxjs";
+import { BehaviorSubject, EMPTY, Subject, Subscription, interval } from "rxjs";
 import {
   debounceTime,
   distinctUntilChanged,
   filter,
+  map,
+  switchMap,
   takeUntil,
 } from "rxjs/operators";
 import { environment } from "../../environments/environment";
@@ -11,8 +13,32 @@ import {
   ChatHistory,
   ChatMessage,
   ConversationMetadata,
+  ContextStrategy,
+  ContextSummary,
   MessageSender,
+  ParameterPreset,
+  Persona,
+  TitleSource,
 } from "../models/chat.interface";
+import {
+  ChatProviderType,
+  GenerationParams,
+} from "../models/provider.interface";
+import { DEFAULT_SYSTEM_PROMPT } from "../utils/prompt-template";
+import { DEFAULT_CONVERSATION_TITLE } from "../utils/conversation-title";
+import { normalizeTag, normalizeTags } from "../utils/tags";
+import { redactSecrets } from "../utils/provider-connection";
+import { ChatStorageAdapter } from "../models/storage.interface";
+import { IndexedDbAdapter } from "../storage/indexed-db.adapter";
+import { LocalStorageAdapter } from "../storage/local-storage.adapter";
+import { SearchIndexService } from "./search-index.service";
+import { SettingsService } from "./settings.service";
+import {
+  CONVERSATION_FORMAT_VERSION,
+  buildPathThrough,
+  getAllMessages,
+  migrateToTree,
+} from "../utils/message-tree";
 import { v4 as uuidv4 } from "uuid";
 
 @Injectable({
@@ -20,11 +46,20 @@ import { v4 as uuidv4 } from "uuid";
 })
 export class ChatStorageService {
   private readonly CHAT_HISTORY_KEY = environment.storage.chatHistory;
-  private readonly USER_SETTINGS_KEY = environment.storage.userSettings;
+  private readonly PROMPT_LIBRARY_KEY = environment.storage.promptLibrary;
+  private readonly PARAMETER_PRESETS_KEY = environment.storage.parameterPresets;
 
-  private readonly MAX_HISTORY_ITEMS = environment.app.maxHistoryItems;
+  private readonly STORAGE_BACKEND = environment.storage.backend;
+  private readonly DATABASE_NAME = environment.storage.database;
 
-  private readonly AUTO_SAVE_INTERVAL = 30000;
+  private readonly QUOTA_WARNING_PERCENTAGE = 90;
+
+  private adapter: ChatStorageAdapter = new LocalStorageAdapter(
+    this.CHAT_HISTORY_KEY
+  );
+  private initialized = false;
+  private quotaWarningShown = false;
+  private storageUsage = { used: 0, total: 0, percentage: 0 };
 
   private activeConversationId: string | null = null;
 
@@ -35,26 +70,41 @@ export class ChatStorageService {
     null
   );
   private storageErrorSubject = new BehaviorSubject<string | null>(null);
+  private personasSubject = new BehaviorSubject<Persona[]>([]);
+  private parameterPresetsSubject = new BehaviorSubject<ParameterPreset[]>([]);
 
   public conversations$ = this.conversationsSubject.asObservable();
   public currentConversation$ = this.currentConversationSubject.asObservable();
   public storageError$ = this.storageErrorSubject.asObservable();
+  public personas$ = this.personasSubject.asObservable();
+  public parameterPresets$ = this.parameterPresetsSubject.asObservable();
 
   private autoSaveSubscription: Subscription | null = null;
   private destroy$ = new Subject<void>();
   private saveSubject = new Subject<ChatHistory>();
 
-  constructor() {
-    this.initialize();
+  // Resolves once the stored conversations are loaded.
+  public readonly ready: Promise<void>;
+
+  constructor(
+    private searchIndex: SearchIndexService,
+    private settings: SettingsService
+  ) {
+    this.ready = this.initialize();
 
     this.setupAutoSave();
 
     this.setupDebouncedSave();
   }
 
-  private initialize(): void {
+  private async initialize(): Promise<void> {
     try {
-      const conversations = this.loadAllConversationsMetadata();
+      this.personasSubject.next(this.loadPersonas());
+      this.parameterPresetsSubject.next(this.loadParameterPresets());
+
+      this.adapter = await this.openAdapter();
+
+      const conversations = await this.loadAllConversationsMetadata();
       this.conversationsSubject.next(conversations);
 
       if (conversations.length === 0) {
@@ -63,18 +113,101 @@ export class ChatStorageService {
         const mostRecent = conversations.sort(
           (a, b) => b.updatedAt - a.updatedAt
         )[0];
-        this.loadConversation(mostRecent.id);
+        await this.loadConversation(mostRecent.id);
       }
 
+      this.refreshStorageUsage();
+
+      // Indexing reads every conversation, so it must not hold up startup.
+      this.buildSearchIndex(conversations.map((c) => c.id));
+
       if (!environment.production && environment.debug?.enabled) {
         console.log(
           "Chat Storage Service initialized with",
           conversations.length,
-          "conversations"
+          "conversations using",
+          this.adapter.backend
         );
       }
     } catch (error) {
       this.handleStorageError("Failed to initialize chat storage", error);
+    } finally {
+      this.initialized = true;
+    }
+  }
+
+  private async openAdapter(): Promise<ChatStorageAdapter> {
+    const localStorageAdapter = new LocalStorageAdapter(this.CHAT_HISTORY_KEY);
+
+    if (this.STORAGE_BACKEND === "indexeddb") {
+      const indexedDbAdapter = new IndexedDbAdapter(this.DATABASE_NAME);
+
+      try {
+        await indexedDbAdapter.open();
+        await this.migrateConversations(localStorageAdapter, indexedDbAdapter);
+        return indexedDbAdapter;
+      } catch (error) {
+        console.warn(
+          "IndexedDB is unavailable, falling back to localStorage:",
+          error
+        );
+      }
+    }
+
+    await localStorageAdapter.open();
+    return localStorageAdapter;
+  }
+
+  private async buildSearchIndex(conversationIds: string[]): Promise<void> {
+    for (const id of conversationIds) {
+      try {
+        const conversation = await this.getConversation(id);
+
+        // Skip conversations deleted while the index was being built.
+        if (
+          conversation &&
+          this.conversationsSubject.getValue().some((c) => c.id === id)
+        ) {
+          this.searchIndex.indexConversation(conversation);
+        }
+      } catch (error) {
+        this.handleStorageError(`Failed to index conversation ${id}`, error);
+      }
+    }
+  }
+
+  // Moves conversations saved by earlier versions. Each one is removed from
+  // the source once it has been copied; one that cannot be read is left
+  // where it is and does not hold up the others.
+  private async migrateConversations(
+    source: ChatStorageAdapter,
+    target: ChatStorageAdapter
+  ): Promise<void> {
+    const conversations = await source.loadIndex();
+
+    if (conversations.length === 0) {
+      return;
+    }
+
+    let migrated = 0;
+    for (const metadata of conversations) {
+      let conversation: ChatHistory | null;
+      try {
+        conversation = await source.loadConversation(metadata.id);
+      } catch (error) {
+        console.warn(`Failed to read conversation ${metadata.id}:`, error);
+        continue;
+      }
+
+      if (conversation) {
+        await target.saveConversation(migrateToTree(conversation));
+        migrated++;
+      }
+      await source.deleteConversation(metadata.id);
+    }
+
+    if (!environment.production && environment.debug?.enabled) {
+      console.log(`Migrated ${migrated} conversations to ${target.backend}`);
     }
   }
 
@@ -83,8 +216,12 @@ export class ChatStorageService {
       this.autoSaveSubscription.unsubscribe();
     }
 
-    this.autoSaveSubscription = interval(this.AUTO_SAVE_INTERVAL)
+    // Restarts whenever the interval setting changes; 0 turns it off.
+    this.autoSaveSubscription = this.settings.settings$
       .pipe(
+        map((settings) => settings.autoSaveInterval),
+        distinctUntilChanged(),
+        switchMap((period) => (period > 0 ? interval(period) : EMPTY)),
         takeUntil(this.destroy$),
         filter(() => !!this.currentConversationSubject.getValue())
       )
@@ -117,73 +254,55 @@ export class ChatStorageService {
       });
   }
 
-  private loadAllConversationsMetadata(): ConversationMetadata[] {
+  private async loadAllConversationsMetadata(): Promise<
+    ConversationMetadata[]
+  > {
     try {
-      const conversationsJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_index`
-      );
-
-      if (!conversationsJson) {
-        return [];
-      }
-
-      const conversations = JSON.parse(
-        conversationsJson
-      ) as ConversationMetadata[];
-
-      if (!Array.isArray(conversations)) {
-        throw new Error("Invalid conversations index format");
-      }
-
-      return conversations;
+      return await this.adapter.loadIndex();
     } catch (error) {
       this.handleStorageError("Failed to load conversations index", error);
       return [];
     }
   }
 
-  private saveConversationsIndex(conversations: ConversationMetadata[]): void {
-    try {
-      localStorage.setItem(
-        `${this.CHAT_HISTORY_KEY}_index`,
-        JSON.stringify(conversations)
-      );
-    } catch (error) {
-      this.handleStorageError("Failed to save conversations index", error);
-    }
-  }
-
-  public createNewConversation(title?: string): string {
+  public createNewConversation(title?: string, personaId?: string): string {
     try {
       const conversationId = uuidv4();
       const now = Date.now();
+      const persona = personaId
+        ? this.personasSubject.getValue().find((p) => p.id === personaId)
+        : undefined;
 
       const metadata: ConversationMetadata = {
         id: conversationId,
-        title: title || `Conversation ${now}`,
+        title: title || DEFAULT_CONVERSATION_TITLE,
+        titleSource: title ? "user" : "default",
         createdAt: now,
         updatedAt: now,
         totalMessages: 0,
         userMessageCount: 0,
         aiMessageCount: 0,
         totalTokensUsed: 0,
+        totalCost: 0,
         tags: [],
         isFavorite: false,
         isArchived: false,
       };
 
+      if (persona) {
+        metadata.systemPrompt = persona.systemPrompt;
+        metadata.personaId = persona.id;
+      }
+
       const newConversation: ChatHistory = {
         messages: [],
         metadata,
+        branches: [],
+        version: CONVERSATION_FORMAT_VERSION,
       };
 
       this.saveConversation(newConversation);
 
-      const conversations = this.conversationsSubject.getValue();
-      conversations.push(metadata);
-      this.conversationsSubject.next(conversations);
-      this.saveConversationsIndex(conversations);
-
       this.activeConversationId = conversationId;
       this.currentConversationSubject.next(newConversation);
 
@@ -194,19 +313,16 @@ export class ChatStorageService {
     }
   }
 
-  public loadConversation(conversationId: string): boolean {
+  public async loadConversation(conversationId: string): Promise<boolean> {
     try {
-      const conversationJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_${conversationId}`
-      );
+      const conversation = await this.adapter.loadConversation(conversationId);
 
-      if (!conversationJson) {
+      if (!conversation) {
         throw new Error(`Conversation ${conversationId} not found`);
       }
 
-      const conversation = JSON.parse(conversationJson) as ChatHistory;
-
       this.validateConversation(conversation);
+      migrateToTree(conversation);
 
       this.activeConversationId = conversationId;
       this.currentConversationSubject.next(conversation);
@@ -223,21 +339,30 @@ export class ChatStorageService {
     }
   }
 
-  public saveConversation(conversation: ChatHistory): void {
-    try {
+  public saveConversation(
+    conversation: ChatHistory,
+    touch: boolean = true
+  ): void {
+    if (touch) {
       conversation.metadata.updatedAt = Date.now();
+    }
 
-      localStorage.setItem(
-        `${this.CHAT_HISTORY_KEY}_${conversation.metadata.id}`,
-        JSON.stringify(conversation)
-      );
-
-      this.updateConversationInIndex(conversation.metadata);
+    this.updateConversationInIndex(conversation.metadata);
 
-      this.storageErrorSubject.next(null);
-    } catch (error) {
-      this.handleStorageError("Failed to save conversation", error);
-    }
+    this.adapter
+      .saveConversation(conversation)
+      .then(() => {
+        this.storageErrorSubject.next(null);
+        this.refreshStorageUsage();
+      })
+      .catch((error) =>
+        this.handleStorageError(
+          this.isQuotaError(error)
+            ? "Storage is full; export and delete old conversations to keep saving"
+            : "Failed to save conversation",
+          error
+        )
+      );
   }
 
   private updateConversationTimestamp(conversationId: string): void {
@@ -247,7 +372,14 @@ export class ChatStorageService {
     if (index !== -1) {
       conversations[index].updatedAt = Date.now();
       this.conversationsSubject.next(conversations);
-      this.saveConversationsIndex(conversations);
+      this.adapter
+        .saveMetadata(conversations[index])
+        .catch((error) =>
+          this.handleStorageError(
+            `Failed to update conversation ${conversationId}`,
+            error
+          )
+        );
     }
   }
 
@@ -262,21 +394,38 @@ export class ChatStorageService {
     }
 
     this.conversationsSubject.next(conversations);
-    this.saveConversationsIndex(conversations);
   }
 
   public deleteConversation(conversationId: string): boolean {
+    return this.deleteConversations([conversationId]);
+  }
+
+  // Falls back to the most recent remaining conversation once, at the end.
+  public deleteConversations(conversationIds: string[]): boolean {
     try {
-      localStorage.removeItem(`${this.CHAT_HISTORY_KEY}_${conversationId}`);
+      for (const conversationId of conversationIds) {
+        this.adapter
+          .deleteConversation(conversationId)
+          .catch((error) =>
+            this.handleStorageError(
+              `Failed to delete conversation ${conversationId}`,
+              error
+            )
+          );
+
+        this.searchIndex.removeConversation(conversationId);
+      }
 
       const conversations = this.conversationsSubject.getValue();
       const updatedConversations = conversations.filter(
-        (c) => c.id !== conversationId
+        (c) => !conversationIds.includes(c.id)
       );
       this.conversationsSubject.next(updatedConversations);
-      this.saveConversationsIndex(updatedConversations);
 
-      if (this.activeConversationId === conversationId) {
+      if (
+        this.activeConversationId &&
+        conversationIds.includes(this.activeConversationId)
+      ) {
         if (updatedConversations.length > 0) {
           const mostRecent = updatedConversations.sort(
             (a, b) => b.updatedAt - a.updatedAt
@@ -289,10 +438,7 @@ export class ChatStorageService {
 
       return true;
     } catch (error) {
-      this.handleStorageError(
-        `Failed to delete conversation ${conversationId}`,
-        error
-      );
+      this.handleStorageError("Failed to delete conversations", error);
       return false;
     }
   }
@@ -301,36 +447,202 @@ export class ChatStorageService {
     const currentConversation = this.currentConversationSubject.getValue();
 
     if (!currentConversation) {
-      const conversationId = this.createNewConversation();
-      this.loadConversation(conversationId);
+      if (!this.initialized) {
+        this.ready.then(() => this.addMessage(message));
+        return;
+      }
+      this.createNewConversation();
       this.addMessage(message);
       return;
     }
 
+    if (message.parentId === undefined) {
+      const messages = currentConversation.messages;
+      message.parentId = messages.length
+        ? messages[messages.length - 1].id
+        : null;
+    }
     currentConversation.messages.push(message);
+    this.searchIndex.indexMessage(currentConversation.metadata.id, message);
 
     currentConversation.metadata.totalMessages++;
     if (message.sender === MessageSender.USER) {
       currentConversation.metadata.userMessageCount++;
     } else if (message.sender === MessageSender.AI) {
       currentConversation.metadata.aiMessageCount++;
+      this.applyUsageTotals(currentConversation.metadata, undefined, message);
+    }
 
-      if (message.metadata?.totalTokens) {
-        currentConversation.metadata.totalTokensUsed =
-          (currentConversation.metadata.totalTokensUsed || 0) +
-          message.metadata.totalTokens;
-      }
+    this.currentConversationSubject.next({ ...currentConversation });
+
+    this.saveSubject.next(currentConversation);
+  }
+
+  public updateMessage(message: ChatMessage): boolean {
+    const currentConversation = this.currentConversationSubject.getValue();
+
+    if (!currentConversation) {
+      return false;
     }
 
-    if (currentConversation.messages.length > this.MAX_HISTORY_ITEMS) {
-      currentConversation.messages = currentConversation.messages.slice(
-        currentConversation.messages.length - this.MAX_HISTORY_ITEMS
-      );
+    const index = currentConversation.messages.findIndex(
+      (m) => m.id === message.id
+    );
+
+    if (index === -1) {
+      return false;
     }
 
+    this.applyUsageTotals(
+      currentConversation.metadata,
+      currentConversation.messages[index],
+      message
+    );
+    currentConversation.messages[index] = message;
+
     this.currentConversationSubject.next({ ...currentConversation });
 
-    this.saveSubject.next(currentConversation);
+    if (!message.isPending) {
+      this.searchIndex.indexMessage(currentConversation.metadata.id, message);
+      this.saveConversation(currentConversation);
+    }
+
+    return true;
+  }
+
+  public truncateAfter(messageId: string, inclusive: boolean = false): boolean {
+    return this.replaceAfter(messageId, [], inclusive);
+  }
+
+  /**
+   * Moves every message after `messageId` (and the message itself when
+   * `inclusive`) to an inactive branch and continues the conversation with
+   * `messages` in their place.
+   */
+  public replaceAfter(
+    messageId: string,
+    messages: ChatMessage[],
+    inclusive: boolean = false
+  ): boolean {
+    const currentConversation = this.currentConversationSubject.getValue();
+
+    if (!currentConversation) {
+      return false;
+    }
+
+    const index = currentConversation.messages.findIndex(
+      (m) => m.id === messageId
+    );
+
+    if (index === -1) {
+      return false;
+    }
+
+    try {
+      const metadata = currentConversation.metadata;
+      const removed = currentConversation.messages.splice(
+        inclusive ? index : index + 1
+      );
+      let parentId = inclusive
+        ? removed[0].parentId ?? null
+        : currentConversation.messages[index].id;
+
+      for (const message of messages) {
+        message.parentId = parentId;
+        parentId = message.id;
+        if (message.sender === MessageSender.AI) {
+          this.applyUsageTotals(metadata, undefined, message);
+        }
+        this.searchIndex.indexMessage(metadata.id, message);
+      }
+      currentConversation.messages.push(...messages);
+      currentConversation.branches = [
+        ...(currentConversation.branches || []),
+        ...removed,
+      ];
+
+      this.onActiveBranchChanged(currentConversation);
+      this.currentConversationSubject.next({ ...currentConversation });
+      this.saveConversation(currentConversation);
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to replace messages after ${messageId}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Makes the branch through `messageId` the active one. Below that message
+   * the most recent reply is followed at every level.
+   */
+  public selectBranch(messageId: string): boolean {
+    const currentConversation = this.currentConversationSubject.getValue();
+
+    if (!currentConversation) {
+      return false;
+    }
+
+    try {
+      const nodes = getAllMessages(currentConversation);
+      const path = buildPathThrough(nodes, messageId);
+
+      if (!path.length) {
+        throw new Error(`Message ${messageId} not found`);
+      }
+
+      currentConversation.messages = path;
+      currentConversation.branches = nodes.filter((m) => !path.includes(m));
+
+      this.onActiveBranchChanged(currentConversation);
+      this.currentConversationSubject.next({ ...currentConversation });
+      this.saveConversation(currentConversation);
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(`Failed to switch to ${messageId}`, error);
+      return false;
+    }
+  }
+
+  // Message counts describe the active branch; usage totals keep every branch.
+  private onActiveBranchChanged(conversation: ChatHistory): void {
+    const { messages, metadata } = conversation;
+
+    metadata.totalMessages = messages.length;
+    metadata.userMessageCount = messages.filter(
+      (m) => m.sender === MessageSender.USER
+    ).length;
+    metadata.aiMessageCount = messages.filter(
+      (m) => m.sender === MessageSender.AI
+    ).length;
+
+    // A summary of turns from another branch would leak into the context.
+    if (
+      metadata.contextSummary &&
+      !messages.some((m) => m.id === metadata.contextSummary?.upToMessageId)
+    ) {
+      metadata.contextSummary = undefined;
+    }
+  }
+
+  // Swaps a message's usage in the conversation totals for its replacement.
+  private applyUsageTotals(
+    metadata: ConversationMetadata,
+    previous: ChatMessage | undefined,
+    next: ChatMessage | undefined
+  ): void {
+    metadata.totalTokensUsed =
+      (metadata.totalTokensUsed || 0) -
+      (previous?.metadata?.totalTokens || 0) +
+      (next?.metadata?.totalTokens || 0);
+    metadata.totalCost =
+      (metadata.totalCost || 0) -
+      (previous?.metadata?.cost || 0) +
+      (next?.metadata?.cost || 0);
   }
 
   public clearCurrentConversation(): boolean {
@@ -343,17 +655,22 @@ export class ChatStorageService {
     try {
       const clearedConversation: ChatHistory = {
         messages: [],
+        branches: [],
+        version: CONVERSATION_FORMAT_VERSION,
         metadata: {
           ...currentConversation.metadata,
           totalMessages: 0,
           userMessageCount: 0,
           aiMessageCount: 0,
           totalTokensUsed: 0,
+          totalCost: 0,
+          contextSummary: undefined,
           updatedAt: Date.now(),
         },
       };
 
       this.currentConversationSubject.next(clearedConversation);
+      this.searchIndex.removeConversation(clearedConversation.metadata.id);
 
       this.saveConversation(clearedConversation);
 
@@ -366,14 +683,13 @@ export class ChatStorageService {
 
   public clearAllConversations(): boolean {
     try {
-      const conversations = this.conversationsSubject.getValue();
-
-      for (const conversation of conversations) {
-        localStorage.removeItem(`${this.CHAT_HISTORY_KEY}_${conversation.id}`);
-      }
-
-      localStorage.removeItem(`${this.CHAT_HISTORY_KEY}_index`);
+      this.adapter
+        .clear()
+        .catch((error) =>
+          this.handleStorageError("Failed to clear all conversations", error)
+        );
       this.conversationsSubject.next([]);
+      this.searchIndex.clear();
 
       this.createNewConversation();
 
@@ -408,7 +724,7 @@ export class ChatStorageService {
     return currentConversation.messages.slice(start, end);
   }
 
-  public exportConversation(conversationId?: string): string {
+  public async exportConversation(conversationId?: string): Promise<string> {
     try {
       const id = conversationId || this.activeConversationId;
 
@@ -418,83 +734,90 @@ export class ChatStorageService {
         );
       }
 
-      const conversationJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_${id}`
-      );
+      const conversation = await this.getConversation(id);
 
-      if (!conversationJson) {
+      if (!conversation) {
         throw new Error(`Conversation ${id} not found`);
       }
 
-      return conversationJson;
+      return JSON.stringify(conversation, redactSecrets);
     } catch (error) {
       this.handleStorageError("Failed to export conversation", error);
       return "";
     }
   }
 
-  public exportAllConversations(): string {
+  public async exportAllConversations(): Promise<string> {
+    return this.exportConversations(
+      this.conversationsSubject.getValue().map((c) => c.id)
+    );
+  }
+
+  // Same format as exportAllConversations, for a selection.
+  public async exportConversations(conversationIds: string[]): Promise<string> {
     try {
-      const conversations = this.conversationsSubject.getValue();
       const exportData: { [key: string]: ChatHistory } = {};
 
-      for (const metadata of conversations) {
-        const conversationJson = localStorage.getItem(
-          `${this.CHAT_HISTORY_KEY}_${metadata.id}`
-        );
-
-        if (conversationJson) {
-          exportData[metadata.id] = JSON.parse(conversationJson);
-        }
+      for (const conversation of await this.getConversations(conversationIds)) {
+        exportData[conversation.metadata.id] = conversation;
       }
 
-      return JSON.stringify({
-        version: environment.app.version,
-        timestamp: Date.now(),
-        conversations: exportData,
-      });
+      return JSON.stringify(
+        {
+          version: environment.app.version,
+          timestamp: Date.now(),
+          conversations: exportData,
+        },
+        redactSecrets
+      );
     } catch (error) {
-      this.handleStorageError("Failed to export all conversations", error);
+      this.handleStorageError("Failed to export conversations", error);
       return "";
     }
   }
 
+  // Skips conversations that can no longer be found.
+  public async getConversations(
+    conversationIds: string[]
+  ): Promise<ChatHistory[]> {
+    const conversations: ChatHistory[] = [];
+
+    for (const id of conversationIds) {
+      const conversation = await this.getConversation(id);
+      if (conversation) {
+        conversations.push(conversation);
+      }
+    }
+
+    return conversations;
+  }
+
+  // The open conversation may have changes that are not saved yet.
+  private async getConversation(id: string): Promise<ChatHistory | null> {
+    const current = this.currentConversationSubject.getValue();
+
+    if (current && current.metadata.id === id) {
+      return current;
+    }
+
+    return this.adapter.loadConversation(id);
+  }
+
   public importConversation(
     json: string,
     replace: boolean = false
   ): string | null {
     try {
       const conversation = JSON.parse(json) as ChatHistory;
-
-      this.validateConversation(conversation);
-
-      const conversations = this.conversationsSubject.getValue();
-      const exists = conversations.some(
-        (c) => c.id === conversation.metadata.id
+      const conversationId = this.addImportedConversation(
+        conversation,
+        replace
       );
 
-      if (exists && !replace) {
-        const oldId = conversation.metadata.id;
-        const newId = uuidv4();
-
-        conversation.metadata.id = newId;
-        conversation.metadata.title = `${
-          conversation.metadata.title || "Imported Conversation"
-        } (Imported)`;
-
-        if (!environment.production && environment.debug?.enabled) {
-          console.log(
-            `Changed imported conversation ID from ${oldId} to ${newId}`
-          );
-        }
-      }
-
-      this.saveConversation(conversation);
-
-      this.activeConversationId = conversation.metadata.id;
+      this.activeConversationId = conversationId;
       this.currentConversationSubject.next(conversation);
 
-      return conversation.metadata.id;
+      return conversationId;
     } catch (error) {
       this.handleStorageError("Failed to import conversation", error);
       return null;
@@ -518,17 +841,12 @@ export class ChatStorageService {
       const importedIds: string[] = [];
 
       for (const id in importData.conversations) {
-        const conversation = importData.conversations[id];
-
-        this.validateConversation(conversation);
-
-        const importedId = this.importConversation(
-          JSON.stringify(conversation),
-          replace
-        );
-
-        if (importedId) {
-          importedIds.push(importedId);
+        try {
+          importedIds.push(
+            this.addImportedConversation(importData.conversations[id], replace)
+          );
+        } catch (error) {
+          this.handleStorageError(`Failed to import conversation ${id}`, error);
         }
       }
 
@@ -543,6 +861,45 @@ export class ChatStorageService {
     }
   }
 
+  /**
+   * Validates and stores one imported conversation, keeping its timestamps.
+   * An id that is already taken gets a fresh one unless `replace` is set.
+   * Throws when the conversation is invalid so callers can report it; does
+   * not open the conversation.
+   */
+  public addImportedConversation(
+    conversation: ChatHistory,
+    replace: boolean = false
+  ): string {
+    this.validateConversation(conversation);
+    migrateToTree(conversation);
+    conversation.metadata.tags = normalizeTags(conversation.metadata.tags);
+
+    const conversations = this.conversationsSubject.getValue();
+    const exists = conversations.some((c) => c.id === conversation.metadata.id);
+
+    if (exists && !replace) {
+      const oldId = conversation.metadata.id;
+      const newId = uuidv4();
+
+      conversation.metadata.id = newId;
+      conversation.metadata.title = `${
+        conversation.metadata.title || "Imported Conversation"
+      } (Imported)`;
+
+      if (!environment.production && environment.debug?.enabled) {
+        console.log(
+          `Changed imported conversation ID from ${oldId} to ${newId}`
+        );
+      }
+    }
+
+    this.saveConversation(conversation, false);
+    this.searchIndex.indexConversation(conversation);
+
+    return conversation.metadata.id;
+  }
+
   private validateConversation(conversation: ChatHistory): void {
     if (!conversation || !conversation.metadata || !conversation.messages) {
       throw new Error(
@@ -562,11 +919,17 @@ export class ChatStorageService {
       throw new Error("Invalid messages format: not an array");
     }
 
-    for (const message of conversation.messages) {
+    if (conversation.branches && !Array.isArray(conversation.branches)) {
+      throw new Error("Invalid branches format: not an array");
+    }
+
+    // Messages that only carry attachments have no text.
+    for (const message of getAllMessages(conversation)) {
       if (
         !message.id ||
         !message.sender ||
-        !message.content ||
+        typeof message.content !== "string" ||
+        (!message.content && !message.attachments?.length) ||
         !message.timestamp
       ) {
         throw new Error("Invalid message format: missing required properties");
@@ -602,86 +965,181 @@ export class ChatStorageService {
     total: number;
     percentage: number;
   } {
-    try {
-      let totalSize = 0;
+    return this.storageUsage;
+  }
 
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key) {
-          const value = localStorage.getItem(key) || "";
-          totalSize += key.length + value.length;
+  public getStorageBackend(): string {
+    return this.adapter.backend;
+  }
+
+  private refreshStorageUsage(): void {
+    this.adapter
+      .estimate()
+      .then((estimate) => {
+        if (!estimate) {
+          return;
         }
-      }
 
-      const usedKB = Math.round(totalSize / 1024);
+        const percentage = Math.round((estimate.used / estimate.quota) * 100);
+        this.storageUsage = {
+          used: Math.round(estimate.used / 1024),
+          total: Math.round(estimate.quota / 1024),
+          percentage,
+        };
 
-      const totalKB = 5120;
+        if (
+          percentage >= this.QUOTA_WARNING_PERCENTAGE &&
+          !this.quotaWarningShown
+        ) {
+          this.quotaWarningShown = true;
+          this.storageErrorSubject.next(
+            `Storage is ${percentage}% full. Export and delete old conversations to free space.`
+          );
+        }
+      })
+      .catch((error) => console.error("Failed to get storage usage", error));
+  }
 
-      return {
-        used: usedKB,
-        total: totalKB,
-        percentage: Math.round((usedKB / totalKB) * 100),
-      };
-    } catch (error) {
-      console.error("Failed to get storage usage", error);
-      return { used: 0, total: 0, percentage: 0 };
-    }
+  private isQuotaError(error: any): boolean {
+    return (
+      error?.name === "QuotaExceededError" ||
+      error?.name === "NS_ERROR_DOM_QUOTA_REACHED"
+    );
   }
 
+  // Generated titles never replace one the user has set.
   public updateConversationTitle(
     conversationId: string,
-    title: string
+    title: string,
+    source: TitleSource = "user"
   ): boolean {
     try {
-      const conversationJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_${conversationId}`
-      );
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        if (source === "generated" && metadata.titleSource === "user") {
+          return;
+        }
+        metadata.title = title;
+        metadata.titleSource = source;
+      });
 
-      if (!conversationJson) {
-        throw new Error(`Conversation ${conversationId} not found`);
-      }
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to update conversation title for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
 
-      const conversation = JSON.parse(conversationJson) as ChatHistory;
+  public addConversationTags(conversationId: string, tags: string[]): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.tags = normalizeTags([...(metadata.tags || []), ...tags]);
+      });
 
-      conversation.metadata.title = title;
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to add tags to conversation ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
 
-      this.saveConversation(conversation);
+  public removeConversationTag(conversationId: string, tag: string): boolean {
+    try {
+      const removed = normalizeTag(tag);
 
-      if (this.activeConversationId === conversationId) {
-        this.currentConversationSubject.next(conversation);
-      }
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.tags = (metadata.tags || []).filter((t) => t !== removed);
+      });
 
       return true;
     } catch (error) {
       this.handleStorageError(
-        `Failed to update conversation title for ${conversationId}`,
+        `Failed to remove tag from conversation ${conversationId}`,
         error
       );
       return false;
     }
   }
 
-  public toggleFavorite(conversationId: string): boolean {
-    try {
-      const conversationJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_${conversationId}`
-      );
+  // Every tag in use, with the number of conversations carrying it.
+  public getAllTags(): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
 
-      if (!conversationJson) {
-        throw new Error(`Conversation ${conversationId} not found`);
+    for (const conversation of this.conversationsSubject.getValue()) {
+      for (const tag of conversation.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
       }
+    }
+
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  // Renaming onto an existing tag merges the two.
+  public renameTag(tag: string, newTag: string): boolean {
+    const from = normalizeTag(tag);
+    const to = normalizeTag(newTag);
+
+    if (!to) {
+      return false;
+    }
 
-      const conversation = JSON.parse(conversationJson) as ChatHistory;
+    return this.updateTagEverywhere(from, (tags) =>
+      normalizeTags(tags.map((t) => (t === from ? to : t)))
+    );
+  }
 
-      conversation.metadata.isFavorite = !conversation.metadata.isFavorite;
+  public deleteTag(tag: string): boolean {
+    const removed = normalizeTag(tag);
 
-      this.saveConversation(conversation);
+    return this.updateTagEverywhere(removed, (tags) =>
+      tags.filter((t) => t !== removed)
+    );
+  }
 
-      if (this.activeConversationId === conversationId) {
-        this.currentConversationSubject.next(conversation);
+  // Tag housekeeping is not activity, so it leaves updatedAt alone.
+  private updateTagEverywhere(
+    tag: string,
+    update: (tags: string[]) => string[]
+  ): boolean {
+    try {
+      const affected = this.conversationsSubject
+        .getValue()
+        .filter((c) => c.tags?.includes(tag));
+
+      for (const conversation of affected) {
+        this.updateConversationMetadata(
+          conversation.id,
+          (metadata) => {
+            metadata.tags = update(metadata.tags || []);
+          },
+          false
+        );
       }
 
-      return conversation.metadata.isFavorite;
+      return true;
+    } catch (error) {
+      this.handleStorageError(`Failed to update tag "${tag}"`, error);
+      return false;
+    }
+  }
+
+  public toggleFavorite(conversationId: string): boolean {
+    try {
+      let isFavorite = false;
+
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.isFavorite = !metadata.isFavorite;
+        isFavorite = metadata.isFavorite;
+      });
+
+      return isFavorite;
     } catch (error) {
       this.handleStorageError(
         `Failed to toggle favorite for ${conversationId}`,
@@ -693,38 +1151,422 @@ export class ChatStorageService {
 
   public setArchiveStatus(conversationId: string, archive: boolean): boolean {
     try {
-      const conversationJson = localStorage.getItem(
-        `${this.CHAT_HISTORY_KEY}_${conversationId}`
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.isArchived = archive;
+      });
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to set archive status for ${conversationId}`,
+        error
       );
+      return false;
+    }
+  }
 
-      if (!conversationJson) {
-        throw new Error(`Conversation ${conversationId} not found`);
-      }
+  public setConversationProvider(
+    conversationId: string,
+    provider: ChatProviderType
+  ): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        if (metadata.provider !== provider) {
+          // Model ids are provider specific.
+          metadata.model = undefined;
+        }
+        metadata.provider = provider;
+      });
 
-      const conversation = JSON.parse(conversationJson) as ChatHistory;
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to set provider for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
 
-      conversation.metadata.isArchived = archive;
+  public setConversationModel(conversationId: string, model: string): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.model = model;
+      });
 
-      this.saveConversation(conversation);
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to set model for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
 
-      if (this.activeConversationId === conversationId) {
-        this.currentConversationSubject.next(conversation);
-      }
+  public setConversationSystemPrompt(
+    conversationId: string,
+    systemPrompt: string,
+    personaId?: string
+  ): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.systemPrompt = systemPrompt;
+        metadata.personaId = personaId;
+      });
 
       return true;
     } catch (error) {
       this.handleStorageError(
-        `Failed to set archive status for ${conversationId}`,
+        `Failed to set system prompt for ${conversationId}`,
         error
       );
       return false;
     }
   }
 
+  public setConversationContextStrategy(
+    conversationId: string,
+    strategy: ContextStrategy
+  ): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.contextStrategy = strategy;
+      });
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to set context strategy for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  public setConversationContextSummary(
+    conversationId: string,
+    summary: ContextSummary
+  ): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.contextSummary = summary;
+      });
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to save context summary for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  public setConversationGenerationParams(
+    conversationId: string,
+    params: GenerationParams | undefined,
+    presetId?: string
+  ): boolean {
+    try {
+      this.updateConversationMetadata(conversationId, (metadata) => {
+        metadata.generationParams = params;
+        metadata.parameterPresetId = params ? presetId : undefined;
+      });
+
+      return true;
+    } catch (error) {
+      this.handleStorageError(
+        `Failed to set generation parameters for ${conversationId}`,
+        error
+      );
+      return false;
+    }
+  }
+
+  private loadPersonas(): Persona[] {
+    try {
+      const personasJson = localStorage.getItem(this.PROMPT_LIBRARY_KEY);
+
+      if (!personasJson) {
+        const now = Date.now();
+        return [
+          {
+            id: uuidv4(),
+            name: "Helpful assistant",
+            description: "The default general-purpose assistant.",
+            systemPrompt: DEFAULT_SYSTEM_PROMPT,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ];
+      }
+
+      const personas = JSON.parse(personasJson) as Persona[];
+
+      if (!Array.isArray(personas)) {
+        throw new Error("Invalid prompt library format");
+      }
+
+      return personas;
+    } catch (error) {
+      this.handleStorageError("Failed to load prompt library", error);
+      return [];
+    }
+  }
+
+  private savePersonas(personas: Persona[]): void {
+    try {
+      localStorage.setItem(this.PROMPT_LIBRARY_KEY, JSON.stringify(personas));
+      this.personasSubject.next(personas);
+    } catch (error) {
+      this.handleStorageError("Failed to save prompt library", error);
+    }
+  }
+
+  public getPersonas(): Persona[] {
+    return this.personasSubject.getValue();
+  }
+
+  public savePersona(
+    persona: Pick<Persona, "name" | "systemPrompt" | "description"> & {
+      id?: string;
+    }
+  ): Persona {
+    const personas = [...this.personasSubject.getValue()];
+    const now = Date.now();
+    const index = persona.id
+      ? personas.findIndex((p) => p.id === persona.id)
+      : -1;
+
+    const saved: Persona = {
+      id: persona.id || uuidv4(),
+      name: persona.name.trim(),
+      description: persona.description,
+      systemPrompt: persona.systemPrompt,
+      createdAt: index !== -1 ? personas[index].createdAt : now,
+      updatedAt: now,
+    };
+
+    if (index !== -1) {
+      personas[index] = saved;
+    } else {
+      personas.push(saved);
+    }
+
+    this.savePersonas(personas);
+    return saved;
+  }
+
+  public deletePersona(personaId: string): boolean {
+    const personas = this.personasSubject.getValue();
+    const updated = personas.filter((p) => p.id !== personaId);
+
+    if (updated.length === personas.length) {
+      return false;
+    }
+
+    this.savePersonas(updated);
+    return true;
+  }
+
+  public exportPersonas(): string {
+    return JSON.stringify({
+      version: environment.app.version,
+      timestamp: Date.now(),
+      personas: this.personasSubject.getValue(),
+    });
+  }
+
+  public importPersonas(json: string, replace: boolean = false): number {
+    try {
+      const importData = JSON.parse(json);
+      const imported: Persona[] = Array.isArray(importData)
+        ? importData
+        : importData?.personas;
+
+      if (!Array.isArray(imported)) {
+        throw new Error("Invalid prompt library format");
+      }
+
+      const personas = [...this.personasSubject.getValue()];
+      const now = Date.now();
+      let count = 0;
+
+      for (const persona of imported) {
+        if (
+          !persona ||
+          typeof persona.name !== "string" ||
+          typeof persona.systemPrompt !== "string"
+        ) {
+          throw new Error("Invalid persona: missing name or system prompt");
+        }
+
+        const index = personas.findIndex((p) => p.id === persona.id);
+        const entry: Persona = {
+          id: index !== -1 && !replace ? uuidv4() : persona.id || uuidv4(),
+          name: persona.name,
+          description: persona.description,
+          systemPrompt: persona.systemPrompt,
+          createdAt: persona.createdAt || now,
+          updatedAt: now,
+        };
+
+        if (index !== -1 && replace) {
+          personas[index] = entry;
+        } else {
+          personas.push(entry);
+        }
+        count++;
+      }
+
+      this.savePersonas(personas);
+      return count;
+    } catch (error) {
+      this.handleStorageError("Failed to import prompt library", error);
+      return 0;
+    }
+  }
+
+  private loadParameterPresets(): ParameterPreset[] {
+    try {
+      const presetsJson = localStorage.getItem(this.PARAMETER_PRESETS_KEY);
+
+      if (!presetsJson) {
+        const now = Date.now();
+        const builtIn: [string, GenerationParams][] = [
+          ["Precise", { temperature: 0.2, top_p: 1 }],
+          ["Balanced", { temperature: 0.7, top_p: 1 }],
+          [
+            "Creative",
+            { temperature: 1.1, top_p: 0.95, presence_penalty: 0.5 },
+          ],
+        ];
+        return builtIn.map(([name, params]) => ({
+          id: uuidv4(),
+          name,
+          params,
+          createdAt: now,
+          updatedAt: now,
+        }));
+      }
+
+      const presets = JSON.parse(presetsJson) as ParameterPreset[];
+
+      if (!Array.isArray(presets)) {
+        throw new Error("Invalid parameter presets format");
+      }
+
+      return presets;
+    } catch (error) {
+      this.handleStorageError("Failed to load parameter presets", error);
+      return [];
+    }
+  }
+
+  private saveParameterPresets(presets: ParameterPreset[]): void {
+    try {
+      localStorage.setItem(this.PARAMETER_PRESETS_KEY, JSON.stringify(presets));
+      this.parameterPresetsSubject.next(presets);
+    } catch (error) {
+      this.handleStorageError("Failed to save parameter presets", error);
+    }
+  }
+
+  public getParameterPresets(): ParameterPreset[] {
+    return this.parameterPresetsSubject.getValue();
+  }
+
+  public saveParameterPreset(
+    preset: Pick<ParameterPreset, "name" | "params"> & { id?: string }
+  ): ParameterPreset {
+    const presets = [...this.parameterPresetsSubject.getValue()];
+    const now = Date.now();
+    const index = preset.id ? presets.findIndex((p) => p.id === preset.id) : -1;
+
+    const saved: ParameterPreset = {
+      id: preset.id || uuidv4(),
+      name: preset.name.trim(),
+      params: preset.params,
+      createdAt: index !== -1 ? presets[index].createdAt : now,
+      updatedAt: now,
+    };
+
+    if (index !== -1) {
+      presets[index] = saved;
+    } else {
+      presets.push(saved);
+    }
+
+    this.saveParameterPresets(presets);
+    return saved;
+  }
+
+  public deleteParameterPreset(presetId: string): boolean {
+    const presets = this.parameterPresetsSubject.getValue();
+    const updated = presets.filter((p) => p.id !== presetId);
+
+    if (updated.length === presets.length) {
+      return false;
+    }
+
+    this.saveParameterPresets(updated);
+    return true;
+  }
+
+  private updateConversationMetadata(
+    conversationId: string,
+    update: (metadata: ConversationMetadata) => void,
+    touch: boolean = true
+  ): void {
+    const current = this.currentConversationSubject.getValue();
+
+    if (current && current.metadata.id === conversationId) {
+      update(current.metadata);
+      if (touch) {
+        this.saveConversation(current);
+      } else {
+        this.updateConversationInIndex(current.metadata);
+        this.saveMetadata(current.metadata);
+      }
+      this.currentConversationSubject.next({ ...current });
+      return;
+    }
+
+    const existing = this.conversationsSubject
+      .getValue()
+      .find((c) => c.id === conversationId);
+
+    if (!existing) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const metadata = touch
+      ? { ...existing, updatedAt: Date.now() }
+      : { ...existing };
+    update(metadata);
+    this.updateConversationInIndex(metadata);
+    this.saveMetadata(metadata);
+  }
+
+  private saveMetadata(metadata: ConversationMetadata): void {
+    this.adapter
+      .saveMetadata(metadata)
+      .catch((error) =>
+        this.handleStorageError(
+          `Failed to save conversation ${metadata.id}`,
+          error
+        )
+      );
+  }
+
   public getFilteredConversations(filter: {
     searchTerm?: string;
     onlyFavorites?: boolean;
     includeArchived?: boolean;
+    onlyArchived?: boolean;
+    // Conversations must carry every listed tag.
+    tags?: string[];
     sortBy?: "updated" | "created" | "title";
     sortDirection?: "asc" | "desc";
   }): ConversationMetadata[] {
@@ -746,7 +1588,22 @@ export class ChatStorageService {
           return false;
         }
 
-        if (!filter.includeArchived && conversation.isArchived) {
+        if (
+          !filter.includeArchived &&
+          !filter.onlyArchived &&
+          conversation.isArchived
+        ) {
+          return false;
+        }
+
+        if (filter.onlyArchived && !conversation.isArchived) {
+          return false;
+        }
+
+        if (
+          filter.tags?.length &&
+          !filter.tags.every((tag) => conversation.tags?.includes(tag))
+        ) {
           return false;
         }
 
@@ -0,0 +1,108 @@
+import { HttpClient } from "@angular/common/http";
+import { environment } from "../../environments/environment";
+import { ProviderConnection } from "../models/provider.interface";
+import { ConnectionService } from "./connection.service";
+import { ProviderRegistryService } from "./provider-registry.service";
+
+const CONNECTIONS_KEY = environment.storage.connections;
+const API_KEY = "sk-spec-0123456789";
+
+function createService(): {
+  service: ConnectionService;
+  configure: jasmine.Spy<(connection: ProviderConnection) => void>;
+} {
+  const registry = new ProviderRegistryService();
+  const configure = spyOn(
+    registry.get("openai"),
+    "configure"
+  ).and.callThrough();
+  const http = jasmine.createSpyObj<HttpClient>("http", ["get", "post"]);
+
+  return { service: new ConnectionService(http, registry), configure };
+}
+
+describe("ConnectionService", () => {
+  beforeEach(() => localStorage.removeItem(CONNECTIONS_KEY));
+  afterEach(() => localStorage.removeItem(CONNECTIONS_KEY));
+
+  it("should refuse to save an API key before a passphrase is set", async () => {
+    const { service } = createService();
+
+    expect(service.getStatus()).toBe("none");
+    await expectAsync(
+      service.saveConnection("openai", { apiKey: API_KEY })
+    ).toBeRejectedWithError(/Set a passphrase/);
+  });
+
+  it("should store API keys encrypted and apply them right away", async () => {
+    const { service, configure } = createService();
+
+    await service.setPassphrase("correct horse");
+    await service.saveConnection("openai", {
+      apiUrl: " https://proxy.example.com ",
+      apiKey: API_KEY,
+    });
+
+    const stored = localStorage.getItem(CONNECTIONS_KEY) || "";
+    expect(stored).not.toContain(API_KEY);
+    expect(stored).toContain("https://proxy.example.com");
+    expect(service.getConnection("openai").hasKey).toBeTrue();
+    expect(configure).toHaveBeenCalledWith(
+      jasmine.objectContaining({
+        apiUrl: "https://proxy.example.com",
+        apiKey: API_KEY,
+      })
+    );
+  });
+
+  it("should decrypt saved keys with the right passphrase only", async () => {
+    const first = createService().service;
+    await first.setPassphrase("correct horse");
+    await first.saveConnection("openai", { apiKey: API_KEY });
+
+    const { service, configure } = createService();
+    expect(service.getStatus()).toBe("locked");
+    expect(configure).toHaveBeenCalledWith(
+      jasmine.objectContaining({ apiKey: undefined })
+    );
+
+    expect(await service.unlock("wrong horse")).toBeFalse();
+    expect(service.getStatus()).toBe("locked");
+
+    expect(await service.unlock("correct horse")).toBeTrue();
+    expect(service.getStatus()).toBe("unlocked");
+    expect(configure).toHaveBeenCalledWith(
+      jasmine.objectContaining({ apiKey: API_KEY })
+    );
+  });
+
+  it("should re-encrypt saved keys when the passphrase changes", async () => {
+    const first = createService().service;
+    await first.setPassphrase("old passphrase");
+    await first.saveConnection("openai", { apiKey: API_KEY });
+    await first.setPassphrase("new passphrase");
+
+    const { service, configure } = createService();
+
+    expect(await service.unlock("old passphrase")).toBeFalse();
+    expect(await service.unlock("new passphrase")).toBeTrue();
+    expect(configure).toHaveBeenCalledWith(
+      jasmine.objectContaining({ apiKey: API_KEY })
+    );
+  });
+
+  it("should forget decrypted keys when locked and everything on forgetAll", async () => {
+    const { service, configure } = createService();
+    await service.setPassphrase("correct horse");
+    await service.saveConnection("openai", { apiKey: API_KEY });
+
+    service.lock();
+    expect(service.getStatus()).toBe("locked");
+    expect(configure.calls.mostRecent().args[0].apiKey).toBeUndefined();
+
+    service.forgetAll();
+    expect(service.getStatus()).toBe("none");
+    expect(service.getConnection("openai").hasKey).toBeFalse();
+    expect(localStorage.getItem(CONNECTIONS_KEY)).toBeNull();
+  });
+});
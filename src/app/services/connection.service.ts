@@ -0,0 +1,342 @@
+import { Injectable } from "@angular/core";
+import { HttpClient, HttpHeaders } from "@angular/common/http";
+import { BehaviorSubject, firstValueFrom, timeout } from "rxjs";
+import { environment } from "../../environments/environment";
+import {
+  ChatProviderType,
+  ProviderConnection,
+} from "../models/provider.interface";
+import { ProviderRegistryService } from "./provider-registry.service";
+import {
+  EncryptedValue,
+  createSalt,
+  decryptText,
+  deriveKey,
+  encryptText,
+} from "../utils/crypto";
+import { classifyAiError } from "../utils/request-resilience";
+
+// "none": no passphrase set yet; "locked": keys saved but not decrypted.
+export type ConnectionStatus = "none" | "locked" | "unlocked";
+
+export interface ConnectionDetails {
+  apiUrl: string;
+  organization: string;
+  project: string;
+  hasKey: boolean;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+  latencyMs?: number;
+}
+
+interface StoredProviderConnection {
+  apiUrl?: string;
+  organization?: string;
+  project?: string;
+  apiKey?: EncryptedValue;
+}
+
+interface StoredConnections {
+  version: number;
+  salt: string;
+  // Encrypted marker used to verify the passphrase on unlock.
+  check: EncryptedValue | null;
+  providers: { [type: string]: StoredProviderConnection };
+}
+
+const CONNECTIONS_VERSION = 1;
+const PASSPHRASE_CHECK = "ai-chat-connections";
+const TEST_TIMEOUT = 15000;
+
+/**
+ * Connection details entered in the app. Base URLs and headers are stored as
+ * is; API keys only encrypted with the user's passphrase, and the derived
+ * key is kept in memory until the page is closed or the keys are locked.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class ConnectionService {
+  private readonly CONNECTIONS_KEY = environment.storage.connections;
+
+  private stored: StoredConnections = this.loadConnections();
+  private key: CryptoKey | null = null;
+  private apiKeys = new Map<ChatProviderType, string>();
+
+  private statusSubject = new BehaviorSubject<ConnectionStatus>(
+    this.stored.check ? "locked" : "none"
+  );
+
+  public status$ = this.statusSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private registry: ProviderRegistryService
+  ) {
+    this.configureProviders();
+  }
+
+  public getStatus(): ConnectionStatus {
+    return this.statusSubject.getValue();
+  }
+
+  public getConnection(type: ChatProviderType): ConnectionDetails {
+    const stored = this.stored.providers[type] || {};
+
+    return {
+      apiUrl: stored.apiUrl || "",
+      organization: stored.organization || "",
+      project: stored.project || "",
+      hasKey: !!stored.apiKey,
+    };
+  }
+
+  /**
+   * Sets the passphrase the first time, or changes it while unlocked by
+   * re-encrypting every saved key.
+   */
+  public async setPassphrase(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new Error("Passphrase cannot be empty");
+    }
+    if (this.getStatus() === "locked") {
+      throw new Error("Unlock the saved keys before changing the passphrase");
+    }
+
+    const salt = createSalt();
+    const key = await deriveKey(passphrase, salt);
+    const providers: { [type: string]: StoredProviderConnection } = {};
+
+    for (const [type, connection] of Object.entries(this.stored.providers)) {
+      const apiKey = this.apiKeys.get(type as ChatProviderType);
+      providers[type] = {
+        ...connection,
+        apiKey: apiKey ? await encryptText(key, apiKey) : undefined,
+      };
+    }
+
+    this.stored = {
+      version: CONNECTIONS_VERSION,
+      salt,
+      check: await encryptText(key, PASSPHRASE_CHECK),
+      providers,
+    };
+    this.key = key;
+    this.persist();
+    this.statusSubject.next("unlocked");
+  }
+
+  // Resolves false when the passphrase is wrong.
+  public async unlock(passphrase: string): Promise<boolean> {
+    if (!this.stored.check) {
+      return false;
+    }
+
+    try {
+      const key = await deriveKey(passphrase, this.stored.salt);
+      if ((await decryptText(key, this.stored.check)) !== PASSPHRASE_CHECK) {
+        return false;
+      }
+
+      this.apiKeys.clear();
+      for (const [type, connection] of Object.entries(this.stored.providers)) {
+        if (connection.apiKey) {
+          this.apiKeys.set(
+            type as ChatProviderType,
+            await decryptText(key, connection.apiKey)
+          );
+        }
+      }
+
+      this.key = key;
+      this.configureProviders();
+      this.statusSubject.next("unlocked");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Forgets the decrypted keys; requests fall back to the environment keys.
+  public lock(): void {
+    if (this.getStatus() !== "unlocked") {
+      return;
+    }
+
+    this.key = null;
+    this.apiKeys.clear();
+    this.configureProviders();
+    this.statusSubject.next("locked");
+  }
+
+  /**
+   * Saves the connection for a provider and applies it right away. An empty
+   * apiKey keeps the saved one; a new key needs the passphrase to be set.
+   */
+  public async saveConnection(
+    type: ChatProviderType,
+    connection: ProviderConnection
+  ): Promise<void> {
+    const current = this.stored.providers[type] || {};
+    const apiKey = connection.apiKey?.trim();
+    let encryptedKey = current.apiKey;
+
+    if (apiKey) {
+      if (!this.key) {
+        throw new Error(
+          this.getStatus() === "locked"
+            ? "Unlock the saved keys before changing an API key"
+            : "Set a passphrase before saving an API key"
+        );
+      }
+      encryptedKey = await encryptText(this.key, apiKey);
+      this.apiKeys.set(type, apiKey);
+    }
+
+    this.stored.providers[type] = {
+      apiUrl: connection.apiUrl?.trim() || undefined,
+      organization: connection.organization?.trim() || undefined,
+      project: connection.project?.trim() || undefined,
+      apiKey: encryptedKey,
+    };
+    this.persist();
+    this.configureProvider(type);
+  }
+
+  public removeApiKey(type: ChatProviderType): void {
+    const current = this.stored.providers[type];
+    if (!current) {
+      return;
+    }
+
+    this.stored.providers[type] = { ...current, apiKey: undefined };
+    this.apiKeys.delete(type);
+    this.persist();
+    this.configureProvider(type);
+  }
+
+  public clearConnection(type: ChatProviderType): void {
+    delete this.stored.providers[type];
+    this.apiKeys.delete(type);
+    this.persist();
+    this.configureProvider(type);
+  }
+
+  // Also the way out when the passphrase is forgotten.
+  public forgetAll(): void {
+    this.stored = this.createEmpty();
+    this.key = null;
+    this.apiKeys.clear();
+
+    try {
+      localStorage.removeItem(this.CONNECTIONS_KEY);
+    } catch (error) {
+      console.warn("Failed to remove connections:", error);
+    }
+
+    this.configureProviders();
+    this.statusSubject.next("none");
+  }
+
+  /**
+   * Sends the smallest request the provider supports with its current
+   * connection: the model list if it has one, otherwise a one-token reply.
+   */
+  public async testConnection(
+    type: ChatProviderType
+  ): Promise<ConnectionTestResult> {
+    const provider = this.registry.get(type);
+    const modelsRequest = provider.buildModelsRequest();
+    const started = Date.now();
+
+    try {
+      if (modelsRequest) {
+        await firstValueFrom(
+          this.http
+            .get(modelsRequest.url, {
+              headers: new HttpHeaders(modelsRequest.headers),
+            })
+            .pipe(timeout(TEST_TIMEOUT))
+        );
+      } else {
+        const request = provider.buildRequest({
+          model: provider.defaultModel,
+          messages: [{ role: "user", content: "ping" }],
+          stream: false,
+          params: { max_tokens: 1 },
+        });
+        await firstValueFrom(
+          this.http
+            .post(request.url, request.body, {
+              headers: new HttpHeaders(request.headers),
+            })
+            .pipe(timeout(TEST_TIMEOUT))
+        );
+      }
+
+      const latencyMs = Date.now() - started;
+      return {
+        ok: true,
+        message: `Connected in ${latencyMs} ms`,
+        latencyMs,
+      };
+    } catch (error) {
+      return { ok: false, message: classifyAiError(error).message };
+    }
+  }
+
+  private configureProviders(): void {
+    for (const provider of this.registry.list()) {
+      this.configureProvider(provider.type);
+    }
+  }
+
+  private configureProvider(type: ChatProviderType): void {
+    const stored = this.stored.providers[type] || {};
+
+    this.registry.get(type).configure({
+      apiUrl: stored.apiUrl,
+      organization: stored.organization,
+      project: stored.project,
+      apiKey: this.apiKeys.get(type),
+    });
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.CONNECTIONS_KEY, JSON.stringify(this.stored));
+    } catch (error) {
+      console.warn("Failed to save connections:", error);
+    }
+  }
+
+  private loadConnections(): StoredConnections {
+    try {
+      const json = localStorage.getItem(this.CONNECTIONS_KEY);
+      const stored = json ? JSON.parse(json) : null;
+
+      if (stored?.version === CONNECTIONS_VERSION && stored.salt) {
+        return {
+          ...stored,
+          providers: stored.providers || {},
+        };
+      }
+    } catch (error) {
+      console.warn("Failed to load connections:", error);
+    }
+
+    return this.createEmpty();
+  }
+
+  private createEmpty(): StoredConnections {
+    return {
+      version: CONNECTIONS_VERSION,
+      salt: createSalt(),
+      check: null,
+      providers: {},
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  ChatMessage,
+  MessageSender,
+  OpenAIChatMessage,
+} from "../models/chat.interface";
+import {
+  countConversationTokens,
+  countMessageTokens,
+} from "../utils/token-counter";
+import {
+  ContextBuildOptions,
+  ContextBuilderService,
+} from "./context-builder.service";
+
+const MODEL = "gpt-4";
+const MAX_TOKENS = 500;
+const TURN = "A message of a fixed length to keep the arithmetic simple.";
+const QUESTION = "What next?";
+
+function createHistory(count: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i + 1}`,
+    sender: i % 2 === 0 ? MessageSender.USER : MessageSender.AI,
+    content: TURN,
+    timestamp: i + 1,
+  }));
+}
+
+// A context window with room for the new question and `turns` history turns.
+function windowFor(turns: number, extra: OpenAIChatMessage[] = []): number {
+  const turnTokens = countMessageTokens({ role: "user", content: TURN }, MODEL);
+  const base = countConversationTokens(
+    [...extra, { role: "user", content: QUESTION }],
+    MODEL
+  );
+  return MAX_TOKENS + base + turns * turnTokens;
+}
+
+describe("ContextBuilderService", () => {
+  const service = new ContextBuilderService();
+
+  function build(
+    history: ChatMessage[],
+    options: Partial<ContextBuildOptions> = {}
+  ) {
+    return service.build(history, QUESTION, {
+      model: MODEL,
+      maxTokens: MAX_TOKENS,
+      strategy: "drop-oldest",
+      ...options,
+    });
+  }
+
+  it("should send the whole history when it fits", () => {
+    const context = build(createHistory(4), { contextWindow: windowFor(4) });
+
+    expect(context.includedIds).toEqual(["m1", "m2", "m3", "m4"]);
+    expect(context.droppedIds).toEqual([]);
+    expect(context.messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(context.messages[4].content).toBe(QUESTION);
+    expect(context.promptTokens).toBeLessThanOrEqual(context.budget);
+  });
+
+  it("should drop the oldest turns once the budget is used up", () => {
+    const context = build(createHistory(6), {
+      contextWindow: windowFor(2) + 1,
+    });
+
+    expect(context.includedIds).toEqual(["m5", "m6"]);
+    expect(context.droppedIds).toEqual(["m1", "m2", "m3", "m4"]);
+    expect(context.budget).toBe(windowFor(2) + 1 - MAX_TOKENS);
+    expect(context.promptTokens).toBeLessThanOrEqual(context.budget);
+  });
+
+  it("should stop at the first turn that does not fit", () => {
+    const history = createHistory(3);
+    history[1].content = TURN.repeat(10);
+
+    const context = build(history, { contextWindow: windowFor(2) });
+
+    expect(context.includedIds).toEqual(["m3"]);
+    expect(context.droppedIds).toEqual(["m1", "m2"]);
+  });
+
+  it("should always send pinned messages and fill the rest from the end", () => {
+    const history = createHistory(6);
+    history[0].isPinned = true;
+
+    const context = build(history, { contextWindow: windowFor(2) });
+
+    expect(context.includedIds).toEqual(["m1", "m6"]);
+    expect(context.droppedIds).toEqual(["m2", "m3", "m4", "m5"]);
+  });
+
+  it("should keep pinned messages even over budget", () => {
+    const history = createHistory(2);
+    history[0].isPinned = true;
+    history[0].content = TURN.repeat(50);
+
+    const context = build(history, { contextWindow: windowFor(1) });
+
+    expect(context.includedIds).toEqual(["m1"]);
+    expect(context.promptTokens).toBeGreaterThan(context.budget);
+  });
+
+  it("should leave out system notices, errors and pending replies", () => {
+    const history = createHistory(4);
+    history[1].sender = MessageSender.SYSTEM;
+    history[2].isError = true;
+    history[3].isPending = true;
+
+    const context = build(history, { contextWindow: windowFor(4) });
+
+    expect(context.includedIds).toEqual(["m1"]);
+    expect(context.droppedIds).toEqual([]);
+  });
+
+  it("should put the system prompt first", () => {
+    const context = build(createHistory(2), {
+      systemPrompt: "Be brief.",
+      contextWindow: windowFor(2, [{ role: "system", content: "Be brief." }]),
+    });
+
+    expect(context.messages[0]).toEqual({
+      role: "system",
+      content: "Be brief.",
+    });
+    expect(context.includedIds).toEqual(["m1", "m2"]);
+  });
+
+  describe("with a summary", () => {
+    const summary = {
+      content: "The user asked about budgets.",
+      upToMessageId: "m4",
+      createdAt: 0,
+    };
+
+    it("should replace the summarized turns with the summary", () => {
+      const context = build(createHistory(6), {
+        strategy: "summarize",
+        summary,
+        systemPrompt: "Be brief.",
+        contextWindow: windowFor(6),
+      });
+
+      expect(context.messages.slice(0, 2)).toEqual([
+        { role: "system", content: "Be brief." },
+        {
+          role: "system",
+          content: `Summary of the earlier conversation:\n${summary.content}`,
+        },
+      ]);
+      expect(context.summarizedIds).toEqual(["m1", "m2", "m3", "m4"]);
+      expect(context.includedIds).toEqual(["m5", "m6"]);
+      expect(context.droppedIds).toEqual([]);
+    });
+
+    it("should still send pinned messages the summary covers", () => {
+      const history = createHistory(6);
+      history[1].isPinned = true;
+
+      const context = build(history, {
+        strategy: "summarize",
+        summary,
+        contextWindow: windowFor(6),
+      });
+
+      expect(context.summarizedIds).toEqual(["m1", "m3", "m4"]);
+      expect(context.includedIds).toEqual(["m2", "m5", "m6"]);
+    });
+
+    it("should ignore a summary of messages not in the history", () => {
+      const context = build(createHistory(2), {
+        strategy: "summarize",
+        summary: { ...summary, upToMessageId: "elsewhere" },
+        contextWindow: windowFor(2),
+      });
+
+      expect(context.summarizedIds).toEqual([]);
+      expect(context.messages.every((m) => m.role !== "system")).toBeTrue();
+    });
+
+    it("should not be used with the drop-oldest strategy", () => {
+      const context = build(createHistory(6), {
+        summary,
+        contextWindow: windowFor(6),
+      });
+
+      expect(context.summarizedIds).toEqual([]);
+      expect(context.includedIds.length).toBe(6);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { Injectable } from "@angular/core";
+import {
+  ChatMessage,
+  ContextStrategy,
+  ContextSummary,
+  ContextWindow,
+  MessageAttachment,
+  MessageSender,
+  OpenAIChatMessage,
+} from "../models/chat.interface";
+import {
+  countConversationTokens,
+  countMessageTokens,
+  getContextWindow,
+} from "../utils/token-counter";
+import { getImageAttachments } from "../utils/image-attachments";
+import {
+  formatDocumentsForPrompt,
+  getDocumentAttachments,
+} from "../utils/document-attachments";
+
+export interface ContextBuildOptions {
+  model: string;
+  maxTokens: number;
+  strategy: ContextStrategy;
+  systemPrompt?: string;
+  contextWindow?: number;
+  summary?: ContextSummary;
+  // Without it, images in the history are left out and only text is sent.
+  supportsVision?: boolean;
+}
+
+const SUMMARY_INSTRUCTIONS =
+  "You condense chat transcripts. Summarize the conversation below in a few short paragraphs, keeping the facts, decisions, names and open questions needed to continue it. Reply with the summary only.";
+
+@Injectable({
+  providedIn: "root",
+})
+export class ContextBuilderService {
+  public build(
+    history: ChatMessage[],
+    newUserMessage: string,
+    options: ContextBuildOptions,
+    attachments: MessageAttachment[] = []
+  ): ContextWindow {
+    const contextWindow =
+      options.contextWindow || getContextWindow(options.model);
+    const budget = Math.max(0, contextWindow - options.maxTokens);
+    const head: OpenAIChatMessage[] = [];
+    const userTurn = this.toApiMessage(
+      {
+        id: "",
+        sender: MessageSender.USER,
+        content: newUserMessage,
+        timestamp: 0,
+        attachments,
+      },
+      options.supportsVision
+    );
+
+    if (options.systemPrompt) {
+      head.push({ role: "system", content: options.systemPrompt });
+    }
+
+    const eligible = this.getEligibleMessages(history);
+    let candidates = eligible;
+    let summarizedIds: string[] = [];
+
+    if (options.strategy === "summarize" && options.summary) {
+      const index = eligible.findIndex(
+        (m) => m.id === options.summary?.upToMessageId
+      );
+
+      if (index !== -1) {
+        const covered = eligible.slice(0, index + 1);
+        summarizedIds = covered.filter((m) => !m.isPinned).map((m) => m.id);
+        candidates = [
+          ...covered.filter((m) => m.isPinned),
+          ...eligible.slice(index + 1),
+        ];
+        head.push({
+          role: "system",
+          content: `Summary of the earlier conversation:\n${options.summary.content}`,
+        });
+      }
+    }
+
+    let promptTokens = countConversationTokens(
+      [...head, userTurn],
+      options.model
+    );
+    const included = new Set<string>();
+
+    // Pinned messages are always sent, even if they push us over budget.
+    for (const message of candidates) {
+      if (message.isPinned) {
+        included.add(message.id);
+        promptTokens += this.countTokens(message, options);
+      }
+    }
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const message = candidates[i];
+      if (message.isPinned) continue;
+
+      const tokens = this.countTokens(message, options);
+      if (promptTokens + tokens > budget) break;
+
+      included.add(message.id);
+      promptTokens += tokens;
+    }
+
+    const kept = candidates.filter((m) => included.has(m.id));
+
+    return {
+      messages: [
+        ...head,
+        ...kept.map((m) => this.toApiMessage(m, options.supportsVision)),
+        userTurn,
+      ],
+      includedIds: kept.map((m) => m.id),
+      droppedIds: candidates
+        .filter((m) => !included.has(m.id))
+        .map((m) => m.id),
+      summarizedIds,
+      promptTokens,
+      budget,
+      contextWindow,
+    };
+  }
+
+  /**
+   * Picks the turns to fold into a new summary: everything that was dropped,
+   * plus the oldest sent turns until a quarter of the budget is freed, so the
+   * summary is not regenerated on every message.
+   */
+  public selectTurnsToSummarize(
+    history: ChatMessage[],
+    context: ContextWindow,
+    model: string
+  ): ChatMessage[] {
+    const dropped = new Set(context.droppedIds);
+    const eligible = this.getEligibleMessages(history).filter(
+      (m) => !m.isPinned && !context.summarizedIds.includes(m.id)
+    );
+    const turns: ChatMessage[] = [];
+    let freed = 0;
+
+    for (const message of eligible) {
+      const isDropped = dropped.has(message.id);
+      if (!isDropped && freed >= context.budget / 4) break;
+
+      turns.push(message);
+      if (!isDropped) {
+        freed += this.countTokens(message, { model });
+      }
+    }
+
+    // Keep at least the most recent exchange in full.
+    const latest = eligible.slice(-2).map((m) => m.id);
+    return turns.filter((m) => dropped.has(m.id) || !latest.includes(m.id));
+  }
+
+  public buildSummaryPrompt(
+    turns: ChatMessage[],
+    previous: ContextSummary | undefined,
+    options: Pick<ContextBuildOptions, "model" | "maxTokens" | "contextWindow">
+  ): OpenAIChatMessage[] {
+    const contextWindow =
+      options.contextWindow || getContextWindow(options.model);
+    const budget = Math.max(0, contextWindow - options.maxTokens);
+    const intro = previous
+      ? `Existing summary:\n${previous.content}\n\nNew messages:\n`
+      : "Conversation:\n";
+    const lines = turns.map(
+      (m) =>
+        `${m.sender === MessageSender.USER ? "User" : "Assistant"}: ${
+          m.content
+        }`
+    );
+
+    const build = (): OpenAIChatMessage[] => [
+      { role: "system", content: SUMMARY_INSTRUCTIONS },
+      { role: "user", content: intro + lines.join("\n\n") },
+    ];
+
+    // Oldest turns are the least relevant, so they go first if needed.
+    while (
+      lines.length > 1 &&
+      countConversationTokens(build(), options.model) > budget
+    ) {
+      lines.shift();
+    }
+
+    return build();
+  }
+
+  private getEligibleMessages(history: ChatMessage[]): ChatMessage[] {
+    return history.filter(
+      (m) =>
+        m.sender !== MessageSender.SYSTEM &&
+        !m.isError &&
+        !m.isPending &&
+        (m.content.trim() !== "" || !!m.attachments?.length)
+    );
+  }
+
+  private countTokens(
+    message: ChatMessage,
+    options: Pick<ContextBuildOptions, "model" | "supportsVision">
+  ): number {
+    return countMessageTokens(
+      this.toApiMessage(message, options.supportsVision),
+      options.model
+    );
+  }
+
+  private toApiMessage(
+    message: ChatMessage,
+    withImages: boolean = false
+  ): OpenAIChatMessage {
+    const apiMessage: OpenAIChatMessage = {
+      role: message.sender === MessageSender.USER ? "user" : "assistant",
+      content: formatDocumentsForPrompt(
+        message.content,
+        getDocumentAttachments(message)
+      ),
+    };
+    const images = getImageAttachments(message);
+
+    if (withImages && images.length) {
+      apiMessage.images = images;
+    } else if (images.length) {
+      // Keeps the turn meaningful (and non-empty) for text-only models.
+      apiMessage.content = [
+        apiMessage.content,
+        ...images.map((image) => `[Image: ${image.name}]`),
+      ]
+        .filter(Boolean)
+        .join("\n");
+    }
+    return apiMessage;
+  }
+}
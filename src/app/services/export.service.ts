@@ -0,0 +1,146 @@
+import { Injectable } from "@angular/core";
+import { ChatHistory } from "../models/chat.interface";
+import {
+  ConversationExporter,
+  ExportFormat,
+  ExportOptions,
+} from "../models/export.interface";
+import { HtmlExporter, PdfExporter } from "../exporters/html.exporter";
+import { MarkdownExporter } from "../exporters/markdown.exporter";
+import { ChatStorageService } from "./chat-storage.service";
+import { MarkdownService } from "./markdown.service";
+import { SettingsService } from "./settings.service";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON (backup, re-importable)" },
+  { format: "markdown", label: "Markdown" },
+  { format: "html", label: "HTML page" },
+  { format: "pdf", label: "PDF (print)" },
+];
+
+/**
+ * Turns conversations from the storage index into downloadable files. JSON
+ * stays the storage service's own backup format; the other formats are for
+ * reading and sharing.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class ExportService {
+  private exporters = new Map<ExportFormat, ConversationExporter>();
+
+  constructor(
+    private chatStorage: ChatStorageService,
+    private settings: SettingsService,
+    markdown: MarkdownService
+  ) {
+    [
+      new MarkdownExporter(),
+      new HtmlExporter(markdown),
+      new PdfExporter(markdown),
+    ].forEach((exporter) => this.exporters.set(exporter.format, exporter));
+  }
+
+  public getFormat(): ExportFormat {
+    return this.settings.get().export.format;
+  }
+
+  public getOptions(): ExportOptions {
+    return { ...this.settings.get().export.options };
+  }
+
+  // Saved with the user settings so every export entry point agrees.
+  public setPreferences(format: ExportFormat, options: ExportOptions): void {
+    this.settings.update({ export: { format, options: { ...options } } });
+  }
+
+  /**
+   * Exports with the given format and options, or the saved ones. Resolves
+   * to false when nothing could be exported.
+   */
+  public async exportConversations(
+    conversationIds: string[],
+    format: ExportFormat = this.getFormat(),
+    options: ExportOptions = this.getOptions()
+  ): Promise<boolean> {
+    if (!conversationIds.length) {
+      return false;
+    }
+
+    if (format === "json") {
+      const json =
+        conversationIds.length === 1
+          ? await this.chatStorage.exportConversation(conversationIds[0])
+          : await this.chatStorage.exportConversations(conversationIds);
+      if (!json) {
+        return false;
+      }
+      this.download(json, `${this.getBaseName()}.json`, "application/json");
+      return true;
+    }
+
+    const conversations = await this.chatStorage.getConversations(
+      conversationIds
+    );
+    if (!conversations.length) {
+      return false;
+    }
+
+    const exporter = this.exporters.get(format)!;
+    const content = exporter.export(conversations, options);
+
+    if (format === "pdf") {
+      this.print(content);
+    } else {
+      this.download(
+        content,
+        `${this.getBaseName(conversations)}.${exporter.extension}`,
+        exporter.mimeType
+      );
+    }
+    return true;
+  }
+
+  private getBaseName(conversations: ChatHistory[] = []): string {
+    const date = new Date().toISOString().slice(0, 10);
+    const title =
+      conversations.length === 1 ? conversations[0].metadata.title : "";
+    const slug = (title || "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 50);
+
+    return slug ? `${slug}-${date}` : `ai-chat-export-${date}`;
+  }
+
+  private download(content: string, filename: string, mimeType: string): void {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  // A hidden frame avoids popup blockers; "Save as PDF" is in the dialog.
+  private print(html: string): void {
+    const frame = document.createElement("iframe");
+    frame.style.position = "fixed";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "0";
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) return;
+      frameWindow.onafterprint = () => frame.remove();
+      frameWindow.focus();
+      frameWindow.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  }
+}
@@ -0,0 +1,137 @@
+import { ChatHistory, MessageSender } from "../models/chat.interface";
+import { ChatStorageService } from "./chat-storage.service";
+import { ImportService } from "./import.service";
+
+function createService(): {
+  service: ImportService;
+  imported: ChatHistory[];
+} {
+  const imported: ChatHistory[] = [];
+  const chatStorage = jasmine.createSpyObj<ChatStorageService>("chatStorage", [
+    "addImportedConversation",
+  ]);
+  chatStorage.addImportedConversation.and.callFake((conversation) => {
+    imported.push(conversation);
+    return conversation.metadata.id;
+  });
+
+  return { service: new ImportService(chatStorage), imported };
+}
+
+describe("ImportService", () => {
+  it("should import Claude conversations in message order", () => {
+    const { service, imported } = createService();
+
+    const report = service.importFile(
+      JSON.stringify([
+        {
+          uuid: "claude-1",
+          name: "Haiku help",
+          created_at: "2024-05-01T10:00:00Z",
+          chat_messages: [
+            {
+              uuid: "m1",
+              sender: "human",
+              text: "Write a haiku",
+              created_at: "2024-05-01T10:00:01Z",
+            },
+            {
+              uuid: "m2",
+              sender: "assistant",
+              content: [{ type: "text", text: "Autumn moonlight" }],
+              created_at: "2024-05-01T10:00:02Z",
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(report.format).toBe("claude");
+    expect(report.imported).toBe(1);
+
+    const [conversation] = imported;
+    expect(conversation.metadata.title).toBe("Haiku help");
+    expect(conversation.messages.map((m) => m.sender)).toEqual([
+      MessageSender.USER,
+      MessageSender.AI,
+    ]);
+    expect(conversation.messages[1].content).toBe("Autumn moonlight");
+    expect(conversation.messages[1].parentId).toBe("m1");
+    expect(conversation.messages[0].timestamp).toBe(
+      Date.parse("2024-05-01T10:00:01Z")
+    );
+  });
+
+  it("should import role/content transcripts and skip unknown roles", () => {
+    const { service, imported } = createService();
+
+    const report = service.importFile(
+      JSON.stringify({
+        title: "API log",
+        created: 1700000000,
+        messages: [
+          { role: "system", content: "Be brief." },
+          { role: "user", content: [{ type: "text", text: "Hi" }] },
+          { role: "tool", content: "ignored" },
+          { role: "assistant", content: "Hello!", model: "gpt-4o-mini" },
+        ],
+      })
+    );
+
+    expect(report.format).toBe("openai-messages");
+
+    const [conversation] = imported;
+    expect(conversation.messages.map((m) => m.content)).toEqual([
+      "Be brief.",
+      "Hi",
+      "Hello!",
+    ]);
+    // Spaced a second apart after the conversation start.
+    expect(conversation.messages.map((m) => m.timestamp)).toEqual([
+      1700000001000, 1700000002000, 1700000003000,
+    ]);
+    expect(conversation.messages[2].metadata?.model).toBe("gpt-4o-mini");
+  });
+
+  it("should prefer this app's format over the others", () => {
+    const { service } = createService();
+
+    const report = service.importFile(
+      JSON.stringify({
+        metadata: { id: "app-1", title: "Exported" },
+        messages: [{ role: "user", content: "Hi" }],
+      })
+    );
+
+    expect(report.format).toBe("app");
+  });
+
+  it("should report each conversation on its own", () => {
+    const { service } = createService();
+
+    const report = service.importFile(
+      JSON.stringify([
+        { name: "Empty", chat_messages: [] },
+        {
+          name: "Fine",
+          chat_messages: [{ sender: "human", text: "Hello" }],
+        },
+      ])
+    );
+
+    expect(report.imported).toBe(1);
+    expect(report.failed).toBe(1);
+    expect(report.results[0]).toEqual({
+      title: "Empty",
+      error: "No messages to import",
+    });
+    expect(report.results[1].title).toBe("Fine");
+  });
+
+  it("should not recognise files that are not JSON or of an unknown shape", () => {
+    const { service } = createService();
+
+    expect(service.importFile("not json").format).toBeNull();
+    expect(service.importFile('{"hello": "world"}').format).toBeNull();
+  });
+});
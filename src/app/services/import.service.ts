@@ -0,0 +1,77 @@
+import { Injectable } from "@angular/core";
+import {
+  ConversationImporter,
+  ImportFormat,
+  ImportReport,
+  ImportResult,
+} from "../models/import.interface";
+import { AppImporter } from "../importers/app.importer";
+import { ChatGptImporter } from "../importers/chatgpt.importer";
+import { ClaudeImporter } from "../importers/claude.importer";
+import { OpenAiMessagesImporter } from "../importers/openai-messages.importer";
+import { ChatStorageService } from "./chat-storage.service";
+
+/**
+ * Reads chat exports from this app and other tools. The format is detected
+ * from the file's shape, and each conversation in it succeeds or fails on
+ * its own.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class ImportService {
+  // Checked in order; the first importer that recognises the file wins.
+  private importers: ConversationImporter[] = [
+    new AppImporter(),
+    new ChatGptImporter(),
+    new ClaudeImporter(),
+    new OpenAiMessagesImporter(),
+  ];
+
+  constructor(private chatStorage: ChatStorageService) {}
+
+  public getFormatLabel(format: ImportFormat): string {
+    return this.importers.find((i) => i.format === format)?.label || format;
+  }
+
+  public importFile(json: string, replace: boolean = false): ImportReport {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return { format: null, results: [], imported: 0, failed: 0 };
+    }
+
+    const importer = this.importers.find((i) => i.detect(data));
+    if (!importer) {
+      return { format: null, results: [], imported: 0, failed: 0 };
+    }
+
+    const results: ImportResult[] = importer.split(data).map((item) => {
+      try {
+        const conversation = importer.convert(item.source);
+        const conversationId = this.chatStorage.addImportedConversation(
+          conversation,
+          replace
+        );
+        return {
+          title: conversation.metadata.title || item.title,
+          conversationId,
+        };
+      } catch (error) {
+        return {
+          title: item.title,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+    const imported = results.filter((r) => r.conversationId).length;
+
+    return {
+      format: importer.format,
+      results,
+      imported,
+      failed: results.length - imported,
+    };
+  }
+}
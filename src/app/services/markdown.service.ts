@@ -0,0 +1,180 @@
+import { Injectable, SecurityContext } from "@angular/core";
+import { DomSanitizer } from "@angular/platform-browser";
+import { Marked, Token, Tokens } from "marked";
+import hljs from "highlight.js/lib/common";
+import { escapeHtml } from "../utils/html";
+
+export interface MarkdownHtmlBlock {
+  kind: "html";
+  raw: string;
+  html: string;
+}
+
+export interface MarkdownCodeBlock {
+  kind: "code";
+  raw: string;
+  code: string;
+  language: string;
+  html: string;
+}
+
+export type MarkdownBlock = MarkdownHtmlBlock | MarkdownCodeBlock;
+
+export interface MarkdownRenderState {
+  source: string;
+  committedLength: number;
+  committedBlocks: MarkdownBlock[];
+  blocks: MarkdownBlock[];
+}
+
+@Injectable({
+  providedIn: "root",
+})
+export class MarkdownService {
+  private marked: Marked;
+
+  constructor(private sanitizer: DomSanitizer) {
+    this.marked = new Marked({
+      gfm: true,
+      breaks: true,
+      renderer: {
+        html: (html: string) => escapeHtml(html),
+        code: (code: string, infostring: string | undefined) => {
+          const language = this.getLanguage(infostring);
+          return `<pre><code class="hljs">${this.highlight(
+            code,
+            language
+          )}</code></pre>`;
+        },
+        link: (href: string, title: string | null | undefined, text: string) =>
+          `<a href="${escapeHtml(href)}"${
+            title ? ` title="${escapeHtml(title)}"` : ""
+          } target="_blank" rel="noopener noreferrer">${text}</a>`,
+        listitem: (text: string, task: boolean) =>
+          task
+            ? `<li class="task-list-item">${text}</li>\n`
+            : `<li>${text}</li>\n`,
+        checkbox: (checked: boolean) =>
+          `<span class="task-checkbox${checked ? " checked" : ""}">${
+            checked ? "&#9745;" : "&#9744;"
+          }</span> `,
+      },
+    });
+  }
+
+  public render(source: string): MarkdownBlock[] {
+    return this.marked
+      .lexer(this.normalize(source))
+      .map((token) => this.renderToken(token))
+      .filter((block): block is MarkdownBlock => !!block);
+  }
+
+  /**
+   * Re-lexes only the text after the last committed block. A block is
+   * committed once a later block has started, so earlier blocks keep their
+   * rendered HTML while a message is still streaming.
+   */
+  public renderIncremental(
+    source: string,
+    previous: MarkdownRenderState | null
+  ): MarkdownRenderState {
+    const normalized = this.normalize(source);
+    const reusable =
+      previous &&
+      normalized.startsWith(previous.source.slice(0, previous.committedLength));
+
+    let committedLength = reusable ? previous.committedLength : 0;
+    const committedBlocks = reusable ? [...previous.committedBlocks] : [];
+
+    const tail = normalized.slice(committedLength);
+    const tokens = this.marked.lexer(tail);
+    let cursor = 0;
+    let index = 0;
+
+    for (; index < tokens.length; index++) {
+      const token = tokens[index];
+      const next = tokens.slice(index + 1).find((t) => t.type !== "space");
+
+      // Lists can still grow into the following block while streaming.
+      if (!next || (token.type === "list" && next.type === "list")) break;
+
+      const start = tail.indexOf(token.raw, cursor);
+      if (start === -1) break;
+      cursor = start + token.raw.length;
+
+      const block = this.renderToken(token);
+      if (block) {
+        committedBlocks.push(block);
+      }
+    }
+
+    committedLength += cursor;
+
+    const liveBlocks = tokens
+      .slice(index)
+      .map((token) => this.renderToken(token))
+      .filter((block): block is MarkdownBlock => !!block);
+
+    return {
+      source: normalized,
+      committedLength,
+      committedBlocks,
+      blocks: [...committedBlocks, ...liveBlocks],
+    };
+  }
+
+  public highlight(code: string, language: string): string {
+    let html: string;
+
+    if (language && hljs.getLanguage(language)) {
+      html = hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } else {
+      html = escapeHtml(code);
+    }
+
+    return this.sanitize(html);
+  }
+
+  private renderToken(token: Token): MarkdownBlock | null {
+    if (token.type === "space") {
+      return null;
+    }
+
+    if (token.type === "code") {
+      const codeToken = token as Tokens.Code;
+      const language = this.getLanguage(codeToken.lang);
+      return {
+        kind: "code",
+        raw: codeToken.raw,
+        code: codeToken.text,
+        language,
+        html: this.highlight(codeToken.text, language),
+      };
+    }
+
+    return {
+      kind: "html",
+      raw: token.raw,
+      html: this.sanitize(this.marked.parser([token])),
+    };
+  }
+
+  private getLanguage(infostring: string | undefined): string {
+    return (infostring || "").trim().split(/\s+/)[0].toLowerCase();
+  }
+
+  private normalize(source: string): string {
+    // Mirror the lexer's own preprocessing so token offsets match the source.
+    return source
+      .replace(/\r\n|\r/g, "\n")
+      .replace(
+        /^( *)(\t+)/gm,
+        (_, leading: string, tabs: string) =>
+          leading + "    ".repeat(tabs.length)
+      );
+  }
+
+  private sanitize(html: string): string {
+    return this.sanitizer.sanitize(SecurityContext.HTML, html) || "";
+  }
+}
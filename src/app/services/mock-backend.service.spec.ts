@@ -0,0 +1,250 @@
+import { HttpErrorResponse } from "@angular/common/http";
+import { Observable, Subscription, firstValueFrom } from "rxjs";
+import { environment } from "../../environments/environment";
+import { OpenAIChatRequest } from "../models/chat.interface";
+import { ProviderHttpRequest } from "../models/provider.interface";
+import { MockBackendService } from "./mock-backend.service";
+
+function createRequest(
+  content: OpenAIChatRequest["messages"][number]["content"] = "Hello there"
+): ProviderHttpRequest {
+  const body: OpenAIChatRequest = {
+    model: "mock-model",
+    messages: [{ role: "user", content }],
+  };
+  return { url: "mock://local/v1/chat/completions", headers: {}, body };
+}
+
+function createService(
+  config: Partial<typeof environment.debug.mock> = {}
+): MockBackendService {
+  const service = new MockBackendService();
+  service["config"] = {
+    ...environment.debug.mock,
+    firstTokenLatency: 0,
+    tokenLatency: 0,
+    failureRate: 0,
+    responses: [],
+    ...config,
+  };
+  return service;
+}
+
+function expectHttpError(
+  observable: Observable<unknown>
+): Promise<HttpErrorResponse> {
+  return firstValueFrom(observable).then(
+    () => {
+      throw new Error("Expected the request to fail");
+    },
+    (error: HttpErrorResponse) => error
+  );
+}
+
+describe("MockBackendService", () => {
+  describe("post", () => {
+    it("should answer with an OpenAI-shaped completion and usage", async () => {
+      const service = createService({ responses: ["Canned reply"] });
+
+      const response: any = await firstValueFrom(service.post(createRequest()));
+
+      expect(response.object).toBe("chat.completion");
+      expect(response.model).toBe("mock-model");
+      expect(response.choices[0].message).toEqual({
+        role: "assistant",
+        content: "Canned reply",
+      });
+      expect(response.usage.prompt_tokens).toBeGreaterThan(0);
+      expect(response.usage.total_tokens).toBe(
+        response.usage.prompt_tokens + response.usage.completion_tokens
+      );
+    });
+
+    it("should echo the prompt and count images when no replies are configured", async () => {
+      const service = createService();
+
+      const response: any = await firstValueFrom(
+        service.post(
+          createRequest([
+            { type: "text", text: "What is in this picture?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64," } },
+          ])
+        )
+      );
+      const content: string = response.choices[0].message.content;
+
+      expect(content).toContain('"What is in this picture?"');
+      expect(content).toContain("1 image(s)");
+    });
+
+    it("should use canned replies in turn", async () => {
+      const service = createService({ responses: ["one", "two"] });
+      const reply = async () =>
+        ((await firstValueFrom(service.post(createRequest()))) as any)
+          .choices[0].message.content;
+
+      expect([await reply(), await reply(), await reply()]).toEqual([
+        "one",
+        "two",
+        "one",
+      ]);
+    });
+
+    it("should answer after the first-token latency plus one delay per word", () => {
+      jasmine.clock().install();
+      try {
+        const service = createService({
+          firstTokenLatency: 400,
+          tokenLatency: 30,
+        });
+        service.enqueue({ content: "three short words" });
+        let response: unknown;
+        service.post(createRequest()).subscribe((r) => (response = r));
+
+        jasmine.clock().tick(400 + 3 * 30 - 1);
+        expect(response).toBeUndefined();
+
+        jasmine.clock().tick(1);
+        expect(response).toBeDefined();
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it("should multiply the latency while the slow network is simulated", () => {
+      const service = createService({ slowNetworkFactor: 5 });
+      const debug = environment.debug as { slowNetworkSimulation: boolean };
+      const original = debug.slowNetworkSimulation;
+
+      try {
+        debug.slowNetworkSimulation = true;
+        expect(service["latency"](100)).toBe(500);
+        debug.slowNetworkSimulation = false;
+        expect(service["latency"](100)).toBe(100);
+      } finally {
+        debug.slowNetworkSimulation = original;
+      }
+    });
+
+    it("should fail injected 401, 429 and 500 steps with HTTP errors", async () => {
+      const service = createService();
+      service.enqueue(
+        { failure: "401" },
+        { failure: "429" },
+        { failure: "500" }
+      );
+
+      const unauthorized = await expectHttpError(service.post(createRequest()));
+      const rateLimited = await expectHttpError(service.post(createRequest()));
+      const serverError = await expectHttpError(service.post(createRequest()));
+
+      expect(unauthorized.status).toBe(401);
+      expect(rateLimited.status).toBe(429);
+      expect(rateLimited.headers.get("Retry-After")).toBe("2");
+      expect(serverError.status).toBe(500);
+      expect(serverError.error.error.message).toContain("(mock)");
+    });
+
+    it("should never answer an injected timeout", () => {
+      jasmine.clock().install();
+      let subscription: Subscription | undefined;
+      try {
+        const service = createService();
+        service.enqueue({ failure: "timeout" });
+        const next = jasmine.createSpy("next");
+        const error = jasmine.createSpy("error");
+        const complete = jasmine.createSpy("complete");
+
+        subscription = service
+          .post(createRequest())
+          .subscribe({ next, error, complete });
+        jasmine.clock().tick(10 * 60 * 1000);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(error).not.toHaveBeenCalled();
+        expect(complete).not.toHaveBeenCalled();
+      } finally {
+        subscription?.unsubscribe();
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it("should fail at random with the configured failure rate", async () => {
+      const service = createService({ failureRate: 1, failures: ["500"] });
+
+      const error = await expectHttpError(service.post(createRequest()));
+
+      expect(error.status).toBe(500);
+    });
+
+    it("should consume one scripted step per request and forget them on reset", async () => {
+      const service = createService({ responses: ["configured"] });
+      service.enqueue({ content: "scripted" }, { failure: "500" });
+
+      const first: any = await firstValueFrom(service.post(createRequest()));
+      expect(first.choices[0].message.content).toBe("scripted");
+
+      service.reset();
+      const second: any = await firstValueFrom(service.post(createRequest()));
+      expect(second.choices[0].message.content).toBe("configured");
+    });
+  });
+
+  describe("stream", () => {
+    async function readEvents(response: Response): Promise<string[]> {
+      const text = await response.text();
+      return text
+        .split("\n\n")
+        .filter(Boolean)
+        .map((event) => event.replace(/^data: /, ""));
+    }
+
+    it("should stream one word per chunk, then usage and [DONE]", async () => {
+      const service = createService();
+      service.enqueue({ content: "Streamed mock reply" });
+
+      const response = await firstValueFrom(service.stream(createRequest()));
+      const events = await readEvents(response);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(events[events.length - 1]).toBe("[DONE]");
+
+      const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+      const words = chunks
+        .map((chunk) => chunk.choices[0].delta.content)
+        .filter((content) => content !== undefined);
+      expect(words).toEqual(["Streamed ", "mock ", "reply"]);
+
+      const last = chunks[chunks.length - 1];
+      expect(last.choices[0].finish_reason).toBe("stop");
+      expect(last.usage.completion_tokens).toBeGreaterThan(0);
+    });
+
+    it("should resolve failures as error responses, like fetch", async () => {
+      const service = createService();
+      service.enqueue({ failure: "429" });
+
+      const response = await firstValueFrom(service.stream(createRequest()));
+
+      expect(response.ok).toBeFalse();
+      expect(response.status).toBe(429);
+      expect(response.headers.get("Retry-After")).toBe("2");
+      expect((await response.json()).error.message).toContain("Rate limit");
+    });
+  });
+
+  describe("get", () => {
+    it("should list the mock models", async () => {
+      const service = createService();
+
+      const models: any = await firstValueFrom(service.get());
+
+      expect(models.data.map((m: { id: string }) => m.id)).toEqual([
+        "mock-model",
+        "mock-model-large",
+        "mock-vision",
+      ]);
+    });
+  });
+});
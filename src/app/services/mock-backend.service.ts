@@ -0,0 +1,321 @@
+import { Injectable } from "@angular/core";
+import { HttpErrorResponse, HttpHeaders } from "@angular/common/http";
+import { NEVER, Observable, defer, throwError, timer } from "rxjs";
+import { map, mergeMap } from "rxjs/operators";
+import { environment } from "../../environments/environment";
+import {
+  OpenAIChatMessage,
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIRequestMessage,
+  OpenAIUsage,
+} from "../models/chat.interface";
+import { ProviderHttpRequest } from "../models/provider.interface";
+import { countConversationTokens, countTokens } from "../utils/token-counter";
+
+export type MockFailure = "401" | "429" | "500" | "timeout";
+
+// One scripted answer: a reply, or a failure.
+export type MockStep = { content: string } | { failure: MockFailure };
+
+type MockHttpFailure = Exclude<MockFailure, "timeout">;
+
+const FAILURE_RESPONSES: Record<
+  MockHttpFailure,
+  { status: number; statusText: string; message: string }
+> = {
+  "401": {
+    status: 401,
+    statusText: "Unauthorized",
+    message: "Incorrect API key provided (mock).",
+  },
+  "429": {
+    status: 429,
+    statusText: "Too Many Requests",
+    message: "Rate limit reached (mock).",
+  },
+  "500": {
+    status: 500,
+    statusText: "Internal Server Error",
+    message: "The server had an error while processing your request (mock).",
+  },
+};
+
+// "vision" in an id marks it as image-capable.
+const MOCK_MODELS = ["mock-model", "mock-model-large", "mock-vision"];
+const RETRY_AFTER_SECONDS = "2";
+const ECHO_LENGTH = 80;
+
+/**
+ * Answers the mock provider's requests in-app with OpenAI-shaped responses.
+ * Replies stream word by word with the configured latency; failures come
+ * back as real HTTP errors (or never arrive, for timeouts) so the app's own
+ * retry and error handling runs. Scripted steps take precedence over the
+ * environment config, which keeps tests deterministic.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class MockBackendService {
+  private config = environment.debug.mock;
+  private script: MockStep[] = [];
+  private responseIndex = 0;
+
+  // Each step answers one request attempt, retries included.
+  public enqueue(...steps: MockStep[]): void {
+    this.script.push(...steps);
+  }
+
+  public reset(): void {
+    this.script = [];
+    this.responseIndex = 0;
+  }
+
+  // The model list, for the models request.
+  public get(): Observable<unknown> {
+    return defer(() =>
+      timer(this.latency(this.config.firstTokenLatency)).pipe(
+        map(() => ({
+          object: "list",
+          data: MOCK_MODELS.map((id) => ({ id, owned_by: "mock" })),
+        }))
+      )
+    );
+  }
+
+  public post(request: ProviderHttpRequest): Observable<unknown> {
+    return defer(() => {
+      const body = request.body as OpenAIChatRequest;
+      const step = this.nextStep(body.messages);
+
+      if ("failure" in step) {
+        return this.fail(step.failure, request.url);
+      }
+
+      const words = this.splitWords(step.content);
+      return timer(
+        this.latency(this.config.firstTokenLatency) +
+          words.length * this.latency(this.config.tokenLatency)
+      ).pipe(map(() => this.createCompletion(body, step.content)));
+    });
+  }
+
+  // Resolves like fetch: failed requests still produce a Response.
+  public stream(request: ProviderHttpRequest): Observable<Response> {
+    return defer(() => {
+      const body = request.body as OpenAIChatRequest;
+      const step = this.nextStep(body.messages);
+
+      if ("failure" in step && step.failure === "timeout") {
+        return NEVER;
+      }
+
+      return timer(this.latency(this.config.firstTokenLatency)).pipe(
+        map(() =>
+          "failure" in step
+            ? this.createErrorResponse(step.failure as MockHttpFailure)
+            : new Response(this.createEventStream(body, step.content), {
+                status: 200,
+                headers: { "Content-Type": "text/event-stream" },
+              })
+        )
+      );
+    });
+  }
+
+  private nextStep(messages: OpenAIRequestMessage[]): MockStep {
+    const scripted = this.script.shift();
+    if (scripted) {
+      return scripted;
+    }
+
+    if (Math.random() < this.config.failureRate) {
+      const failures = this.config.failures as MockFailure[];
+      return {
+        failure: failures.length
+          ? failures[Math.floor(Math.random() * failures.length)]
+          : "500",
+      };
+    }
+
+    const responses = this.config.responses;
+    if (responses.length) {
+      return {
+        content: responses[this.responseIndex++ % responses.length],
+      };
+    }
+
+    return { content: this.createEchoReply(messages) };
+  }
+
+  private createEchoReply(messages: OpenAIRequestMessage[]): string {
+    const last = [...messages].reverse().find((m) => m.role === "user");
+    const prompt = last ? this.toTextMessage(last).content : "";
+    const images =
+      last && Array.isArray(last.content)
+        ? last.content.filter((part) => part.type === "image_url").length
+        : 0;
+    const excerpt =
+      prompt.length > ECHO_LENGTH
+        ? `${prompt.slice(0, ECHO_LENGTH).trimEnd()}…`
+        : prompt;
+
+    return [
+      `This is a **mock reply** to: "${excerpt.replace(/\s+/g, " ")}"`,
+      ...(images ? ["", `It came with ${images} image(s).`] : []),
+      "",
+      "No request left the browser. Turn off `debug.mockResponses` in the environment to talk to a real provider.",
+      "",
+      "```ts",
+      `console.log("mock reply");`,
+      "```",
+    ].join("\n");
+  }
+
+  private fail(failure: MockFailure, url: string): Observable<never> {
+    if (failure === "timeout") {
+      return NEVER;
+    }
+
+    const response = FAILURE_RESPONSES[failure];
+    return timer(this.latency(this.config.firstTokenLatency)).pipe(
+      mergeMap(() =>
+        throwError(
+          () =>
+            new HttpErrorResponse({
+              status: response.status,
+              statusText: response.statusText,
+              url,
+              headers: new HttpHeaders(this.createErrorHeaders(failure)),
+              error: { error: { message: response.message } },
+            })
+        )
+      )
+    );
+  }
+
+  private createErrorResponse(failure: MockHttpFailure): Response {
+    const response = FAILURE_RESPONSES[failure];
+
+    return new Response(
+      JSON.stringify({ error: { message: response.message } }),
+      {
+        status: response.status,
+        statusText: response.statusText,
+        headers: {
+          "Content-Type": "application/json",
+          ...this.createErrorHeaders(failure),
+        },
+      }
+    );
+  }
+
+  private createErrorHeaders(failure: MockHttpFailure): Record<string, string> {
+    return failure === "429" ? { "Retry-After": RETRY_AFTER_SECONDS } : {};
+  }
+
+  private createCompletion(
+    body: OpenAIChatRequest,
+    content: string
+  ): OpenAIChatResponse {
+    return {
+      id: `mock-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: this.createUsage(body, content),
+    };
+  }
+
+  // Server-sent events in OpenAI's chunk format, one word per event.
+  private createEventStream(
+    body: OpenAIChatRequest,
+    content: string
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const words = this.splitWords(content);
+    const id = `mock-${Date.now()}`;
+    let pending: ReturnType<typeof setTimeout> | undefined;
+
+    const event = (data: unknown) =>
+      encoder.encode(
+        `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`
+      );
+    const chunk = (delta: object, finishReason: string | null) => ({
+      id,
+      object: "chat.completion.chunk",
+      model: body.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        let index = 0;
+
+        const push = () => {
+          if (index < words.length) {
+            controller.enqueue(event(chunk({ content: words[index++] }, null)));
+            pending = setTimeout(push, this.latency(this.config.tokenLatency));
+            return;
+          }
+
+          controller.enqueue(
+            event({
+              ...chunk({}, "stop"),
+              usage: this.createUsage(body, content),
+            })
+          );
+          controller.enqueue(event("[DONE]"));
+          controller.close();
+        };
+
+        push();
+      },
+      cancel: () => clearTimeout(pending),
+    });
+  }
+
+  private createUsage(body: OpenAIChatRequest, content: string): OpenAIUsage {
+    const promptTokens = countConversationTokens(
+      body.messages.map((m) => this.toTextMessage(m)),
+      body.model
+    );
+    const completionTokens = countTokens(content, body.model);
+
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  private toTextMessage(message: OpenAIRequestMessage): OpenAIChatMessage {
+    return {
+      role: message.role,
+      content:
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .flatMap((part) => (part.type === "text" ? [part.text] : []))
+              .join("\n"),
+    };
+  }
+
+  // Words keep their trailing whitespace so the chunks join back exactly.
+  private splitWords(content: string): string[] {
+    return content.match(/\s+|\S+\s*/g) || [];
+  }
+
+  private latency(ms: number): number {
+    return environment.debug.slowNetworkSimulation
+      ? ms * this.config.slowNetworkFactor
+      : ms;
+  }
+}
@@ -0,0 +1,81 @@
+import { Injectable } from "@angular/core";
+import { environment } from "../../environments/environment";
+import { MessageCost, ModelPricing } from "../models/pricing.interface";
+import { ChatProviderType } from "../models/provider.interface";
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+@Injectable({
+  providedIn: "root",
+})
+export class PricingService {
+  private pricing = new Map<string, ModelPricing>();
+  private freeProviders = new Set<string>(environment.pricing.freeProviders);
+
+  constructor() {
+    for (const [model, pricing] of Object.entries(environment.pricing.models)) {
+      this.register(model, pricing);
+    }
+  }
+
+  public register(model: string, pricing: ModelPricing): void {
+    this.pricing.set(model.toLowerCase(), pricing);
+  }
+
+  public list(): { model: string; pricing: ModelPricing }[] {
+    return Array.from(this.pricing.entries()).map(([model, pricing]) => ({
+      model,
+      pricing,
+    }));
+  }
+
+  /**
+   * Resolves the rates for a model. Dated snapshots such as
+   * "gpt-4o-2024-08-06" fall back to the longest registered prefix.
+   */
+  public getPricing(
+    model: string,
+    provider?: ChatProviderType
+  ): ModelPricing | undefined {
+    if (provider && this.freeProviders.has(provider)) {
+      return { input: 0, output: 0 };
+    }
+
+    const normalized = model.toLowerCase();
+    const exact = this.pricing.get(normalized);
+    if (exact) {
+      return exact;
+    }
+
+    let match: string | undefined;
+    for (const key of this.pricing.keys()) {
+      if (normalized.startsWith(key) && (!match || key.length > match.length)) {
+        match = key;
+      }
+    }
+
+    return match ? this.pricing.get(match) : undefined;
+  }
+
+  public calculateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    provider?: ChatProviderType
+  ): MessageCost | undefined {
+    const pricing = this.getPricing(model, provider);
+    if (!pricing) {
+      return undefined;
+    }
+
+    const promptCost = (promptTokens / TOKENS_PER_UNIT) * pricing.input;
+    const completionCost =
+      (completionTokens / TOKENS_PER_UNIT) * pricing.output;
+
+    return {
+      promptCost,
+      completionCost,
+      totalCost: promptCost + completionCost,
+    };
+  }
+}
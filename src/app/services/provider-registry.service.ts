@@ -0,0 +1,61 @@
+import { Injectable } from "@angular/core";
+import { environment } from "../../environments/environment";
+import { ChatProvider, ChatProviderType } from "../models/provider.interface";
+import { OpenAiProvider } from "../providers/openai.provider";
+import { AzureOpenAiProvider } from "../providers/azure-openai.provider";
+import { AnthropicProvider } from "../providers/anthropic.provider";
+import { OllamaProvider } from "../providers/ollama.provider";
+import { LlamaCppProvider } from "../providers/llama-cpp.provider";
+import { MockProvider } from "../providers/mock.provider";
+
+@Injectable({
+  providedIn: "root",
+})
+export class ProviderRegistryService {
+  private providers = new Map<ChatProviderType, ChatProvider>();
+
+  readonly defaultProviderType = (environment.debug.mockResponses
+    ? "mock"
+    : environment.providers.default) as ChatProviderType;
+
+  constructor() {
+    this.register(
+      new OpenAiProvider({
+        apiUrl: environment.openai.apiUrl,
+        apiKey: environment.openai.apiKey,
+        apiVersion: environment.openai.apiVersion,
+        model: environment.openai.model,
+      })
+    );
+    this.register(new AzureOpenAiProvider(environment.providers.azureOpenai));
+    this.register(new AnthropicProvider(environment.providers.anthropic));
+    this.register(new OllamaProvider(environment.providers.ollama));
+    this.register(new LlamaCppProvider(environment.providers.llamaCpp));
+
+    if (environment.debug.mockResponses) {
+      this.register(new MockProvider());
+    }
+  }
+
+  public register(provider: ChatProvider): void {
+    this.providers.set(provider.type, provider);
+  }
+
+  public get(type: ChatProviderType): ChatProvider {
+    const provider = this.providers.get(type);
+
+    if (!provider) {
+      throw new Error(`Unknown chat provider: ${type}`);
+    }
+
+    return provider;
+  }
+
+  public has(type: string): type is ChatProviderType {
+    return this.providers.has(type as ChatProviderType);
+  }
+
+  public list(): ChatProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
@@ -0,0 +1,274 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import {
+  SearchFilters,
+  SearchResult,
+  SearchTerm,
+} from "../models/search.interface";
+import { getAllMessages } from "../utils/message-tree";
+import { buildSnippet, parseSearchQuery, tokenize } from "../utils/text-search";
+
+interface IndexedDocument {
+  conversationId: string;
+  messageId: string;
+  sender: MessageSender;
+  timestamp: number;
+  content: string;
+  terms: string[];
+}
+
+// Bare words shorter than this only match whole words.
+const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * In-memory inverted index over message content. Postings map each term to
+ * the documents containing it and the token positions, which is enough to
+ * check phrases without rescanning the text.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class SearchIndexService {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number[]>>();
+  private conversationDocs = new Map<string, Set<string>>();
+
+  private sizeSubject = new BehaviorSubject<number>(0);
+  public size$ = this.sizeSubject.asObservable();
+
+  public indexMessage(conversationId: string, message: ChatMessage): void {
+    const key = this.documentKey(conversationId, message.id);
+    this.removeDocument(key);
+
+    if (
+      message.sender === MessageSender.SYSTEM ||
+      message.isPending ||
+      message.isError ||
+      !message.content.trim()
+    ) {
+      this.sizeSubject.next(this.documents.size);
+      return;
+    }
+
+    const terms = tokenize(message.content).map((t) => t.term);
+
+    this.documents.set(key, {
+      conversationId,
+      messageId: message.id,
+      sender: message.sender,
+      timestamp: message.timestamp,
+      content: message.content,
+      terms,
+    });
+
+    terms.forEach((term, position) => {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      const positions = docs.get(key);
+      if (positions) {
+        positions.push(position);
+      } else {
+        docs.set(key, [position]);
+      }
+    });
+
+    let keys = this.conversationDocs.get(conversationId);
+    if (!keys) {
+      keys = new Set();
+      this.conversationDocs.set(conversationId, keys);
+    }
+    keys.add(key);
+
+    this.sizeSubject.next(this.documents.size);
+  }
+
+  // Indexes every message, including those on inactive branches.
+  public indexConversation(conversation: ChatHistory): void {
+    const id = conversation.metadata.id;
+    this.removeConversation(id);
+
+    for (const message of getAllMessages(conversation)) {
+      this.indexMessage(id, message);
+    }
+  }
+
+  public removeConversation(conversationId: string): void {
+    const keys = this.conversationDocs.get(conversationId);
+
+    if (keys) {
+      [...keys].forEach((key) => this.removeDocument(key));
+      this.conversationDocs.delete(conversationId);
+    }
+
+    this.sizeSubject.next(this.documents.size);
+  }
+
+  public clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.conversationDocs.clear();
+    this.sizeSubject.next(0);
+  }
+
+  /**
+   * Every term in the query must match. Results are ranked by how often the
+   * terms occur, with phrase hits counting once per word, then by recency.
+   * Filters given here override operators written in the query.
+   */
+  public search(
+    query: string,
+    filters: SearchFilters = {},
+    limit = 50
+  ): SearchResult[] {
+    const parsed = parseSearchQuery(query);
+    const effective: SearchFilters = { ...parsed.filters, ...filters };
+
+    if (!parsed.terms.length) {
+      return [];
+    }
+
+    let candidates: Map<string, number> | null = null;
+    const matchedTerms = new Set<string>();
+
+    for (const term of parsed.terms) {
+      const hits = this.matchTerm(term, matchedTerms);
+      const next = new Map<string, number>();
+
+      for (const [key, count] of hits) {
+        if (!candidates) {
+          next.set(key, count);
+        } else if (candidates.has(key)) {
+          next.set(key, candidates.get(key)! + count);
+        }
+      }
+
+      candidates = next;
+      if (!candidates.size) {
+        return [];
+      }
+    }
+
+    const results: SearchResult[] = [];
+
+    for (const [key, score] of candidates!) {
+      const doc = this.documents.get(key)!;
+
+      if (
+        (effective.sender && doc.sender !== effective.sender) ||
+        (effective.from !== undefined && doc.timestamp < effective.from) ||
+        (effective.to !== undefined && doc.timestamp > effective.to)
+      ) {
+        continue;
+      }
+
+      results.push({
+        conversationId: doc.conversationId,
+        messageId: doc.messageId,
+        sender: doc.sender,
+        timestamp: doc.timestamp,
+        score,
+        snippet: [],
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+
+    // Snippets are only built for the results that are returned.
+    return results.slice(0, limit).map((result) => ({
+      ...result,
+      snippet: buildSnippet(
+        this.documents.get(
+          this.documentKey(result.conversationId, result.messageId)
+        )!.content,
+        (term) => matchedTerms.has(term)
+      ),
+    }));
+  }
+
+  /**
+   * Returns the documents containing the term with their hit counts, and
+   * collects the indexed words that matched for highlighting.
+   */
+  private matchTerm(
+    term: SearchTerm,
+    matchedTerms: Set<string>
+  ): Map<string, number> {
+    const tokenPositions = term.tokens.map((token) => {
+      const positions = new Map<string, Set<number>>();
+
+      for (const word of this.expandToken(token, term.exact)) {
+        for (const [key, list] of this.postings.get(word)!) {
+          let set = positions.get(key);
+          if (!set) {
+            set = new Set();
+            positions.set(key, set);
+          }
+          list.forEach((p) => set!.add(p));
+        }
+        matchedTerms.add(word);
+      }
+
+      return positions;
+    });
+
+    const hits = new Map<string, number>();
+    const [first, ...rest] = tokenPositions;
+
+    for (const [key, starts] of first) {
+      let count = 0;
+
+      for (const start of starts) {
+        if (
+          rest.every((positions, i) => positions.get(key)?.has(start + i + 1))
+        ) {
+          count++;
+        }
+      }
+
+      if (count) {
+        hits.set(key, count * term.tokens.length);
+      }
+    }
+
+    return hits;
+  }
+
+  private expandToken(token: string, exact: boolean): string[] {
+    if (exact || token.length < MIN_PREFIX_LENGTH) {
+      return this.postings.has(token) ? [token] : [];
+    }
+
+    return [...this.postings.keys()].filter((word) => word.startsWith(token));
+  }
+
+  private removeDocument(key: string): void {
+    const doc = this.documents.get(key);
+
+    if (!doc) {
+      return;
+    }
+
+    for (const term of new Set(doc.terms)) {
+      const docs = this.postings.get(term);
+      docs?.delete(key);
+      if (docs && !docs.size) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(key);
+    this.conversationDocs.get(doc.conversationId)?.delete(key);
+  }
+
+  private documentKey(conversationId: string, messageId: string): string {
+    return `${conversationId}/${messageId}`;
+  }
+}
@@ -0,0 +1,118 @@
+import { environment } from "../../environments/environment";
+import {
+  USER_SETTINGS_VERSION,
+  getDefaultUserSettings,
+} from "../utils/user-settings";
+import { SettingsService } from "./settings.service";
+
+const SETTINGS_KEY = environment.storage.userSettings;
+
+function readStored(): { version: number; settings: any } {
+  return JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+}
+
+describe("SettingsService", () => {
+  beforeEach(() => {
+    localStorage.removeItem(SETTINGS_KEY);
+    localStorage.removeItem("darkMode");
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(SETTINGS_KEY);
+    localStorage.removeItem("darkMode");
+  });
+
+  it("should start from the defaults when nothing is stored", () => {
+    const service = new SettingsService();
+
+    expect(service.get()).toEqual(getDefaultUserSettings());
+  });
+
+  it("should migrate the legacy dark mode key and remove it", () => {
+    localStorage.setItem("darkMode", "true");
+
+    const service = new SettingsService();
+
+    expect(service.get().theme).toBe("dark");
+    expect(localStorage.getItem("darkMode")).toBeNull();
+    expect(readStored().version).toBe(USER_SETTINGS_VERSION);
+    expect(readStored().settings.theme).toBe("dark");
+  });
+
+  it("should keep unversioned settings while migrating them", () => {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({ settings: { fontSize: "large" } })
+    );
+    localStorage.setItem("darkMode", "false");
+
+    const service = new SettingsService();
+
+    expect(service.get().fontSize).toBe("large");
+    expect(service.get().theme).toBe("light");
+  });
+
+  it("should not read the legacy key once settings are current", () => {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({
+        version: USER_SETTINGS_VERSION,
+        settings: { theme: "system" },
+      })
+    );
+    localStorage.setItem("darkMode", "true");
+
+    const service = new SettingsService();
+
+    expect(service.get().theme).toBe("system");
+  });
+
+  it("should replace invalid stored values with defaults", () => {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({
+        version: USER_SETTINGS_VERSION,
+        settings: {
+          theme: "neon",
+          sendOnEnter: "yes",
+          maxHistoryLength: "20",
+          autoSaveInterval: -5,
+          titles: { enabled: false },
+        },
+      })
+    );
+
+    const settings = new SettingsService().get();
+    const defaults = getDefaultUserSettings();
+
+    expect(settings.theme).toBe(defaults.theme);
+    expect(settings.sendOnEnter).toBe(defaults.sendOnEnter);
+    expect(settings.maxHistoryLength).toBe(20);
+    expect(settings.autoSaveInterval).toBe(0);
+    expect(settings.titles).toEqual({ ...defaults.titles, enabled: false });
+  });
+
+  it("should fall back to the defaults when the stored JSON is broken", () => {
+    localStorage.setItem(SETTINGS_KEY, "{not json");
+    spyOn(console, "warn");
+
+    const service = new SettingsService();
+
+    expect(service.get()).toEqual(getDefaultUserSettings());
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("should emit and persist updates", () => {
+    const service = new SettingsService();
+    const emitted: string[] = [];
+    service.settings$.subscribe((s) => emitted.push(s.fontSize));
+
+    service.update({ fontSize: "small" });
+
+    expect(emitted).toEqual(["medium", "small"]);
+    expect(readStored()).toEqual({
+      version: USER_SETTINGS_VERSION,
+      settings: service.get(),
+    });
+  });
+});
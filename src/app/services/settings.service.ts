@@ -0,0 +1,140 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { environment } from "../../environments/environment";
+import { UserSettings } from "../models/chat.interface";
+import {
+  USER_SETTINGS_VERSION,
+  getDefaultUserSettings,
+  normalizeUserSettings,
+} from "../utils/user-settings";
+
+interface StoredUserSettings {
+  version: number;
+  settings: unknown;
+}
+
+// Key used before the settings were stored together.
+const LEGACY_DARK_MODE_KEY = "darkMode";
+
+/**
+ * Owns the user's preferences: loads them once, upgrades whatever an older
+ * version saved, and persists every change under one versioned key.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class SettingsService {
+  private readonly USER_SETTINGS_KEY = environment.storage.userSettings;
+
+  // Step n upgrades settings saved by version n to version n + 1.
+  private readonly migrations: Record<
+    number,
+    (settings: Record<string, any>) => Record<string, any>
+  > = {
+    0: (settings) => this.migrateLegacyDarkMode(settings),
+  };
+
+  private settingsSubject = new BehaviorSubject<UserSettings>(
+    this.loadSettings()
+  );
+
+  public settings$ = this.settingsSubject.asObservable();
+
+  public get(): UserSettings {
+    return this.settingsSubject.getValue();
+  }
+
+  public update(changes: Partial<UserSettings>): void {
+    this.save(normalizeUserSettings({ ...this.get(), ...changes }));
+  }
+
+  public reset(): void {
+    this.save(getDefaultUserSettings());
+  }
+
+  // Resolves "system" against the browser's current color scheme.
+  public isDarkTheme(settings: UserSettings = this.get()): boolean {
+    return settings.theme === "system"
+      ? window.matchMedia("(prefers-color-scheme: dark)").matches
+      : settings.theme === "dark";
+  }
+
+  private save(settings: UserSettings): void {
+    this.settingsSubject.next(settings);
+    this.persist(settings);
+  }
+
+  private persist(settings: UserSettings): void {
+    try {
+      const stored: StoredUserSettings = {
+        version: USER_SETTINGS_VERSION,
+        settings,
+      };
+      localStorage.setItem(this.USER_SETTINGS_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn("Failed to save settings:", error);
+    }
+  }
+
+  private loadSettings(): UserSettings {
+    let stored: Partial<StoredUserSettings> = {};
+
+    try {
+      const json = localStorage.getItem(this.USER_SETTINGS_KEY);
+      stored = json ? JSON.parse(json) : {};
+    } catch (error) {
+      console.warn("Failed to load settings, using defaults:", error);
+    }
+
+    let version = typeof stored.version === "number" ? stored.version : 0;
+    let settings: Record<string, any> =
+      stored.settings && typeof stored.settings === "object"
+        ? stored.settings
+        : {};
+
+    if (version >= USER_SETTINGS_VERSION) {
+      return normalizeUserSettings(settings);
+    }
+
+    while (version < USER_SETTINGS_VERSION) {
+      settings = this.migrations[version]?.(settings) ?? settings;
+      version++;
+    }
+
+    const migrated = normalizeUserSettings(settings);
+    this.persist(migrated);
+    this.removeLegacyDarkMode();
+
+    if (!environment.production && environment.debug?.enabled) {
+      console.log(`Migrated settings to version ${USER_SETTINGS_VERSION}`);
+    }
+
+    return migrated;
+  }
+
+  // The dark mode toggle used to have a key of its own.
+  private migrateLegacyDarkMode(
+    settings: Record<string, any>
+  ): Record<string, any> {
+    const migrated = { ...settings };
+
+    try {
+      const darkMode = localStorage.getItem(LEGACY_DARK_MODE_KEY);
+      if (darkMode === "true" || darkMode === "false") {
+        migrated["theme"] = darkMode === "true" ? "dark" : "light";
+      }
+    } catch (error) {
+      console.warn("Failed to read legacy settings:", error);
+    }
+
+    return migrated;
+  }
+
+  private removeLegacyDarkMode(): void {
+    try {
+      localStorage.removeItem(LEGACY_DARK_MODE_KEY);
+    } catch (error) {
+      console.warn("Failed to remove legacy settings:", error);
+    }
+  }
+}
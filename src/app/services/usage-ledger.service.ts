@@ -0,0 +1,272 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { v4 as uuidv4 } from "uuid";
+import { environment } from "../../environments/environment";
+import {
+  BudgetPeriod,
+  BudgetStatus,
+  UsageBreakdown,
+  UsageBudgets,
+  UsageRecord,
+} from "../models/usage.interface";
+
+@Injectable({
+  providedIn: "root",
+})
+export class UsageLedgerService {
+  private readonly LEDGER_KEY = environment.storage.usageLedger;
+  private readonly BUDGETS_KEY = environment.storage.usageBudgets;
+  private readonly MAX_RECORDS = environment.usage.maxRecords;
+
+  private recordsSubject = new BehaviorSubject<UsageRecord[]>([]);
+  private budgetsSubject = new BehaviorSubject<UsageBudgets>(
+    environment.usage.budgets as UsageBudgets
+  );
+  private budgetStatusSubject = new BehaviorSubject<BudgetStatus>({
+    level: "ok",
+  });
+
+  public records$ = this.recordsSubject.asObservable();
+  public budgets$ = this.budgetsSubject.asObservable();
+  public budgetStatus$ = this.budgetStatusSubject.asObservable();
+
+  constructor() {
+    this.recordsSubject.next(this.loadRecords());
+    this.budgetsSubject.next(this.loadBudgets());
+    this.updateBudgetStatus();
+  }
+
+  public record(entry: Omit<UsageRecord, "id" | "timestamp">): UsageRecord {
+    const record: UsageRecord = {
+      ...entry,
+      id: uuidv4(),
+      timestamp: Date.now(),
+    };
+
+    // Oldest records are dropped first once the ledger is full.
+    const records = [...this.recordsSubject.getValue(), record].slice(
+      -this.MAX_RECORDS
+    );
+
+    this.saveRecords(records);
+    this.updateBudgetStatus();
+    return record;
+  }
+
+  public getRecords(): UsageRecord[] {
+    return this.recordsSubject.getValue();
+  }
+
+  public clear(): void {
+    this.saveRecords([]);
+    this.updateBudgetStatus();
+  }
+
+  public getBudgets(): UsageBudgets {
+    return this.budgetsSubject.getValue();
+  }
+
+  public setBudgets(budgets: UsageBudgets): boolean {
+    try {
+      localStorage.setItem(this.BUDGETS_KEY, JSON.stringify(budgets));
+      this.budgetsSubject.next(budgets);
+      this.updateBudgetStatus();
+      return true;
+    } catch (error) {
+      this.handleStorageError("Failed to save usage budgets", error);
+      return false;
+    }
+  }
+
+  public getSpend(period: BudgetPeriod, now: Date = new Date()): number {
+    const start =
+      period === "daily"
+        ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        : new Date(now.getFullYear(), now.getMonth(), 1);
+
+    return this.recordsSubject
+      .getValue()
+      .filter((r) => r.timestamp >= start.getTime())
+      .reduce((total, r) => total + (r.cost || 0), 0);
+  }
+
+  public checkBudget(): BudgetStatus {
+    const budgets = this.budgetsSubject.getValue();
+    const periods: BudgetPeriod[] = ["daily", "monthly"];
+    const spend = {
+      daily: this.getSpend("daily"),
+      monthly: this.getSpend("monthly"),
+    };
+
+    for (const level of ["hard", "soft"] as const) {
+      for (const period of periods) {
+        const limit = budgets[period]?.[level];
+        if (limit !== null && limit !== undefined && spend[period] >= limit) {
+          return {
+            level,
+            period,
+            spent: spend[period],
+            limit,
+            message:
+              level === "hard"
+                ? `The ${period} budget of $${limit.toFixed(
+                    2
+                  )} has been reached. Raise it in the usage dashboard to keep chatting.`
+                : `You have spent $${spend[period].toFixed(
+                    4
+                  )} of your ${period} budget (warning at $${limit.toFixed(
+                    2
+                  )}).`,
+          };
+        }
+      }
+    }
+
+    return { level: "ok" };
+  }
+
+  public getTimeBreakdown(
+    groupBy: "day" | "month",
+    since?: number
+  ): UsageBreakdown[] {
+    return this.breakdown((r) => {
+      const date = new Date(r.timestamp);
+      const month = `${date.getFullYear()}-${String(
+        date.getMonth() + 1
+      ).padStart(2, "0")}`;
+      return groupBy === "month"
+        ? month
+        : `${month}-${String(date.getDate()).padStart(2, "0")}`;
+    }, since).sort((a, b) => b.key.localeCompare(a.key));
+  }
+
+  public getModelBreakdown(since?: number): UsageBreakdown[] {
+    return this.breakdown((r) => `${r.provider}:${r.model}`, since).sort(
+      (a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens
+    );
+  }
+
+  public getConversationBreakdown(since?: number): UsageBreakdown[] {
+    return this.breakdown((r) => r.conversationId || "", since).sort(
+      (a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens
+    );
+  }
+
+  public exportCsv(): string {
+    const header = [
+      "timestamp",
+      "kind",
+      "conversationId",
+      "provider",
+      "model",
+      "promptTokens",
+      "completionTokens",
+      "totalTokens",
+      "cost",
+      "latency",
+      "estimated",
+    ];
+    const rows = this.recordsSubject
+      .getValue()
+      .map((r) =>
+        [
+          new Date(r.timestamp).toISOString(),
+          r.kind,
+          r.conversationId || "",
+          r.provider,
+          r.model,
+          r.promptTokens,
+          r.completionTokens,
+          r.totalTokens,
+          r.cost ?? "",
+          r.latency,
+          r.estimated ? "true" : "false",
+        ]
+          .map((value) => `"${String(value).replace(/"/g, '""')}"`)
+          .join(",")
+      );
+
+    return [header.join(","), ...rows].join("\n");
+  }
+
+  private breakdown(
+    keyOf: (record: UsageRecord) => string,
+    since?: number
+  ): UsageBreakdown[] {
+    const groups = new Map<string, UsageBreakdown>();
+
+    for (const record of this.recordsSubject.getValue()) {
+      if (since !== undefined && record.timestamp < since) continue;
+
+      const key = keyOf(record);
+      const group = groups.get(key) || {
+        key,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        averageLatency: 0,
+      };
+
+      group.averageLatency =
+        (group.averageLatency * group.requests + record.latency) /
+        (group.requests + 1);
+      group.requests++;
+      group.promptTokens += record.promptTokens;
+      group.completionTokens += record.completionTokens;
+      group.totalTokens += record.totalTokens;
+      group.cost += record.cost || 0;
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  private updateBudgetStatus(): void {
+    this.budgetStatusSubject.next(this.checkBudget());
+  }
+
+  private loadRecords(): UsageRecord[] {
+    try {
+      const json = localStorage.getItem(this.LEDGER_KEY);
+      const records = json ? JSON.parse(json) : [];
+      return Array.isArray(records) ? records : [];
+    } catch (error) {
+      this.handleStorageError("Failed to load usage ledger", error);
+      return [];
+    }
+  }
+
+  private saveRecords(records: UsageRecord[]): void {
+    try {
+      localStorage.setItem(this.LEDGER_KEY, JSON.stringify(records));
+    } catch (error) {
+      this.handleStorageError("Failed to save usage ledger", error);
+    }
+    this.recordsSubject.next(records);
+  }
+
+  private loadBudgets(): UsageBudgets {
+    const defaults = environment.usage.budgets as UsageBudgets;
+
+    try {
+      const json = localStorage.getItem(this.BUDGETS_KEY);
+      if (!json) {
+        return defaults;
+      }
+      const budgets = JSON.parse(json) as Partial<UsageBudgets>;
+      return {
+        daily: { ...defaults.daily, ...budgets.daily },
+        monthly: { ...defaults.monthly, ...budgets.monthly },
+      };
+    } catch (error) {
+      this.handleStorageError("Failed to load usage budgets", error);
+      return defaults;
+    }
+  }
+
+  private handleStorageError(message: string, error: any): void {
+    console.error(message, error);
+  }
+}
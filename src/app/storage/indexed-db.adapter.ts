@@ -0,0 +1,282 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  ConversationMetadata,
+} from "../models/chat.interface";
+import {
+  ChatStorageAdapter,
+  StorageBackend,
+  StorageEstimate,
+} from "../models/storage.interface";
+import { CONVERSATION_FORMAT_VERSION } from "../utils/message-tree";
+
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = "conversations";
+const MESSAGES_STORE = "messages";
+const REMEMBERED_CONVERSATIONS = 5;
+
+interface StoredConversation {
+  id: string;
+  metadata: ConversationMetadata;
+  version?: number;
+}
+
+interface StoredMessage {
+  conversationId: string;
+  id: string;
+  position: number;
+  branch: boolean;
+  message: ChatMessage;
+}
+
+/**
+ * Stores conversation metadata and messages in separate object stores, so
+ * saving a long conversation does not mean serializing it into one string.
+ * Messages are keyed by [conversationId, id] and indexed by conversation.
+ */
+export class IndexedDbAdapter implements ChatStorageAdapter {
+  readonly backend: StorageBackend = "indexeddb";
+  private db: IDBDatabase | null = null;
+  // What was last read or written per conversation, by message id. Only the
+  // most recent few are kept.
+  private saved = new Map<string, Map<string, StoredMessage>>();
+
+  constructor(private name: string) {}
+
+  open(): Promise<void> {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not supported"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.name, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+          const messages = db.createObjectStore(MESSAGES_STORE, {
+            keyPath: ["conversationId", "id"],
+          });
+          messages.createIndex("conversationId", "conversationId");
+        }
+      };
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        reject(new Error("IndexedDB upgrade blocked by another tab"));
+    });
+  }
+
+  async loadIndex(): Promise<ConversationMetadata[]> {
+    const tx = this.transaction([CONVERSATIONS_STORE], "readonly");
+    const records = await this.request<StoredConversation[]>(
+      tx.objectStore(CONVERSATIONS_STORE).getAll()
+    );
+
+    return records.map((record) => record.metadata);
+  }
+
+  async loadConversation(id: string): Promise<ChatHistory | null> {
+    const tx = this.transaction(
+      [CONVERSATIONS_STORE, MESSAGES_STORE],
+      "readonly"
+    );
+    const [record, stored] = await Promise.all([
+      this.request<StoredConversation | undefined>(
+        tx.objectStore(CONVERSATIONS_STORE).get(id)
+      ),
+      this.request<StoredMessage[]>(
+        tx
+          .objectStore(MESSAGES_STORE)
+          .index("conversationId")
+          .getAll(IDBKeyRange.only(id))
+      ),
+    ]);
+
+    if (!record) {
+      return null;
+    }
+
+    stored.sort((a, b) => a.position - b.position);
+    // Older formats are upgraded in place after loading, so their messages
+    // are written in full on the next save.
+    if (record.version === CONVERSATION_FORMAT_VERSION) {
+      this.remember(id, new Map(stored.map((s) => [s.id, s])));
+    }
+
+    return {
+      metadata: record.metadata,
+      messages: stored.filter((s) => !s.branch).map((s) => s.message),
+      branches: stored.filter((s) => s.branch).map((s) => s.message),
+      version: record.version,
+    };
+  }
+
+  /**
+   * Writes only the messages that changed since this conversation was last
+   * loaded or saved, and deletes the ones that are gone. Messages are
+   * replaced rather than mutated when they change (see
+   * ChatStorageService.updateMessage), so an unchanged message is the same
+   * object. Conversations not seen yet are written in full.
+   */
+  saveConversation(conversation: ChatHistory): Promise<void> {
+    const id = conversation.metadata.id;
+    const tx = this.transaction(
+      [CONVERSATIONS_STORE, MESSAGES_STORE],
+      "readwrite"
+    );
+    const messages = tx.objectStore(MESSAGES_STORE);
+    const previous = this.saved.get(id);
+    const next = new Map<string, StoredMessage>();
+
+    tx.objectStore(CONVERSATIONS_STORE).put({
+      id,
+      metadata: conversation.metadata,
+      version: conversation.version,
+    } as StoredConversation);
+
+    // Requests in one transaction run in order, so the puts land after this.
+    if (!previous) {
+      messages.delete(this.conversationRange(id));
+    }
+
+    const put = (message: ChatMessage, position: number, branch: boolean) => {
+      const record: StoredMessage = {
+        conversationId: id,
+        id: message.id,
+        position,
+        branch,
+        message,
+      };
+      const before = previous?.get(message.id);
+      if (
+        !before ||
+        before.message !== message ||
+        before.position !== position ||
+        before.branch !== branch
+      ) {
+        messages.put(record);
+      }
+      next.set(message.id, record);
+    };
+
+    conversation.messages.forEach((m, i) => put(m, i, false));
+    (conversation.branches || []).forEach((m, i) => put(m, i, true));
+
+    for (const messageId of previous?.keys() || []) {
+      if (!next.has(messageId)) {
+        messages.delete([id, messageId]);
+      }
+    }
+
+    this.remember(id, next);
+    return this.complete(tx).catch((error) => {
+      // Unknown what was written; the next save writes everything again.
+      this.saved.delete(id);
+      throw error;
+    });
+  }
+
+  saveMetadata(metadata: ConversationMetadata): Promise<void> {
+    const tx = this.transaction([CONVERSATIONS_STORE], "readwrite");
+    const store = tx.objectStore(CONVERSATIONS_STORE);
+    const request = store.get(metadata.id);
+    let missing = false;
+
+    // Put from the callback: the transaction may commit before a promise
+    // continuation runs.
+    request.onsuccess = () => {
+      const record = request.result as StoredConversation | undefined;
+      if (!record) {
+        missing = true;
+        tx.abort();
+        return;
+      }
+      store.put({ ...record, metadata } as StoredConversation);
+    };
+
+    return this.complete(tx).catch((error) => {
+      throw missing
+        ? new Error(`Conversation ${metadata.id} not found`)
+        : error;
+    });
+  }
+
+  deleteConversation(id: string): Promise<void> {
+    const tx = this.transaction(
+      [CONVERSATIONS_STORE, MESSAGES_STORE],
+      "readwrite"
+    );
+    tx.objectStore(CONVERSATIONS_STORE).delete(id);
+    tx.objectStore(MESSAGES_STORE).delete(this.conversationRange(id));
+    this.saved.delete(id);
+
+    return this.complete(tx);
+  }
+
+  clear(): Promise<void> {
+    const tx = this.transaction(
+      [CONVERSATIONS_STORE, MESSAGES_STORE],
+      "readwrite"
+    );
+    tx.objectStore(CONVERSATIONS_STORE).clear();
+    tx.objectStore(MESSAGES_STORE).clear();
+    this.saved.clear();
+
+    return this.complete(tx);
+  }
+
+  async estimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) {
+      return null;
+    }
+
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { used: usage, quota } : null;
+  }
+
+  private transaction(
+    stores: string[],
+    mode: IDBTransactionMode
+  ): IDBTransaction {
+    if (!this.db) {
+      throw new Error("IndexedDB is not open");
+    }
+    return this.db.transaction(stores, mode);
+  }
+
+  private remember(id: string, records: Map<string, StoredMessage>): void {
+    this.saved.delete(id);
+    this.saved.set(id, records);
+    for (const oldest of this.saved.keys()) {
+      if (this.saved.size <= REMEMBERED_CONVERSATIONS) break;
+      this.saved.delete(oldest);
+    }
+  }
+
+  // Arrays sort after strings, so [id, []] is above every [id, messageId].
+  private conversationRange(id: string): IDBKeyRange {
+    return IDBKeyRange.bound([id], [id, []]);
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+    });
+  }
+}
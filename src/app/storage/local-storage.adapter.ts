@@ -0,0 +1,111 @@
+import { ChatHistory, ConversationMetadata } from "../models/chat.interface";
+import {
+  ChatStorageAdapter,
+  StorageBackend,
+  StorageEstimate,
+} from "../models/storage.interface";
+
+// Browsers cap localStorage at roughly 5M characters per origin.
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * Keeps each conversation as one JSON entry under `${prefix}_${id}`, next to
+ * an index entry under `${prefix}_index`.
+ */
+export class LocalStorageAdapter implements ChatStorageAdapter {
+  readonly backend: StorageBackend = "localstorage";
+
+  constructor(private prefix: string) {}
+
+  async open(): Promise<void> {
+    const test = `${this.prefix}_test`;
+    localStorage.setItem(test, test);
+    localStorage.removeItem(test);
+  }
+
+  async loadIndex(): Promise<ConversationMetadata[]> {
+    const json = localStorage.getItem(`${this.prefix}_index`);
+
+    if (!json) {
+      return [];
+    }
+
+    const conversations = JSON.parse(json) as ConversationMetadata[];
+
+    if (!Array.isArray(conversations)) {
+      throw new Error("Invalid conversations index format");
+    }
+
+    return conversations;
+  }
+
+  async loadConversation(id: string): Promise<ChatHistory | null> {
+    const json = localStorage.getItem(`${this.prefix}_${id}`);
+    return json ? (JSON.parse(json) as ChatHistory) : null;
+  }
+
+  async saveConversation(conversation: ChatHistory): Promise<void> {
+    localStorage.setItem(
+      `${this.prefix}_${conversation.metadata.id}`,
+      JSON.stringify(conversation)
+    );
+    await this.updateIndex(conversation.metadata);
+  }
+
+  async saveMetadata(metadata: ConversationMetadata): Promise<void> {
+    const conversation = await this.loadConversation(metadata.id);
+
+    if (!conversation) {
+      throw new Error(`Conversation ${metadata.id} not found`);
+    }
+
+    await this.saveConversation({ ...conversation, metadata });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    localStorage.removeItem(`${this.prefix}_${id}`);
+    await this.saveIndex((await this.loadIndex()).filter((c) => c.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    const conversations = await this.loadIndex();
+
+    for (const conversation of conversations) {
+      localStorage.removeItem(`${this.prefix}_${conversation.id}`);
+    }
+
+    localStorage.removeItem(`${this.prefix}_index`);
+  }
+
+  private async updateIndex(metadata: ConversationMetadata): Promise<void> {
+    const conversations = await this.loadIndex();
+    const index = conversations.findIndex((c) => c.id === metadata.id);
+
+    if (index !== -1) {
+      conversations[index] = metadata;
+    } else {
+      conversations.push(metadata);
+    }
+
+    await this.saveIndex(conversations);
+  }
+
+  private async saveIndex(
+    conversations: ConversationMetadata[]
+  ): Promise<void> {
+    localStorage.setItem(`${this.prefix}_index`, JSON.stringify(conversations));
+  }
+
+  async estimate(): Promise<StorageEstimate | null> {
+    let used = 0;
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key) {
+        used += key.length + (localStorage.getItem(key) || "").length;
+      }
+    }
+
+    return { used, quota: LOCAL_STORAGE_QUOTA };
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  ChatMessage,
+  MessageSender,
+  OpenAIChatMessage,
+} from "../models/chat.interface";
+
+export const DEFAULT_CONVERSATION_TITLE = "New conversation";
+
+const TITLE_MAX_LENGTH = 60;
+const MAX_TAGS = 3;
+// Long first messages add cost without helping the title.
+const EXCERPT_LENGTH = 1500;
+
+const TITLE_INSTRUCTIONS =
+  "You name chat conversations. Reply with a title of at most six words that describes the conversation below. No quotes and no trailing punctuation.";
+
+const TITLE_AND_TAGS_INSTRUCTIONS = `You name and tag chat conversations. Reply with JSON only, in the form {"title": "...", "tags": ["..."]}: a title of at most six words, and up to ${MAX_TAGS} short lowercase topic tags.`;
+
+export interface GeneratedTitle {
+  title: string;
+  tags: string[];
+}
+
+export function buildTitlePrompt(
+  exchange: ChatMessage[],
+  withTags: boolean
+): OpenAIChatMessage[] {
+  const transcript = exchange
+    .map(
+      (m) =>
+        `${m.sender === MessageSender.USER ? "User" : "Assistant"}: ${
+          m.content.length > EXCERPT_LENGTH
+            ? `${m.content.slice(0, EXCERPT_LENGTH)}…`
+            : m.content
+        }`
+    )
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content: withTags ? TITLE_AND_TAGS_INSTRUCTIONS : TITLE_INSTRUCTIONS,
+    },
+    { role: "user", content: transcript },
+  ];
+}
+
+/**
+ * Accepts either the JSON shape asked for when tagging or a bare title, as
+ * smaller models often ignore the format.
+ */
+export function parseTitleResponse(content: string): GeneratedTitle {
+  let title = content.trim();
+  let tags: string[] = [];
+  const json = /\{[\s\S]*\}/.exec(title);
+
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]);
+      if (typeof parsed.title === "string") {
+        title = parsed.title;
+      }
+      if (Array.isArray(parsed.tags)) {
+        tags = parsed.tags.filter((t: unknown) => typeof t === "string");
+      }
+    } catch {
+      // Not JSON after all; use the text as the title.
+    }
+  }
+
+  title = title
+    .split("\n")[0]
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'“”*#\s]+|["'“”*.\s]+$/g, "");
+
+  if (title.length > TITLE_MAX_LENGTH) {
+    title = `${title.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`;
+  }
+
+  return {
+    title,
+    tags: [
+      ...new Set(
+        tags
+          .map((t) => t.trim().toLowerCase().replace(/^#/, ""))
+          .filter(Boolean)
+      ),
+    ].slice(0, MAX_TAGS),
+  };
+}
@@ -0,0 +1,76 @@
+// AES-GCM with a PBKDF2-derived key. GCM authenticates the data, so a wrong
+// passphrase makes decryption fail instead of returning garbage.
+const PBKDF2_ITERATIONS = 250000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export async function deriveKey(
+  passphrase: string,
+  salt: string
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: fromBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptText(
+  key: CryptoKey,
+  text: string
+): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+// Rejects when the key does not match or the value was tampered with.
+export async function decryptText(
+  key: CryptoKey,
+  value: EncryptedValue
+): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  );
+
+  return new TextDecoder().decode(data);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from "uuid";
+import { environment } from "../../environments/environment";
+import {
+  ChatMessage,
+  DocumentAttachment,
+  DocumentFormat,
+} from "../models/chat.interface";
+import { formatFileSize } from "./image-attachments";
+import { extractPdfText } from "./pdf-text";
+import { countTokens } from "./token-counter";
+
+const DOCUMENT_CONFIG = environment.attachments.documents;
+
+// Long lines (minified code, CSV without breaks) are cut at this many
+// characters per token budget.
+const CHARS_PER_TOKEN = 3;
+
+// For the file picker's accept attribute.
+export const DOCUMENT_ACCEPT = Object.values(DOCUMENT_CONFIG.extensions)
+  .flat()
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+export function getDocumentAttachments(
+  message: ChatMessage
+): DocumentAttachment[] {
+  return (message.attachments || []).filter(
+    (a): a is DocumentAttachment => a.kind === "document"
+  );
+}
+
+export function getDocumentFormat(file: File): DocumentFormat | null {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  const extensions = DOCUMENT_CONFIG.extensions as Record<
+    DocumentFormat,
+    string[]
+  >;
+  const format = (Object.keys(extensions) as DocumentFormat[]).find((key) =>
+    extensions[key].includes(extension)
+  );
+
+  if (format) return format;
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type === "application/json") return "json";
+  if (file.type.startsWith("text/")) return "text";
+  return null;
+}
+
+export function isDocumentFile(file: File): boolean {
+  return getDocumentFormat(file) !== null;
+}
+
+/**
+ * Reads a document's text in the browser. Text files are decoded as UTF-8;
+ * PDFs go through the built-in extractor, which cannot read scanned pages.
+ */
+export async function createDocumentAttachment(
+  file: File
+): Promise<DocumentAttachment> {
+  const format = getDocumentFormat(file);
+  if (!format) {
+    throw new Error(
+      `${file.name}: only text, Markdown, code, CSV, JSON and PDF files are supported`
+    );
+  }
+  if (file.size > DOCUMENT_CONFIG.maxFileSize) {
+    throw new Error(
+      `${file.name} is larger than ${formatFileSize(
+        DOCUMENT_CONFIG.maxFileSize
+      )}`
+    );
+  }
+
+  let text: string;
+  let pages: number | undefined;
+
+  if (format === "pdf") {
+    try {
+      ({ text, pages } = await extractPdfText(await file.arrayBuffer()));
+    } catch (error: any) {
+      throw new Error(`${file.name}: ${error.message}`);
+    }
+    if (!text) {
+      throw new Error(
+        `${file.name} has no extractable text; scanned PDFs need OCR first`
+      );
+    }
+  } else {
+    text = (await file.text()).replace(/^﻿/, "");
+    if (text.includes("\u0000")) {
+      throw new Error(`${file.name} looks like a binary file`);
+    }
+  }
+
+  text = text.replace(/\r\n?/g, "\n").trimEnd();
+  if (!text.trim()) {
+    throw new Error(`${file.name} is empty`);
+  }
+
+  return {
+    id: uuidv4(),
+    kind: "document",
+    name: file.name,
+    mimeType: file.type || "text/plain",
+    format,
+    text,
+    tokens: countTokens(text),
+    size: file.size,
+    pages,
+  };
+}
+
+// Splits at line breaks so that each part stays near the token budget.
+export function chunkDocumentText(
+  text: string,
+  maxTokens: number = DOCUMENT_CONFIG.chunkTokens
+): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length) {
+      chunks.push(current.join("\n"));
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const line of splitLongLines(text, maxTokens * CHARS_PER_TOKEN)) {
+    const tokens = countTokens(line) + 1;
+    if (currentTokens + tokens > maxTokens) {
+      flush();
+    }
+    current.push(line);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Puts attached documents ahead of the message text, each part between
+ * BEGIN/END markers naming the file, so that the model can tell where a file
+ * starts and ends and which file a passage came from.
+ */
+export function formatDocumentsForPrompt(
+  content: string,
+  documents: DocumentAttachment[]
+): string {
+  if (!documents.length) {
+    return content;
+  }
+
+  const blocks = documents.flatMap((document) => {
+    const chunks = chunkDocumentText(document.text);
+
+    return chunks.map((chunk, index) => {
+      const label =
+        chunks.length > 1
+          ? `"${document.name}" (part ${index + 1} of ${chunks.length})`
+          : `"${document.name}"`;
+
+      return `----- BEGIN FILE ${label} -----\n${chunk}\n----- END FILE ${label} -----`;
+    });
+  });
+
+  return [...blocks, content].filter(Boolean).join("\n\n");
+}
+
+function splitLongLines(text: string, maxLength: number): string[] {
+  return text.split("\n").flatMap((line) => {
+    if (line.length <= maxLength) {
+      return [line];
+    }
+
+    const parts: string[] = [];
+    for (let i = 0; i < line.length; i += maxLength) {
+      parts.push(line.slice(i, i + maxLength));
+    }
+    return parts;
+  });
+}
@@ -0,0 +1,86 @@
+import { GenerationParams } from "../models/provider.interface";
+
+export type NumericGenerationParam =
+  | "temperature"
+  | "max_tokens"
+  | "top_p"
+  | "frequency_penalty"
+  | "presence_penalty";
+
+export interface GenerationParamField {
+  key: NumericGenerationParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const GENERATION_PARAM_FIELDS: GenerationParamField[] = [
+  { key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.1 },
+  { key: "max_tokens", label: "Max tokens", min: 1, max: 200000, step: 1 },
+  { key: "top_p", label: "Top P", min: 0, max: 1, step: 0.05 },
+  {
+    key: "frequency_penalty",
+    label: "Frequency penalty",
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    key: "presence_penalty",
+    label: "Presence penalty",
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+];
+
+// OpenAI rejects requests with more than four stop sequences.
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Clamps numeric values into their accepted ranges and drops unset ones, so
+ * the result can be spread over the defaults without clearing them.
+ */
+export function normalizeGenerationParams(
+  params: Partial<Record<keyof GenerationParams, unknown>>
+): GenerationParams {
+  const normalized: GenerationParams = {};
+
+  for (const field of GENERATION_PARAM_FIELDS) {
+    const raw = params[field.key];
+    if (raw === null || raw === undefined || raw === "") continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value)) continue;
+
+    const clamped = Math.min(field.max, Math.max(field.min, value));
+    normalized[field.key] =
+      field.key === "max_tokens" ? Math.round(clamped) : clamped;
+  }
+
+  const stop = (Array.isArray(params.stop) ? params.stop : [params.stop])
+    .filter((s): s is string => typeof s === "string" && s !== "")
+    .slice(0, MAX_STOP_SEQUENCES);
+  if (stop.length) {
+    normalized.stop = stop;
+  }
+
+  return normalized;
+}
+
+export function describeGenerationParams(params?: GenerationParams): string {
+  if (!params) {
+    return "";
+  }
+
+  const parts = GENERATION_PARAM_FIELDS.filter(
+    (field) => params[field.key] !== undefined
+  ).map((field) => `${field.key}=${params[field.key]}`);
+
+  if (params.stop) {
+    parts.push(`stop=${JSON.stringify(params.stop)}`);
+  }
+
+  return parts.join(", ");
+}
@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from "uuid";
+import { environment } from "../../environments/environment";
+import { ChatMessage, ImageAttachment } from "../models/chat.interface";
+
+const IMAGE_CONFIG = environment.attachments.images;
+const RESIZED_TYPE = "image/jpeg";
+
+export function getImageAttachments(message: ChatMessage): ImageAttachment[] {
+  return (message.attachments || []).filter(
+    (a): a is ImageAttachment => a.kind === "image"
+  );
+}
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith("image/");
+}
+
+/**
+ * Turns an image file into an attachment. Images larger than the configured
+ * dimensions or size are scaled down and re-encoded as JPEG on a white
+ * background; smaller ones are kept byte for byte.
+ */
+export async function createImageAttachment(
+  file: File
+): Promise<ImageAttachment> {
+  if (!IMAGE_CONFIG.types.includes(file.type)) {
+    throw new Error(
+      `${file.name}: only PNG, JPEG, WebP and GIF images are supported`
+    );
+  }
+  if (file.size > IMAGE_CONFIG.maxFileSize) {
+    throw new Error(
+      `${file.name} is larger than ${formatFileSize(IMAGE_CONFIG.maxFileSize)}`
+    );
+  }
+
+  const original = await readAsDataUrl(file);
+  const image = await loadImage(original);
+  const scale = Math.min(
+    1,
+    IMAGE_CONFIG.maxDimension /
+      Math.max(image.naturalWidth, image.naturalHeight)
+  );
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const name = file.name || "Pasted image";
+
+  if (scale === 1 && file.size <= IMAGE_CONFIG.keepOriginalBelow) {
+    return {
+      id: uuidv4(),
+      kind: "image",
+      name,
+      mimeType: file.type,
+      dataUrl: original,
+      width,
+      height,
+      size: file.size,
+    };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Images cannot be resized in this browser");
+  }
+
+  // JPEG has no alpha channel; transparent areas would turn black.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  const dataUrl = canvas.toDataURL(RESIZED_TYPE, IMAGE_CONFIG.quality);
+
+  return {
+    id: uuidv4(),
+    kind: "image",
+    name,
+    mimeType: RESIZED_TYPE,
+    dataUrl,
+    width,
+    height,
+    size: Math.round((getBase64Data(dataUrl).length * 3) / 4),
+  };
+}
+
+// The payload of a data: URL, for APIs that take raw base64.
+export function getBase64Data(dataUrl: string): string {
+  return dataUrl.slice(dataUrl.indexOf(",") + 1);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`${file.name} could not be read`));
+    reader.readAsDataURL(file);
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The image could not be decoded"));
+    image.src = src;
+  });
+}
@@ -0,0 +1,158 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+import {
+  CONVERSATION_FORMAT_VERSION,
+  buildPathThrough,
+  getSiblingGroups,
+  migrateToTree,
+} from "./message-tree";
+
+function createMessage(
+  id: string,
+  sender: MessageSender,
+  timestamp: number,
+  parentId?: string | null
+): ChatMessage {
+  return { id, sender, content: id, timestamp, parentId };
+}
+
+function createConversation(
+  messages: ChatMessage[],
+  branches?: ChatMessage[]
+): ChatHistory {
+  return {
+    messages,
+    branches,
+    metadata: {
+      id: "conversation",
+      createdAt: 0,
+      updatedAt: 0,
+      totalMessages: messages.length,
+      userMessageCount: 0,
+      aiMessageCount: 0,
+    },
+  };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id);
+
+describe("message-tree", () => {
+  describe("migrateToTree", () => {
+    it("should chain a flat message list into a single branch", () => {
+      const conversation = migrateToTree(
+        createConversation([
+          createMessage("u1", MessageSender.USER, 1),
+          createMessage("a1", MessageSender.AI, 2),
+          createMessage("u2", MessageSender.USER, 3),
+        ])
+      );
+
+      expect(conversation.messages.map((m) => m.parentId)).toEqual([
+        null,
+        "u1",
+        "a1",
+      ]);
+      expect(conversation.branches).toEqual([]);
+      expect(conversation.version).toBe(CONVERSATION_FORMAT_VERSION);
+    });
+
+    it("should keep parents that are already set", () => {
+      const conversation = migrateToTree(
+        createConversation([
+          createMessage("u1", MessageSender.USER, 1),
+          createMessage("a1", MessageSender.AI, 2, "elsewhere"),
+        ])
+      );
+
+      expect(conversation.messages[1].parentId).toBe("elsewhere");
+    });
+
+    it("should leave conversations in the current format untouched", () => {
+      const conversation = createConversation([
+        createMessage("u1", MessageSender.USER, 1),
+      ]);
+      conversation.version = CONVERSATION_FORMAT_VERSION;
+
+      migrateToTree(conversation);
+
+      expect(conversation.messages[0].parentId).toBeUndefined();
+      expect(conversation.branches).toBeUndefined();
+    });
+  });
+
+  describe("getSiblingGroups", () => {
+    it("should group alternatives by parent and sender, oldest first", () => {
+      const conversation = createConversation(
+        [
+          createMessage("u1", MessageSender.USER, 1, null),
+          createMessage("a1b", MessageSender.AI, 5, "u1"),
+        ],
+        [createMessage("a1a", MessageSender.AI, 2, "u1")]
+      );
+
+      const groups = getSiblingGroups(conversation);
+
+      expect(ids(groups.get("a1b") || [])).toEqual(["a1a", "a1b"]);
+      expect(groups.get("a1a")).toBe(groups.get("a1b"));
+      expect(groups.has("u1")).toBeFalse();
+    });
+
+    it("should not count system notices as alternatives", () => {
+      const conversation = createConversation([
+        createMessage("u1", MessageSender.USER, 1, null),
+        createMessage("a1", MessageSender.AI, 2, "u1"),
+        createMessage("s1", MessageSender.SYSTEM, 3, "u1"),
+        createMessage("s2", MessageSender.SYSTEM, 4, "u1"),
+      ]);
+
+      expect(getSiblingGroups(conversation).size).toBe(0);
+    });
+  });
+
+  describe("buildPathThrough", () => {
+    // u1 ─ a1 ─ u2 ─ a2
+    //         └ u2b ─ a2b
+    const nodes = [
+      createMessage("u1", MessageSender.USER, 1, null),
+      createMessage("a1", MessageSender.AI, 2, "u1"),
+      createMessage("u2", MessageSender.USER, 3, "a1"),
+      createMessage("a2", MessageSender.AI, 4, "u2"),
+      createMessage("u2b", MessageSender.USER, 5, "a1"),
+      createMessage("a2b", MessageSender.AI, 6, "u2b"),
+    ];
+
+    it("should follow the ancestors and the given message's replies", () => {
+      expect(ids(buildPathThrough(nodes, "u2"))).toEqual([
+        "u1",
+        "a1",
+        "u2",
+        "a2",
+      ]);
+    });
+
+    it("should follow the most recent child below the message", () => {
+      expect(ids(buildPathThrough(nodes, "u1"))).toEqual([
+        "u1",
+        "a1",
+        "u2b",
+        "a2b",
+      ]);
+    });
+
+    it("should return an empty path for an unknown message", () => {
+      expect(buildPathThrough(nodes, "missing")).toEqual([]);
+    });
+
+    it("should stop at a parent cycle", () => {
+      const cyclic = [
+        createMessage("x", MessageSender.USER, 1, "y"),
+        createMessage("y", MessageSender.AI, 2, "x"),
+      ];
+
+      expect(ids(buildPathThrough(cyclic, "x"))).toEqual(["y", "x"]);
+    });
+  });
+});
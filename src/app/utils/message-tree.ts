@@ -0,0 +1,100 @@
+import {
+  ChatHistory,
+  ChatMessage,
+  MessageSender,
+} from "../models/chat.interface";
+
+export const CONVERSATION_FORMAT_VERSION = 2;
+
+/**
+ * Upgrades a conversation saved as a flat message list: every message becomes
+ * the child of the one before it, so the old list is the only branch.
+ */
+export function migrateToTree(conversation: ChatHistory): ChatHistory {
+  if (conversation.version === CONVERSATION_FORMAT_VERSION) {
+    return conversation;
+  }
+
+  conversation.messages.forEach((message, index) => {
+    if (message.parentId === undefined) {
+      message.parentId = index > 0 ? conversation.messages[index - 1].id : null;
+    }
+  });
+  conversation.branches = conversation.branches || [];
+  conversation.version = CONVERSATION_FORMAT_VERSION;
+
+  return conversation;
+}
+
+export function getAllMessages(conversation: ChatHistory): ChatMessage[] {
+  return [...conversation.messages, ...(conversation.branches || [])];
+}
+
+/**
+ * Groups alternative messages by the message they answer. Only messages that
+ * have at least one alternative are included; each group is oldest first.
+ */
+export function getSiblingGroups(
+  conversation: ChatHistory
+): Map<string, ChatMessage[]> {
+  const byParent = new Map<string, ChatMessage[]>();
+
+  for (const message of getAllMessages(conversation)) {
+    // System notices hang off the tree but are never alternatives.
+    if (message.sender === MessageSender.SYSTEM) continue;
+
+    const key = `${message.parentId ?? ""}:${message.sender}`;
+    byParent.set(key, [...(byParent.get(key) || []), message]);
+  }
+
+  const groups = new Map<string, ChatMessage[]>();
+  for (const siblings of byParent.values()) {
+    if (siblings.length < 2) continue;
+
+    siblings.sort((a, b) => a.timestamp - b.timestamp);
+    for (const sibling of siblings) {
+      groups.set(sibling.id, siblings);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Builds the branch running through `messageId`: its ancestors, the message
+ * itself and, below it, the most recent child at every level.
+ */
+export function buildPathThrough(
+  nodes: ChatMessage[],
+  messageId: string
+): ChatMessage[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const target = byId.get(messageId);
+
+  if (!target) {
+    return [];
+  }
+
+  const path: ChatMessage[] = [target];
+  let parentId = target.parentId;
+  while (parentId) {
+    const parent = byId.get(parentId);
+    if (!parent || path.includes(parent)) break;
+    path.unshift(parent);
+    parentId = parent.parentId;
+  }
+
+  let current = target;
+  for (;;) {
+    const children = nodes.filter((node) => node.parentId === current.id);
+    if (!children.length) break;
+
+    current = children.reduce((latest, child) =>
+      child.timestamp > latest.timestamp ? child : latest
+    );
+    if (path.includes(current)) break;
+    path.push(current);
+  }
+
+  return path;
+}
@@ -0,0 +1,43 @@
+import { ModelCapabilities } from "../models/provider.interface";
+import { getContextWindow } from "./token-counter";
+
+const VISION_PATTERNS = [
+  /gpt-4o/,
+  /gpt-4-turbo(?!-preview)/,
+  /gpt-4-vision/,
+  /gpt-4\.1/,
+  /^o1(?!-mini|-preview)/,
+  /^o3/,
+  /claude-3/,
+  /llava|bakllava|vision|moondream|minicpm-v/,
+];
+
+const TOOL_PATTERNS = [
+  /gpt-4/,
+  /gpt-35-turbo|gpt-3\.5-turbo(?!-instruct)/,
+  /^o1(?!-mini|-preview)/,
+  /^o3/,
+  /claude-3/,
+  /llama3\.[1-9]|mistral|mixtral|qwen2|command-r|firefunction/,
+];
+
+/**
+ * Best-effort capabilities for model ids whose provider does not report
+ * them. Explicit values from a provider's model list take precedence.
+ */
+export function inferModelCapabilities(
+  model: string,
+  overrides: Partial<ModelCapabilities> = {}
+): ModelCapabilities {
+  const normalized = model.toLowerCase();
+
+  return {
+    contextLength: overrides.contextLength || getContextWindow(normalized),
+    supportsVision:
+      overrides.supportsVision ??
+      VISION_PATTERNS.some((pattern) => pattern.test(normalized)),
+    supportsTools:
+      overrides.supportsTools ??
+      TOOL_PATTERNS.some((pattern) => pattern.test(normalized)),
+  };
+}
@@ -0,0 +1,138 @@
+import { extractPdfText } from "./pdf-text";
+
+// PDF syntax is byte oriented; fixtures are written as Latin-1 text.
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const stream = new Blob([latin1(text)])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(...parts: (string | Uint8Array)[]): ArrayBuffer {
+  const chunks = parts.map((p) => (typeof p === "string" ? latin1(p) : p));
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result.buffer;
+}
+
+function stream(number: number, dictionary: string, data: string): string {
+  return (
+    `${number} 0 obj\n<< ${dictionary} /Length ${data.length} >>\n` +
+    `stream\n${data}\nendstream\nendobj\n`
+  );
+}
+
+const HEADER = "%PDF-1.4\n";
+const CATALOG =
+  "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n" +
+  "2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n" +
+  "3 0 obj\n<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\nendobj\n";
+const TRAILER = "trailer\n<< /Root 1 0 R >>\n%%EOF\n";
+
+describe("extractPdfText", () => {
+  it("should read the text of an uncompressed page", async () => {
+    const pdf = concat(
+      HEADER,
+      CATALOG,
+      stream(
+        4,
+        "",
+        "BT /F1 12 Tf 72 712 Td (Hello World) Tj 0 -14 Td (Second line) Tj ET"
+      ),
+      TRAILER
+    );
+
+    expect(await extractPdfText(pdf)).toEqual({
+      text: "Hello World\nSecond line",
+      pages: 1,
+    });
+  });
+
+  it("should inflate FlateDecode content streams", async () => {
+    const content = await deflate(
+      "BT /F1 12 Tf 72 712 Td [(Com) 20 (pressed) -300 (text)] TJ ET"
+    );
+    const pdf = concat(
+      HEADER,
+      CATALOG,
+      `4 0 obj\n<< /Filter /FlateDecode /Length ${content.length} >>\nstream\n`,
+      content,
+      "\nendstream\nendobj\n",
+      TRAILER
+    );
+
+    expect((await extractPdfText(pdf)).text).toBe("Compressed text");
+  });
+
+  it("should map glyph codes through a ToUnicode map", async () => {
+    const cmap = [
+      "/CIDInit /ProcSet findresource begin",
+      "begincmap",
+      "1 begincodespacerange <00> <FF> endcodespacerange",
+      "2 beginbfchar",
+      "<01> <0048>",
+      "<02> <0069>",
+      "endbfchar",
+      "1 beginbfrange",
+      "<03> <05> <0061>",
+      "endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = concat(
+      HEADER,
+      CATALOG,
+      stream(4, "", "BT /F1 12 Tf 72 712 Td <0102> Tj 0 -14 Td <030405> Tj ET"),
+      stream(5, "", cmap),
+      TRAILER
+    );
+
+    expect((await extractPdfText(pdf)).text).toBe("Hi\nabc");
+  });
+
+  it("should count pages kept in compressed object streams", async () => {
+    const objects = await deflate(
+      "2 0 3 52 6 104\n" +
+        "<< /Type /Pages /Kids [3 0 R 6 0 R] /Count 2 >>\n" +
+        "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\n" +
+        "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>\n"
+    );
+    const pdf = concat(
+      "%PDF-1.5\n",
+      "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n",
+      stream(4, "", "BT (Page text) Tj ET"),
+      "5 0 obj\n<< /Type /ObjStm /N 3 /First 14 /Filter /FlateDecode " +
+        `/Length ${objects.length} >>\nstream\n`,
+      objects,
+      "\nendstream\nendobj\n",
+      TRAILER
+    );
+
+    expect(await extractPdfText(pdf)).toEqual({ text: "Page text", pages: 2 });
+  });
+
+  it("should reject encrypted files", async () => {
+    const pdf = concat(
+      HEADER,
+      CATALOG,
+      "trailer\n<< /Root 1 0 R /Encrypt 7 0 R >>\n%%EOF\n"
+    );
+
+    await expectAsync(extractPdfText(pdf)).toBeRejectedWithError(
+      /Encrypted PDFs are not supported/
+    );
+  });
+
+  it("should reject files that are not PDFs", async () => {
+    await expectAsync(
+      extractPdfText(concat("PK\u0003\u0004 a zip archive"))
+    ).toBeRejectedWithError(/Not a PDF file/);
+  });
+});
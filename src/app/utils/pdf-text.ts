@@ -0,0 +1,365 @@
+/**
+ * Best-effort text extraction from a PDF without a PDF library: content
+ * streams are inflated with the browser's DecompressionStream and their text
+ * operators read in file order, which is page order for most writers.
+ * ToUnicode maps of all fonts are merged rather than resolved per font, so
+ * unusual embedded fonts can come out garbled, and scanned pages have no text
+ * at all.
+ */
+export async function extractPdfText(
+  data: ArrayBuffer
+): Promise<{ text: string; pages: number }> {
+  const bytes = new Uint8Array(data);
+  const raw = toBinaryString(bytes);
+
+  if (!raw.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+  if (/\/Encrypt\s/.test(raw)) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  const contents: string[] = [];
+  // Newer writers compress most objects, page objects included, into
+  // object streams.
+  const objects: string[] = [raw];
+  const cmap = new Map<string, string>();
+
+  for (const stream of findStreams(raw, bytes)) {
+    const decoded = await decodeStream(stream);
+    if (decoded === null) continue;
+
+    if (/\/Type\s*\/ObjStm/.test(stream.dictionary)) {
+      objects.push(decoded);
+    } else if (decoded.includes("begincmap")) {
+      parseToUnicode(decoded, cmap);
+    } else if (/\bBT\b/.test(decoded) && /T[Jj*]|['"]/.test(decoded)) {
+      contents.push(decoded);
+    }
+  }
+
+  const text = contents
+    .map((content) => readTextOperators(content, cmap))
+    .join("\n\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return {
+    text,
+    pages: objects.reduce(
+      (pages, source) =>
+        pages + (source.match(/\/Type\s*\/Page(?![s\w])/g) || []).length,
+      0
+    ),
+  };
+}
+
+interface PdfStream {
+  dictionary: string;
+  data: Uint8Array;
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+function findStreams(raw: string, bytes: Uint8Array): PdfStream[] {
+  const streams: PdfStream[] = [];
+  const keyword = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = keyword.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+
+    const header = raw.slice(Math.max(0, match.index - 2000), match.index);
+    const objectStart = header.search(
+      /\d+\s+\d+\s+obj(?![\s\S]*\d+\s+\d+\s+obj)/
+    );
+    streams.push({
+      dictionary: objectStart === -1 ? header : header.slice(objectStart),
+      data: bytes.subarray(start, end),
+    });
+    keyword.lastIndex = end;
+  }
+
+  return streams;
+}
+
+// Returns null for streams that hold neither text nor objects (images,
+// fonts, xref).
+async function decodeStream(stream: PdfStream): Promise<string | null> {
+  const { dictionary } = stream;
+
+  if (/\/Subtype\s*\/Image|\/Type\s*\/XRef|\/Length[123]\s/.test(dictionary)) {
+    return null;
+  }
+
+  const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || "";
+  if (filters && !/^\[?\s*\/FlateDecode\s*\]?$/.test(filters)) {
+    return null;
+  }
+
+  try {
+    const data = filters ? await inflate(stream.data) : stream.data;
+    return toBinaryString(data);
+  } catch {
+    return null;
+  }
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Reads bfchar and bfrange entries; codes are kept as hex strings.
+function parseToUnicode(cmap: string, map: Map<string, string>): void {
+  for (const block of cmap.match(/beginbfchar[\s\S]*?endbfchar/g) || []) {
+    for (const [, code, unicode] of block.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g
+    )) {
+      map.set(code.toLowerCase(), hexToUnicode(unicode));
+    }
+  }
+
+  for (const block of cmap.match(/beginbfrange[\s\S]*?endbfrange/g) || []) {
+    for (const [, from, to, target] of block.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g
+    )) {
+      const first = parseInt(from, 16);
+      const last = parseInt(to, 16);
+      const targets = target.startsWith("[")
+        ? Array.from(target.matchAll(/<([0-9a-fA-F]+)>/g), (m) => m[1])
+        : null;
+      const base = targets ? 0 : parseInt(target.slice(1, -1), 16);
+
+      for (let code = first; code <= last && code - first < 0x10000; code++) {
+        const key = code.toString(16).padStart(from.length, "0");
+        map.set(
+          key,
+          targets
+            ? hexToUnicode(targets[code - first] || "")
+            : String.fromCodePoint(base + code - first)
+        );
+      }
+    }
+  }
+}
+
+function hexToUnicode(hex: string): string {
+  let result = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return result;
+}
+
+type Operand = string | number | Operand[] | { hex: string };
+
+function readTextOperators(content: string, cmap: Map<string, string>): string {
+  const decode = (value: Operand): string => {
+    if (typeof value === "string") {
+      return value;
+    }
+    if (typeof value === "object" && "hex" in value) {
+      return decodeHex(value.hex, cmap);
+    }
+    return "";
+  };
+
+  let text = "";
+  let lastY: number | null = null;
+  const operands: Operand[] = [];
+  const stack: Operand[][] = [];
+
+  const newLine = () => {
+    if (text && !text.endsWith("\n")) text += "\n";
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.type === "operand") {
+      (stack.length ? stack[stack.length - 1] : operands).push(token.value);
+      continue;
+    }
+    if (token.type === "open") {
+      stack.push([]);
+      continue;
+    }
+    if (token.type === "close") {
+      const array = stack.pop() || [];
+      (stack.length ? stack[stack.length - 1] : operands).push(array);
+      continue;
+    }
+
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case "Tj":
+        text += decode(last);
+        break;
+      case "'":
+      case '"':
+        newLine();
+        text += decode(last);
+        break;
+      case "TJ":
+        for (const item of Array.isArray(last) ? last : []) {
+          if (typeof item === "number") {
+            // Large negative kerning is how many writers encode a space.
+            if (item < -250 && !text.endsWith(" ")) text += " ";
+          } else {
+            text += decode(item);
+          }
+        }
+        break;
+      case "T*":
+        newLine();
+        break;
+      case "Td":
+      case "TD":
+        if (operands[operands.length - 1] !== 0) newLine();
+        else if (!text.endsWith(" ") && !text.endsWith("\n")) text += " ";
+        break;
+      case "Tm": {
+        const y = operands[5];
+        if (typeof y === "number") {
+          if (lastY !== null && y !== lastY) newLine();
+          lastY = y;
+        }
+        break;
+      }
+      case "ET":
+        if (!text.endsWith("\n") && !text.endsWith(" ")) text += " ";
+        break;
+    }
+    operands.length = 0;
+  }
+
+  return text;
+}
+
+function decodeHex(hex: string, cmap: Map<string, string>): string {
+  const clean = hex.replace(/\s+/g, "").toLowerCase();
+  const width = cmap.size && cmap.has(clean.slice(0, 4)) ? 4 : 2;
+  let result = "";
+
+  for (let i = 0; i < clean.length; i += width) {
+    const code = clean.slice(i, i + width).padEnd(width, "0");
+    result += cmap.get(code) ?? String.fromCharCode(parseInt(code, 16));
+  }
+  return result;
+}
+
+type Token =
+  | { type: "operand"; value: Operand }
+  | { type: "operator"; value: string }
+  | { type: "open" }
+  | { type: "close" };
+
+function* tokenize(content: string): Generator<Token> {
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n") i++;
+    } else if (char === "(") {
+      const [value, end] = readLiteralString(content, i + 1);
+      yield { type: "operand", value };
+      i = end;
+    } else if (char === "<" && content[i + 1] === "<") {
+      // Inline dictionaries (marked content properties) carry no text.
+      const end = content.indexOf(">>", i);
+      i = end === -1 ? content.length : end + 2;
+    } else if (char === "<") {
+      const end = content.indexOf(">", i);
+      yield {
+        type: "operand",
+        value: { hex: content.slice(i + 1, end === -1 ? undefined : end) },
+      };
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === "[") {
+      yield { type: "open" };
+      i++;
+    } else if (char === "]") {
+      yield { type: "close" };
+      i++;
+    } else if (char === "/") {
+      const match = /^\/[^\s/[\]()<>{}%]*/.exec(content.slice(i, i + 128));
+      i += match ? match[0].length : 1;
+    } else if (/[-+.\d]/.test(char)) {
+      const match = /^[-+]?\d*\.?\d+/.exec(content.slice(i, i + 32));
+      yield { type: "operand", value: match ? parseFloat(match[0]) : 0 };
+      i += match ? match[0].length : 1;
+    } else {
+      const match = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 16));
+      if (match) {
+        yield { type: "operator", value: match[0] };
+        i += match[0].length;
+      } else {
+        i++;
+      }
+
+      // Inline images hold binary data up to EI.
+      if (match?.[0] === "ID") {
+        const end = content.indexOf("EI", i);
+        i = end === -1 ? content.length : end + 2;
+      }
+    }
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 1;
+  let result = "";
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === "\\") {
+      const next = content[i + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        result += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        i += content[i + 2] === "\n" && next === "\r" ? 3 : 2;
+        continue;
+      }
+      result += ESCAPES[next] ?? next ?? "";
+      i += 2;
+      continue;
+    }
+
+    if (char === "(") depth++;
+    if (char === ")" && --depth === 0) {
+      return [result, i + 1];
+    }
+    result += char;
+    i++;
+  }
+
+  return [result, i];
+}
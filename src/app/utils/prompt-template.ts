@@ -0,0 +1,32 @@
+export const DEFAULT_SYSTEM_PROMPT =
+  "You are a helpful AI assistant. Provide concise, accurate, and helpful responses.";
+
+export const PROMPT_VARIABLES = [
+  "date",
+  "time",
+  "datetime",
+  "weekday",
+  "model",
+  "provider",
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export function renderPromptTemplate(
+  template: string,
+  values: Partial<Record<PromptVariable, string>> = {},
+  now: Date = new Date()
+): string {
+  const builtIns: Record<string, string> = {
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+    datetime: now.toLocaleString(),
+    weekday: now.toLocaleDateString([], { weekday: "long" }),
+  };
+
+  // Unknown variables are left untouched so typos stay visible.
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = values[name as PromptVariable] ?? builtIns[name];
+    return value !== undefined ? value : match;
+  });
+}
@@ -0,0 +1,36 @@
+import {
+  ConnectionField,
+  ProviderConfig,
+  ProviderConnection,
+} from "../models/provider.interface";
+
+const CONNECTION_FIELDS: ConnectionField[] = [
+  "apiKey",
+  "apiUrl",
+  "organization",
+  "project",
+];
+
+// Non-empty connection fields override the environment config.
+export function applyConnection(
+  defaults: ProviderConfig,
+  connection: ProviderConnection
+): ProviderConfig {
+  const config = { ...defaults };
+
+  for (const field of CONNECTION_FIELDS) {
+    const value = connection[field]?.trim();
+    if (value) {
+      config[field] = field === "apiUrl" ? value.replace(/\/+$/, "") : value;
+    }
+  }
+
+  return config;
+}
+
+const SECRET_KEYS = ["apikey", "api-key", "x-api-key", "authorization"];
+
+// JSON.stringify replacer that keeps credentials out of exported data.
+export function redactSecrets(key: string, value: unknown): unknown {
+  return SECRET_KEYS.includes(key.toLowerCase()) ? undefined : value;
+}
@@ -0,0 +1,194 @@
+import { HttpErrorResponse, HttpHeaders } from "@angular/common/http";
+import { NEVER, Observable, TimeoutError, defer, of, throwError } from "rxjs";
+import {
+  AiRequestError,
+  ResiliencePolicy,
+  classifyAiError,
+  computeBackoffDelay,
+  parseRetryAfter,
+  withResilience,
+} from "./request-resilience";
+
+const POLICY: ResiliencePolicy = {
+  timeout: 1000,
+  attempts: 2,
+  delay: 500,
+  maxDelay: 8000,
+};
+
+function httpError(status: number, retryAfter?: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    status,
+    headers: retryAfter
+      ? new HttpHeaders({ "Retry-After": retryAfter })
+      : undefined,
+  });
+}
+
+// Fails with the given errors in turn, then answers "ok".
+function failingSource(errors: unknown[]): {
+  source: Observable<string>;
+  attempts: () => number;
+} {
+  let attempts = 0;
+  const source = defer(() => {
+    const error = errors[attempts++];
+    return error === undefined ? of("ok") : throwError(() => error);
+  });
+  return { source, attempts: () => attempts };
+}
+
+describe("request-resilience", () => {
+  describe("classifyAiError", () => {
+    it("should map HTTP statuses to error codes", () => {
+      expect(classifyAiError(httpError(0)).code).toBe("network");
+      expect(classifyAiError(httpError(401)).code).toBe("auth");
+      expect(classifyAiError(httpError(403)).code).toBe("auth");
+      expect(classifyAiError(httpError(408)).code).toBe("timeout");
+      expect(classifyAiError(httpError(429)).code).toBe("rate_limit");
+      expect(classifyAiError(httpError(503)).code).toBe("server");
+      expect(classifyAiError(httpError(400)).code).toBe("bad_request");
+    });
+
+    it("should only mark transient failures as retryable", () => {
+      expect(classifyAiError(httpError(429)).retryable).toBeTrue();
+      expect(classifyAiError(httpError(500)).retryable).toBeTrue();
+      expect(classifyAiError(httpError(401)).retryable).toBeFalse();
+      expect(classifyAiError(httpError(400)).retryable).toBeFalse();
+    });
+
+    it("should classify timeouts, aborts and failed fetches", () => {
+      expect(classifyAiError(new TimeoutError()).code).toBe("timeout");
+      expect(
+        classifyAiError(new DOMException("Aborted", "AbortError")).code
+      ).toBe("cancelled");
+      expect(classifyAiError(new TypeError("Failed to fetch")).code).toBe(
+        "network"
+      );
+    });
+
+    it("should keep the Retry-After header of a rate limit", () => {
+      expect(classifyAiError(httpError(429, "3")).retryAfterMs).toBe(3000);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should read seconds and HTTP dates", () => {
+      const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+      expect(parseRetryAfter(inFiveSeconds)).toBeLessThanOrEqual(5000);
+    });
+
+    it("should ignore missing and unreadable values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("computeBackoffDelay", () => {
+    it("should double the delay per attempt with equal jitter", () => {
+      spyOn(Math, "random").and.returnValues(0, 0.999999);
+
+      expect(computeBackoffDelay(3, POLICY)).toBe(1000);
+      expect(computeBackoffDelay(3, POLICY)).toBeCloseTo(2000, 0);
+    });
+
+    it("should cap the delay at maxDelay", () => {
+      spyOn(Math, "random").and.returnValue(0.999999);
+
+      expect(computeBackoffDelay(10, POLICY)).toBeCloseTo(8000, 0);
+    });
+
+    it("should honour Retry-After up to maxDelay", () => {
+      expect(computeBackoffDelay(1, POLICY, 3000)).toBe(3000);
+      expect(computeBackoffDelay(1, POLICY, 60000)).toBe(8000);
+    });
+  });
+
+  describe("withResilience", () => {
+    beforeEach(() => jasmine.clock().install());
+    afterEach(() => jasmine.clock().uninstall());
+
+    it("should retry retryable failures after the backoff delay", () => {
+      spyOn(Math, "random").and.returnValue(0);
+      const { source, attempts } = failingSource([
+        httpError(503),
+        httpError(503),
+      ]);
+      const next = jasmine.createSpy("next");
+
+      source.pipe(withResilience(POLICY)).subscribe({ next });
+      expect(attempts()).toBe(1);
+
+      jasmine.clock().tick(250);
+      expect(attempts()).toBe(2);
+
+      jasmine.clock().tick(499);
+      expect(attempts()).toBe(2);
+      jasmine.clock().tick(1);
+      expect(attempts()).toBe(3);
+      expect(next).toHaveBeenCalledOnceWith("ok");
+    });
+
+    it("should wait as long as the server asks", () => {
+      const { source, attempts } = failingSource([httpError(429, "2")]);
+
+      source.pipe(withResilience(POLICY)).subscribe();
+
+      jasmine.clock().tick(1999);
+      expect(attempts()).toBe(1);
+      jasmine.clock().tick(1);
+      expect(attempts()).toBe(2);
+    });
+
+    it("should give up after the configured attempts", () => {
+      spyOn(Math, "random").and.returnValue(0);
+      const { source, attempts } = failingSource([
+        httpError(500),
+        httpError(500),
+        httpError(500),
+      ]);
+      let failure: AiRequestError | undefined;
+
+      source
+        .pipe(withResilience(POLICY))
+        .subscribe({ error: (error) => (failure = error) });
+      jasmine.clock().tick(10000);
+
+      expect(attempts()).toBe(3);
+      expect(failure?.code).toBe("server");
+    });
+
+    it("should fail at once on errors that are not retryable", () => {
+      const { source, attempts } = failingSource([httpError(401)]);
+      let failure: AiRequestError | undefined;
+
+      source
+        .pipe(withResilience(POLICY))
+        .subscribe({ error: (error) => (failure = error) });
+
+      expect(attempts()).toBe(1);
+      expect(failure).toEqual(jasmine.any(AiRequestError));
+      expect(failure?.code).toBe("auth");
+    });
+
+    it("should time out a request that does not answer", () => {
+      let attempts = 0;
+      const source = defer(() => {
+        attempts++;
+        return NEVER;
+      });
+      let failure: AiRequestError | undefined;
+
+      source
+        .pipe(withResilience({ ...POLICY, attempts: 0 }))
+        .subscribe({ error: (error) => (failure = error) });
+      jasmine.clock().tick(1000);
+
+      expect(attempts).toBe(1);
+      expect(failure?.code).toBe("timeout");
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { HttpErrorResponse } from "@angular/common/http";
+import {
+  MonoTypeOperatorFunction,
+  TimeoutError,
+  catchError,
+  retry,
+  throwError,
+  timeout,
+  timer,
+} from "rxjs";
+
+export type AiErrorCode =
+  | "network"
+  | "timeout"
+  | "auth"
+  | "rate_limit"
+  | "server"
+  | "bad_request"
+  | "cancelled"
+  | "budget"
+  | "unknown";
+
+export interface ResiliencePolicy {
+  timeout: number;
+  attempts: number;
+  delay: number;
+  maxDelay?: number;
+}
+
+const RETRYABLE_CODES: AiErrorCode[] = [
+  "network",
+  "timeout",
+  "rate_limit",
+  "server",
+];
+
+const DEFAULT_MAX_DELAY = 10000;
+
+export class AiRequestError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    readonly code: AiErrorCode,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+    readonly details?: any
+  ) {
+    super(message);
+    this.name = "AiRequestError";
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+}
+
+export function createHttpError(
+  status: number,
+  detail?: string,
+  retryAfter?: string | null,
+  details?: any
+): AiRequestError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+
+  if (status === 0) {
+    return new AiRequestError(
+      "Network error. Please check your internet connection.",
+      "network",
+      status,
+      undefined,
+      details
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new AiRequestError(
+      "Authentication error. Please check your API key.",
+      "auth",
+      status,
+      undefined,
+      details
+    );
+  }
+  if (status === 429) {
+    return new AiRequestError(
+      "Rate limit exceeded. Please try again later.",
+      "rate_limit",
+      status,
+      retryAfterMs,
+      details
+    );
+  }
+  if (status === 408) {
+    return new AiRequestError(
+      "Request timed out. Please try again.",
+      "timeout",
+      status,
+      retryAfterMs,
+      details
+    );
+  }
+  if (status >= 500) {
+    return new AiRequestError(
+      "Server error. Please try again later.",
+      "server",
+      status,
+      retryAfterMs,
+      details
+    );
+  }
+
+  return new AiRequestError(
+    `HTTP error ${status}: ${detail || "Request failed"}`,
+    "bad_request",
+    status,
+    undefined,
+    details
+  );
+}
+
+export function classifyAiError(error: any): AiRequestError {
+  if (error instanceof AiRequestError) {
+    return error;
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    return createHttpError(
+      error.status,
+      error.error?.error?.message || error.message,
+      error.headers?.get("Retry-After"),
+      error
+    );
+  }
+
+  if (error instanceof TimeoutError) {
+    return new AiRequestError(
+      "Request timed out. Please try again.",
+      "timeout",
+      undefined,
+      undefined,
+      error
+    );
+  }
+
+  if (error?.name === "AbortError") {
+    return new AiRequestError(
+      "Request cancelled.",
+      "cancelled",
+      undefined,
+      undefined,
+      error
+    );
+  }
+
+  // fetch rejects with a TypeError when the network request itself fails.
+  if (error instanceof TypeError) {
+    return new AiRequestError(
+      "Network error. Please check your internet connection.",
+      "network",
+      undefined,
+      undefined,
+      error
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes("timeout")) {
+      return new AiRequestError(
+        "Request timed out. Please try again.",
+        "timeout",
+        undefined,
+        undefined,
+        error
+      );
+    }
+    return new AiRequestError(
+      error.message,
+      "unknown",
+      undefined,
+      undefined,
+      error
+    );
+  }
+
+  return new AiRequestError(
+    "An unknown error occurred.",
+    "unknown",
+    undefined,
+    undefined,
+    error
+  );
+}
+
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export function computeBackoffDelay(
+  attempt: number,
+  policy: ResiliencePolicy,
+  retryAfterMs?: number
+): number {
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelay);
+  }
+
+  const exponential = Math.min(
+    maxDelay,
+    policy.delay * Math.pow(2, attempt - 1)
+  );
+
+  // "Equal jitter": keep half the delay, randomise the other half.
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+export function withResilience<T>(
+  policy: ResiliencePolicy
+): MonoTypeOperatorFunction<T> {
+  return (source) =>
+    source.pipe(
+      timeout(policy.timeout),
+      catchError((error) => throwError(() => classifyAiError(error))),
+      retry({
+        count: policy.attempts,
+        delay: (error: AiRequestError, retryCount: number) =>
+          error.retryable
+            ? timer(computeBackoffDelay(retryCount, policy, error.retryAfterMs))
+            : throwError(() => error),
+        resetOnSuccess: true,
+      })
+    );
+}
@@ -0,0 +1,184 @@
+import {
+  LineDecoder,
+  NdjsonParser,
+  SseParser,
+  StreamEvent,
+  StreamParser,
+} from "./sse-parser";
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function feedInChunks(
+  parser: StreamParser,
+  bytes: Uint8Array,
+  boundaries: number[]
+): StreamEvent[] {
+  const events: StreamEvent[] = [];
+  let start = 0;
+
+  for (const end of [...boundaries, bytes.length]) {
+    events.push(...parser.feed(bytes.slice(start, end)));
+    start = end;
+  }
+
+  events.push(...parser.flush());
+  return events;
+}
+
+function randomBoundaries(length: number, count: number): number[] {
+  const boundaries = new Set<number>();
+  while (boundaries.size < Math.min(count, length - 1)) {
+    boundaries.add(1 + Math.floor(Math.random() * (length - 1)));
+  }
+  return Array.from(boundaries).sort((a, b) => a - b);
+}
+
+describe("LineDecoder", () => {
+  it("should split LF, CRLF and CR terminated lines", () => {
+    const decoder = new LineDecoder();
+
+    expect(decoder.feed("a\nb\r\nc\rd")).toEqual(["a", "b", "c"]);
+    expect(decoder.flush()).toEqual(["d"]);
+  });
+
+  it("should not emit an empty line for a CRLF split across chunks", () => {
+    const decoder = new LineDecoder();
+
+    expect(decoder.feed("one\r")).toEqual([]);
+    expect(decoder.feed("\ntwo\n")).toEqual(["one", "two"]);
+    expect(decoder.flush()).toEqual([]);
+  });
+
+  it("should keep multi-byte characters split across chunks intact", () => {
+    const decoder = new LineDecoder();
+    const bytes = encode("héllo 👋\n");
+
+    const lines: string[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      lines.push(...decoder.feed(bytes.slice(i, i + 1)));
+    }
+
+    expect(lines).toEqual(["héllo 👋"]);
+  });
+});
+
+describe("SseParser", () => {
+  const stream =
+    ": keep-alive comment\n" +
+    "event: message_start\n" +
+    "id: 1\n" +
+    'data: {"text":"Grüße 👋"}\n' +
+    "\n" +
+    "data: first line\r\n" +
+    "data: second line\r\n" +
+    "\r\n" +
+    "event: error\n" +
+    'data: {"error":{"message":"overloaded"}}\n' +
+    "\n" +
+    "data: [DONE]\n" +
+    "\n" +
+    "data: ignored after done\n" +
+    "\n";
+
+  const expected: StreamEvent[] = [
+    { event: "message_start", id: "1", data: '{"text":"Grüße 👋"}' },
+    { event: "message", id: "1", data: "first line\nsecond line" },
+    {
+      event: "error",
+      id: "1",
+      data: '{"error":{"message":"overloaded"}}',
+    },
+  ];
+
+  it("should parse a stream delivered in a single chunk", () => {
+    const parser = new SseParser();
+
+    expect(feedInChunks(parser, encode(stream), [])).toEqual(expected);
+    expect(parser.done).toBeTrue();
+  });
+
+  it("should produce the same events for every single split point", () => {
+    const bytes = encode(stream);
+
+    for (let i = 1; i < bytes.length; i++) {
+      const parser = new SseParser();
+      expect(feedInChunks(parser, bytes, [i]))
+        .withContext(`split at byte ${i}`)
+        .toEqual(expected);
+    }
+  });
+
+  it("should produce the same events when fed byte by byte", () => {
+    const bytes = encode(stream);
+    const boundaries = Array.from(
+      { length: bytes.length - 1 },
+      (_, i) => i + 1
+    );
+
+    expect(feedInChunks(new SseParser(), bytes, boundaries)).toEqual(expected);
+  });
+
+  it("should produce the same events for random chunk boundaries", () => {
+    const bytes = encode(stream);
+
+    for (let run = 0; run < 50; run++) {
+      const boundaries = randomBoundaries(bytes.length, 1 + (run % 12));
+      expect(feedInChunks(new SseParser(), bytes, boundaries))
+        .withContext(`boundaries ${boundaries.join(",")}`)
+        .toEqual(expected);
+    }
+  });
+
+  it("should dispatch a trailing event without a blank line on flush", () => {
+    const parser = new SseParser();
+
+    expect(parser.feed("data: partial")).toEqual([]);
+    expect(parser.flush()).toEqual([{ event: "message", data: "partial" }]);
+  });
+
+  it("should only strip a single leading space from field values", () => {
+    const parser = new SseParser();
+
+    expect(parser.feed("data:  indented\ndata:tight\n\n")).toEqual([
+      { event: "message", data: " indented\ntight" },
+    ]);
+  });
+
+  it("should record the retry interval and ignore unknown fields", () => {
+    const parser = new SseParser();
+
+    expect(parser.feed("retry: 3000\nfoo: bar\ndata: x\n\n")).toEqual([
+      { event: "message", data: "x", retry: 3000 },
+    ]);
+  });
+
+  it("should emit the done sentinel as data when disabled", () => {
+    const parser = new SseParser(null);
+
+    expect(parser.feed("data: [DONE]\n\n")).toEqual([
+      { event: "message", data: "[DONE]" },
+    ]);
+    expect(parser.done).toBeFalse();
+  });
+});
+
+describe("NdjsonParser", () => {
+  it("should emit one event per JSON line regardless of chunking", () => {
+    const bytes = encode(
+      '{"message":{"content":"Hé"}}\n\n{"message":{"content":"llo"}}\r\n{"done":true}'
+    );
+    const expected = [
+      { data: '{"message":{"content":"Hé"}}' },
+      { data: '{"message":{"content":"llo"}}' },
+      { data: '{"done":true}' },
+    ];
+
+    for (let i = 1; i < bytes.length; i++) {
+      expect(feedInChunks(new NdjsonParser(), bytes, [i]))
+        .withContext(`split at byte ${i}`)
+        .toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+export interface StreamEvent {
+  event?: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface StreamParser {
+  readonly done: boolean;
+  feed(chunk: Uint8Array | string): StreamEvent[];
+  flush(): StreamEvent[];
+}
+
+/**
+ * Incrementally decodes UTF-8 chunks into lines. Multi-byte characters and
+ * CRLF pairs split across chunk boundaries are held back until complete.
+ */
+export class LineDecoder {
+  private decoder = new TextDecoder("utf-8");
+  private buffer = "";
+
+  feed(chunk: Uint8Array | string): string[] {
+    this.buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : this.decoder.decode(chunk, { stream: true });
+
+    return this.takeLines(false);
+  }
+
+  flush(): string[] {
+    this.buffer += this.decoder.decode();
+
+    const lines = this.takeLines(true);
+    if (this.buffer) {
+      lines.push(this.buffer);
+      this.buffer = "";
+    }
+
+    return lines;
+  }
+
+  private takeLines(final: boolean): string[] {
+    const lines: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (char !== "\n" && char !== "\r") continue;
+
+      // A trailing CR may be the first half of a CRLF pair.
+      if (char === "\r" && i === this.buffer.length - 1 && !final) break;
+
+      lines.push(this.buffer.slice(start, i));
+      if (char === "\r" && this.buffer[i + 1] === "\n") i++;
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return lines;
+  }
+}
+
+/**
+ * Server-Sent Events parser following the WHATWG event stream format.
+ * Events whose data equals the done sentinel end the stream instead of
+ * being emitted.
+ */
+export class SseParser implements StreamParser {
+  private lines = new LineDecoder();
+  private dataLines: string[] = [];
+  private eventType = "";
+  private lastEventId = "";
+  private retry?: number;
+  private isDone = false;
+
+  constructor(private doneSentinel: string | null = "[DONE]") {}
+
+  get done(): boolean {
+    return this.isDone;
+  }
+
+  feed(chunk: Uint8Array | string): StreamEvent[] {
+    return this.processLines(this.lines.feed(chunk));
+  }
+
+  flush(): StreamEvent[] {
+    const events = this.processLines(this.lines.flush());
+
+    const pending = this.dispatch();
+    if (pending) {
+      events.push(pending);
+    }
+
+    return events;
+  }
+
+  private processLines(lines: string[]): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    for (const line of lines) {
+      if (this.isDone) break;
+
+      if (line === "") {
+        const event = this.dispatch();
+        if (event) {
+          events.push(event);
+        }
+        continue;
+      }
+
+      if (line.startsWith(":")) continue;
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) {
+        value = value.slice(1);
+      }
+
+      switch (field) {
+        case "event":
+          this.eventType = value;
+          break;
+        case "data":
+          this.dataLines.push(value);
+          break;
+        case "id":
+          if (!value.includes("\0")) {
+            this.lastEventId = value;
+          }
+          break;
+        case "retry":
+          if (/^\d+$/.test(value)) {
+            this.retry = parseInt(value, 10);
+          }
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  private dispatch(): StreamEvent | null {
+    if (this.dataLines.length === 0 || this.isDone) {
+      this.eventType = "";
+      return null;
+    }
+
+    const event: StreamEvent = {
+      event: this.eventType || "message",
+      data: this.dataLines.join("\n"),
+    };
+
+    if (this.lastEventId) event.id = this.lastEventId;
+    if (this.retry !== undefined) event.retry = this.retry;
+
+    this.dataLines = [];
+    this.eventType = "";
+
+    if (this.doneSentinel !== null && event.data === this.doneSentinel) {
+      this.isDone = true;
+      return null;
+    }
+
+    return event;
+  }
+}
+
+/**
+ * Newline-delimited JSON parser, used by providers that stream one JSON
+ * object per line instead of Server-Sent Events.
+ */
+export class NdjsonParser implements StreamParser {
+  readonly done = false;
+  private lines = new LineDecoder();
+
+  feed(chunk: Uint8Array | string): StreamEvent[] {
+    return this.toEvents(this.lines.feed(chunk));
+  }
+
+  flush(): StreamEvent[] {
+    return this.toEvents(this.lines.flush());
+  }
+
+  private toEvents(lines: string[]): StreamEvent[] {
+    return lines
+      .map((line) => line.trim())
+      .filter((line) => line !== "")
+      .map((data) => ({ data }));
+  }
+}
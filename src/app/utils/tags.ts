@@ -0,0 +1,32 @@
+const TAG_MAX_LENGTH = 32;
+
+// Tags compare case-insensitively, so they are stored lowercase.
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#/, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .slice(0, TAG_MAX_LENGTH);
+}
+
+// Accepts anything read from storage or an import file.
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  return [
+    ...new Set(
+      tags
+        .filter((t): t is string => typeof t === "string")
+        .map(normalizeTag)
+        .filter(Boolean)
+    ),
+  ];
+}
+
+// Splits user input such as "work, client-a #urgent".
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(/[,#]/));
+}
@@ -0,0 +1,101 @@
+import { MessageSender } from "../models/chat.interface";
+import { buildSnippet, parseSearchQuery, tokenize } from "./text-search";
+
+describe("tokenize", () => {
+  it("should lowercase letter and digit runs and keep their offsets", () => {
+    expect(tokenize("Hello, GPT-4!")).toEqual([
+      { term: "hello", start: 0, end: 5 },
+      { term: "gpt", start: 7, end: 10 },
+      { term: "4", start: 11, end: 12 },
+    ]);
+  });
+
+  it("should keep accented and non-Latin letters", () => {
+    expect(tokenize("Café Zürich 東京").map((t) => t.term)).toEqual([
+      "café",
+      "zürich",
+      "東京",
+    ]);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("should match bare words as prefixes and quoted text as a phrase", () => {
+    expect(parseSearchQuery('budget "Context Window"').terms).toEqual([
+      { tokens: ["budget"], exact: false },
+      { tokens: ["context", "window"], exact: true },
+    ]);
+  });
+
+  it("should keep the tokens of a hyphenated word together", () => {
+    expect(parseSearchQuery("gpt-4").terms).toEqual([
+      { tokens: ["gpt", "4"], exact: false },
+    ]);
+  });
+
+  it("should accept an unterminated quote", () => {
+    expect(parseSearchQuery('"open phrase').terms).toEqual([
+      { tokens: ["open", "phrase"], exact: true },
+    ]);
+  });
+
+  it("should read the sender filter", () => {
+    expect(parseSearchQuery("from:AI reply").filters).toEqual({
+      sender: MessageSender.AI,
+    });
+    expect(parseSearchQuery("from:user").filters.sender).toBe(
+      MessageSender.USER
+    );
+  });
+
+  it("should read inclusive local date bounds", () => {
+    const { filters, terms } = parseSearchQuery(
+      "after:2024-05-01 before:2024-05-31"
+    );
+
+    expect(terms).toEqual([]);
+    expect(filters.from).toBe(new Date(2024, 4, 1).getTime());
+    expect(filters.to).toBe(new Date(2024, 5, 1).getTime() - 1);
+  });
+
+  it("should search for operators it cannot read", () => {
+    const { filters, terms } = parseSearchQuery("from:bot after:someday");
+
+    expect(filters).toEqual({});
+    expect(terms.map((t) => t.tokens)).toEqual([
+      ["from", "bot"],
+      ["after", "someday"],
+    ]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("should highlight every match in a short text", () => {
+    const segments = buildSnippet(
+      "Tokens are counted per token",
+      (term) => term === "token" || term === "tokens"
+    );
+
+    expect(segments).toEqual([
+      { text: "Tokens", highlight: true },
+      { text: " are counted per ", highlight: false },
+      { text: "token", highlight: true },
+    ]);
+  });
+
+  it("should cut long texts at word boundaries around the first match", () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(10);
+    const segments = buildSnippet(
+      `${filler}needle ${filler}`,
+      (term) => term === "needle"
+    );
+    const text = segments.map((s) => s.text).join("");
+
+    expect(segments[0].text).toBe("…");
+    expect(segments[segments.length - 1].text).toBe("…");
+    expect(segments.filter((s) => s.highlight)).toEqual([
+      { text: "needle", highlight: true },
+    ]);
+    expect(text).toMatch(/^…\w.*\w…$/);
+  });
+});
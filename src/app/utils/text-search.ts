@@ -0,0 +1,134 @@
+import { MessageSender } from "../models/chat.interface";
+import {
+  SearchFilters,
+  SearchQuery,
+  SearchTerm,
+  SnippetSegment,
+} from "../models/search.interface";
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const SNIPPET_RADIUS = 60;
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({
+      term: match[0].toLowerCase(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a query such as `"context window" from:ai after:2024-05-01 budget`.
+ * Quoted text is matched as a phrase; `from:` takes `user` or `ai`, and
+ * `before:`/`after:` take dates (both inclusive).
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const terms: SearchTerm[] = [];
+  const filters: SearchFilters = {};
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  for (const match of query.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      const tokens = tokenize(match[1]).map((t) => t.term);
+      if (tokens.length) terms.push({ tokens, exact: true });
+      continue;
+    }
+
+    const word = match[2];
+    const operator = /^(from|before|after):(.+)$/i.exec(word);
+
+    if (operator) {
+      const [, name, value] = operator;
+      const date = Date.parse(value);
+
+      if (name.toLowerCase() === "from") {
+        const sender = value.toLowerCase();
+        if (sender === MessageSender.USER || sender === MessageSender.AI) {
+          filters.sender = sender as MessageSender;
+          continue;
+        }
+      } else if (!isNaN(date)) {
+        const local = new Date(value.includes("T") ? value : `${value}T00:00`);
+        if (name.toLowerCase() === "after") {
+          filters.from = local.getTime();
+        } else {
+          filters.to = local.getTime() + DAY - 1;
+        }
+        continue;
+      }
+    }
+
+    // Words split into several tokens (e.g. "gpt-4") must stay together.
+    const tokens = tokenize(word).map((t) => t.term);
+    if (tokens.length) terms.push({ tokens, exact: false });
+  }
+
+  return { terms, filters };
+}
+
+/**
+ * Cuts a window of text around the first matching token and marks every
+ * matching token inside it.
+ */
+export function buildSnippet(
+  content: string,
+  isMatch: (term: string) => boolean
+): SnippetSegment[] {
+  const tokens = tokenize(content);
+  const matches = tokens.filter((t) => isMatch(t.term));
+  const first = matches[0];
+
+  let start = first ? Math.max(0, first.start - SNIPPET_RADIUS) : 0;
+  let end = Math.min(
+    content.length,
+    (first ? first.end : 0) + SNIPPET_RADIUS * 2
+  );
+
+  // Avoid cutting words in half at either end.
+  while (start > 0 && /\S/.test(content[start - 1])) start--;
+  while (end < content.length && /\S/.test(content[end])) end++;
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+
+  for (const token of matches) {
+    if (token.start < start || token.end > end) continue;
+    if (token.start > cursor) {
+      segments.push({
+        text: content.slice(cursor, token.start),
+        highlight: false,
+      });
+    }
+    segments.push({
+      text: content.slice(token.start, token.end),
+      highlight: true,
+    });
+    cursor = token.end;
+  }
+
+  if (cursor < end) {
+    segments.push({ text: content.slice(cursor, end), highlight: false });
+  }
+
+  if (start > 0) {
+    segments.unshift({ text: "…", highlight: false });
+  }
+  if (end < content.length) {
+    segments.push({ text: "…", highlight: false });
+  }
+
+  return segments.map((s) => ({ ...s, text: s.text.replace(/\s+/g, " ") }));
+}
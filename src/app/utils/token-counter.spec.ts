@@ -0,0 +1,70 @@
+import {
+  countConversationTokens,
+  countImageTokens,
+  countMessageTokens,
+  countTokens,
+  getContextWindow,
+} from "./token-counter";
+
+describe("getContextWindow", () => {
+  it("should resolve the longest prefix that matches", () => {
+    expect(getContextWindow("gpt-4")).toBe(8192);
+    expect(getContextWindow("gpt-4-32k-0613")).toBe(32768);
+    expect(getContextWindow("gpt-4-turbo-2024-04-09")).toBe(128000);
+    expect(getContextWindow("gpt-4o-mini")).toBe(128000);
+    expect(getContextWindow("gpt-3.5-turbo-instruct")).toBe(4096);
+    expect(getContextWindow("gpt-3.5-turbo-0125")).toBe(16385);
+    expect(getContextWindow("llama3.1:8b")).toBe(128000);
+    expect(getContextWindow("llama3:70b")).toBe(8192);
+  });
+
+  it("should only match from the start of the model name", () => {
+    expect(getContextWindow("my-claude-proxy")).toBe(4096);
+    expect(getContextWindow("tuned-gpt-4o")).toBe(4096);
+    expect(getContextWindow("pro1")).toBe(4096);
+  });
+
+  it("should ignore case and a vendor path", () => {
+    expect(getContextWindow("Claude-3-Haiku-20240307")).toBe(200000);
+    expect(getContextWindow("openai/gpt-4o")).toBe(128000);
+    expect(getContextWindow("mistralai/Mixtral-8x7B")).toBe(32768);
+  });
+
+  it("should fall back to a small window for unknown models", () => {
+    expect(getContextWindow("")).toBe(4096);
+    expect(getContextWindow("some-local-model")).toBe(4096);
+  });
+});
+
+describe("countTokens", () => {
+  it("should count nothing for empty text", () => {
+    expect(countTokens("")).toBe(0);
+  });
+
+  it("should weigh models with smaller vocabularies higher", () => {
+    const text = "The quick brown fox jumps over the lazy dog. ".repeat(20);
+
+    expect(countTokens(text, "claude-3-haiku")).toBeGreaterThan(
+      countTokens(text, "gpt-4o")
+    );
+  });
+
+  it("should add message framing and reply priming", () => {
+    const message = { role: "user" as const, content: "Hello there" };
+    const content = countTokens(message.content);
+
+    expect(countMessageTokens(message)).toBe(content + 4);
+    expect(countConversationTokens([message, message])).toBe(
+      2 * (content + 4) + 3
+    );
+  });
+});
+
+describe("countImageTokens", () => {
+  it("should price images by 512px tile after scaling", () => {
+    expect(countImageTokens(512, 512)).toBe(85 + 170);
+    expect(countImageTokens(1024, 1024)).toBe(85 + 170 * 4);
+    // 4096x2048 scales to 2048x1024, then to 1536x768: 3x2 tiles.
+    expect(countImageTokens(4096, 2048)).toBe(85 + 170 * 6);
+  });
+});
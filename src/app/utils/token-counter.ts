@@ -0,0 +1,125 @@
+import { OpenAIChatMessage } from "../models/chat.interface";
+
+// Ordered longest first, so the first prefix that matches is the most
+// specific one.
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["gpt-3.5-turbo-instruct", 4096],
+  ["gpt-35-turbo-16k", 16384],
+  ["gpt-3.5-turbo", 16385],
+  ["gpt-35-turbo", 4096],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-1106", 128000],
+  ["gpt-4-0125", 128000],
+  ["gpt-4-32k", 32768],
+  ["llama3.1", 128000],
+  ["mistral", 32768],
+  ["mixtral", 32768],
+  ["gpt-4o", 128000],
+  ["claude", 200000],
+  ["llama3", 8192],
+  ["llama2", 4096],
+  ["gpt-4", 8192],
+  ["gemma", 8192],
+  ["qwen", 32768],
+  ["o1", 128000],
+  ["o3", 200000],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Per-message framing overhead and reply priming used by chat formats.
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+// OpenAI's high-detail image pricing: a base cost plus one per 512px tile
+// after scaling into 2048px and then to 768px on the short side.
+const IMAGE_BASE_TOKENS = 85;
+const IMAGE_TILE_TOKENS = 170;
+
+// Approximates the pre-tokenization step of BPE tokenizers: words with their
+// leading space, short digit runs, punctuation runs and whitespace.
+const PIECE_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)| ?[\p{L}\p{M}]+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+export function getContextWindow(model: string): number {
+  // Ids such as "openai/gpt-4o" carry a vendor path in front of the name.
+  const normalized = model.toLowerCase().split("/").pop() || "";
+  const match = CONTEXT_WINDOWS.find(([prefix]) =>
+    normalized.startsWith(prefix)
+  );
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimates the token count of a text locally. The numbers follow the
+ * tokenizers of the major model families closely enough for budgeting, but
+ * are not exact; the API usage figures remain authoritative.
+ */
+export function countTokens(text: string, model: string = ""): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+
+  for (const piece of text.match(PIECE_PATTERN) || []) {
+    const trimmed = piece.trim();
+
+    if (!trimmed) {
+      tokens += 1;
+    } else if (/^[A-Za-z]+$/.test(trimmed)) {
+      // Common English words are usually a single token.
+      tokens += Math.ceil(trimmed.length / 6);
+    } else if (/^[\x00-\x7f]+$/.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / 3);
+    } else {
+      // Non-Latin scripts rarely merge into multi-character tokens.
+      tokens += Array.from(trimmed).length;
+    }
+  }
+
+  return Math.ceil(tokens * getFamilyFactor(model));
+}
+
+export function countMessageTokens(
+  message: OpenAIChatMessage,
+  model: string = ""
+): number {
+  return (
+    TOKENS_PER_MESSAGE +
+    countTokens(message.content, model) +
+    (message.images || []).reduce(
+      (total, image) => total + countImageTokens(image.width, image.height),
+      0
+    )
+  );
+}
+
+export function countImageTokens(width: number, height: number): number {
+  let scale = Math.min(1, 2048 / Math.max(width, height));
+  scale *= Math.min(1, 768 / Math.min(width * scale, height * scale));
+  const tiles =
+    Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+
+  return IMAGE_BASE_TOKENS + IMAGE_TILE_TOKENS * tiles;
+}
+
+export function countConversationTokens(
+  messages: OpenAIChatMessage[],
+  model: string = ""
+): number {
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(message, model),
+    TOKENS_PER_REPLY
+  );
+}
+
+function getFamilyFactor(model: string): number {
+  const normalized = model.toLowerCase();
+
+  // These tokenizers have smaller vocabularies than OpenAI's o200k/cl100k.
+  if (normalized.includes("claude")) return 1.15;
+  if (/llama|mistral|mixtral|gemma|qwen/.test(normalized)) return 1.1;
+
+  return 1;
+}
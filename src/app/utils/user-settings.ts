@@ -0,0 +1,157 @@
+import { environment } from "../../environments/environment";
+import { UserSettings } from "../models/chat.interface";
+import { ExportFormat } from "../models/export.interface";
+
+// Bump with a migration step in SettingsService when the shape changes.
+export const USER_SETTINGS_VERSION = 1;
+
+export const FONT_SIZES: {
+  value: UserSettings["fontSize"];
+  label: string;
+  px: number;
+}[] = [
+  { value: "small", label: "Small", px: 14 },
+  { value: "medium", label: "Medium", px: 16 },
+  { value: "large", label: "Large", px: 18 },
+];
+
+export const AUTO_SAVE_INTERVALS: { value: number; label: string }[] = [
+  { value: 0, label: "Off (save on change only)" },
+  { value: 10000, label: "Every 10 seconds" },
+  { value: 30000, label: "Every 30 seconds" },
+  { value: 60000, label: "Every minute" },
+  { value: 300000, label: "Every 5 minutes" },
+];
+
+export const HISTORY_LENGTHS: { value: number; label: string }[] = [
+  { value: 0, label: "No limit (context window only)" },
+  { value: 10, label: "Last 10 messages" },
+  { value: 20, label: "Last 20 messages" },
+  { value: 50, label: "Last 50 messages" },
+  { value: 100, label: "Last 100 messages" },
+];
+
+const THEMES: UserSettings["theme"][] = ["light", "dark", "system"];
+const EXPORT_FORMAT_VALUES: ExportFormat[] = [
+  "json",
+  "markdown",
+  "html",
+  "pdf",
+];
+
+export function getDefaultUserSettings(): UserSettings {
+  return {
+    theme: "system",
+    fontSize: "medium",
+    sendOnEnter: true,
+    showTimestamps: true,
+    enableSounds: false,
+    enableNotifications: false,
+    defaultModel: "",
+    maxHistoryLength: 0,
+    autoSaveInterval: 30000,
+    titles: {
+      enabled: environment.openai.titles.enabled,
+      autoTag: environment.openai.titles.autoTag,
+      model: environment.openai.titles.model,
+    },
+    export: {
+      format: "json",
+      options: {
+        includeSystemMessages: false,
+        includeErrors: false,
+        includeMetadata: true,
+      },
+    },
+  };
+}
+
+/**
+ * Fills in defaults for anything missing or of the wrong type, so settings
+ * read from storage or an older version are always complete.
+ */
+export function normalizeUserSettings(raw: unknown): UserSettings {
+  const defaults = getDefaultUserSettings();
+  const input = isRecord(raw) ? raw : {};
+  const titles = isRecord(input["titles"]) ? input["titles"] : {};
+  const exportPrefs = isRecord(input["export"]) ? input["export"] : {};
+  const exportOptions = isRecord(exportPrefs["options"])
+    ? exportPrefs["options"]
+    : {};
+
+  return {
+    theme: oneOf(input["theme"], THEMES, defaults.theme),
+    fontSize: oneOf(
+      input["fontSize"],
+      FONT_SIZES.map((f) => f.value),
+      defaults.fontSize
+    ),
+    sendOnEnter: bool(input["sendOnEnter"], defaults.sendOnEnter),
+    showTimestamps: bool(input["showTimestamps"], defaults.showTimestamps),
+    enableSounds: bool(input["enableSounds"], defaults.enableSounds),
+    enableNotifications: bool(
+      input["enableNotifications"],
+      defaults.enableNotifications
+    ),
+    defaultModel:
+      typeof input["defaultModel"] === "string"
+        ? input["defaultModel"].trim()
+        : defaults.defaultModel,
+    maxHistoryLength: count(
+      input["maxHistoryLength"],
+      defaults.maxHistoryLength
+    ),
+    autoSaveInterval: count(
+      input["autoSaveInterval"],
+      defaults.autoSaveInterval
+    ),
+    titles: {
+      enabled: bool(titles["enabled"], defaults.titles.enabled),
+      autoTag: bool(titles["autoTag"], defaults.titles.autoTag),
+      model:
+        typeof titles["model"] === "string"
+          ? titles["model"]
+          : defaults.titles.model,
+    },
+    export: {
+      format: oneOf(
+        exportPrefs["format"],
+        EXPORT_FORMAT_VALUES,
+        defaults.export.format
+      ),
+      options: {
+        includeSystemMessages: bool(
+          exportOptions["includeSystemMessages"],
+          defaults.export.options.includeSystemMessages
+        ),
+        includeErrors: bool(
+          exportOptions["includeErrors"],
+          defaults.export.options.includeErrors
+        ),
+        includeMetadata: bool(
+          exportOptions["includeMetadata"],
+          defaults.export.options.includeMetadata
+        ),
+      },
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function bool(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function count(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return value !== null && value !== "" && Number.isFinite(number)
+    ? Math.max(0, Math.round(number))
+    : fallback;
+}
+
+function oneOf<T>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
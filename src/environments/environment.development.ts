@@ -9,6 +9,15 @@ export const environment = {
     showPerformanceMetrics: true,
     mockResponses: false, // Set to true to use mock data instead of real API calls
     slowNetworkSimulation: false, // Simulates slow network for testing loading states
+    // Used by the mock provider when mockResponses is on
+    mock: {
+      firstTokenLatency: 400, // ms before the first token
+      tokenLatency: 30, // ms between streamed tokens
+      slowNetworkFactor: 5, // latency multiplier with slowNetworkSimulation
+      failureRate: 0, // 0-1, share of requests that fail
+      failures: ["429", "500"], // picked at random: "401", "429", "500", "timeout"
+      responses: [] as string[], // canned replies, used in turn; empty echoes the prompt
+    },
   },
 
   // Logging configuration
@@ -49,24 +58,163 @@ export const environment = {
     // Shorter timeout for development
     timeout: 30000,
 
+    // How long a fetched model list is reused before asking again (ms)
+    modelCatalogTtl: 24 * 60 * 60 * 1000,
+
     // More aggressive retry for development
     retry: {
       attempts: 2,
-      delay: 500,
+      delay: 500, // Base delay, doubled per attempt with jitter
+      maxDelay: 8000,
+    },
+
+    // Context window management
+    context: {
+      strategy: "drop-oldest", // 'drop-oldest' or 'summarize'
+      summaryMaxTokens: 512,
+    },
+
+    // Titles generated after the first exchange (model: '' = same as chat)
+    titles: {
+      enabled: true,
+      autoTag: false,
+      model: "",
+      maxTokens: 60,
+    },
+  },
+
+  // Additional chat providers, selectable per conversation
+  providers: {
+    default: "openai",
+    azureOpenai: {
+      apiUrl: "", // e.g. https://<resource>.openai.azure.com
+      apiKey: "",
+      apiVersion: "2024-02-01",
+      deployment: "",
+      model: "gpt-35-turbo",
+    },
+    anthropic: {
+      apiUrl: "https://api.anthropic.com",
+      apiKey: "",
+      apiVersion: "2023-06-01",
+      model: "claude-3-haiku-20240307",
+    },
+    ollama: {
+      apiUrl: "http://localhost:11434",
+      model: "llama3",
+    },
+    llamaCpp: {
+      apiUrl: "http://localhost:8080",
+      apiVersion: "v1",
+      model: "default",
+    },
+  },
+
+  // Model pricing in USD per million tokens. Unlisted models fall back to
+  // the longest matching prefix; unknown models are not costed.
+  pricing: {
+    freeProviders: ["ollama", "llama-cpp", "mock"],
+    models: {
+      "gpt-4o": { input: 2.5, output: 10 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6 },
+      "gpt-4-turbo": { input: 10, output: 30 },
+      "gpt-4-1106": { input: 10, output: 30 },
+      "gpt-4-0125": { input: 10, output: 30 },
+      "gpt-4": { input: 30, output: 60 },
+      "gpt-4-32k": { input: 60, output: 120 },
+      "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+      "gpt-35-turbo": { input: 0.5, output: 1.5 },
+      "claude-3-5-sonnet": { input: 3, output: 15 },
+      "claude-3-5-haiku": { input: 0.8, output: 4 },
+      "claude-3-opus": { input: 15, output: 75 },
+      "claude-3-sonnet": { input: 3, output: 15 },
+      "claude-3-haiku": { input: 0.25, output: 1.25 },
+    },
+  },
+
+  // Usage ledger and spend budgets (USD, null = no limit)
+  usage: {
+    maxRecords: 5000,
+    budgets: {
+      daily: { soft: null, hard: null },
+      monthly: { soft: null, hard: null },
+    },
+  },
+
+  // Files attached to messages
+  attachments: {
+    images: {
+      types: ["image/png", "image/jpeg", "image/webp", "image/gif"],
+      maxCount: 4, // per message
+      maxFileSize: 20 * 1024 * 1024, // bytes, before resizing
+      maxDimension: 1568, // px, longest side after resizing
+      quality: 0.85, // JPEG quality for resized images
+      keepOriginalBelow: 512 * 1024, // bytes; smaller images that fit are stored as is
+    },
+    // Text is extracted in the browser and sent as part of the prompt
+    documents: {
+      extensions: {
+        text: ["txt", "log", "rst"],
+        markdown: ["md", "markdown"],
+        csv: ["csv", "tsv"],
+        json: ["json", "jsonl"],
+        pdf: ["pdf"],
+        code: [
+          "js",
+          "mjs",
+          "ts",
+          "tsx",
+          "jsx",
+          "py",
+          "java",
+          "kt",
+          "c",
+          "h",
+          "cpp",
+          "hpp",
+          "cs",
+          "go",
+          "rs",
+          "rb",
+          "php",
+          "swift",
+          "sh",
+          "sql",
+          "html",
+          "css",
+          "scss",
+          "xml",
+          "yaml",
+          "yml",
+          "toml",
+          "ini",
+        ],
+      },
+      maxCount: 5, // per message
+      maxFileSize: 10 * 1024 * 1024, // bytes
+      chunkTokens: 1500, // tokens per delimited part in the prompt
+      warnAt: 0.8, // share of the context window that triggers a warning
     },
   },
 
   // Local storage keys
   storage: {
+    backend: "indexeddb", // 'indexeddb' or 'localstorage'
+    database: "ai_chat_dev",
     chatHistory: "ai_chat_history_dev",
     userSettings: "ai_user_settings_dev",
+    promptLibrary: "ai_prompt_library_dev",
+    parameterPresets: "ai_parameter_presets_dev",
+    usageLedger: "ai_usage_ledger_dev",
+    usageBudgets: "ai_usage_budgets_dev",
+    modelCatalog: "ai_model_catalog_dev",
+    connections: "ai_connections_dev",
   },
 
   // Application settings
   app: {
     name: "AI Chat App (Development)",
     version: "1.0.0-dev",
-    maxHistoryItems: 100, // Increased for development testing
     enableDevTools: true,
     showDebugPanel: true,
   },